@@ -0,0 +1,13 @@
+import { notFound, redirect } from 'next/navigation';
+import { getDefaultEvent } from '@/lib/events';
+
+// Routes from before events existed (/tournament/..., /admin/..., etc.) point to the current event,
+// so old links and QR codes keep working.
+const LEGACY_ROUTES = ['teams', 'matches', 'schedule', 'tournament', 'admin'];
+
+export default async function LegacyRedirect({ params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  if (!LEGACY_ROUTES.includes(path[0])) notFound();
+  const event = await getDefaultEvent();
+  redirect(`/e/${encodeURIComponent(event.id)}/${path.join('/')}`); // segments arrive still encoded
+}
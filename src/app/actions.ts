@@ -1,86 +1,232 @@
 
 
 "use server"
-import {
-  generateTournamentGroups,
-  type GenerateTournamentGroupsOutput
-} from "@/ai/flows/generate-tournament-groups"
-import type { TournamentsState, CategoryData, GlobalSettings, Team, PlayoffBracket, PlayoffBracketSet, GenerateTournamentGroupsInput, PlayoffMatch, MatchWithScore, Court, TournamentFormValues, GroupWithScores, TimeSlot, UpdateMatchInput as UpdateMatchInputType } from "@/lib/types"
-import { z } from 'zod';
+import { eventFormSchema, isCategoryKey, scorekeeperFormSchema, adminUserFormSchema, newAdminUserFormSchema, adminPasswordSchema, setupFormSchema, type SetupFormValues, type AdminUserFormValues, type CategoryPermission, type NewAdminUserFormValues, type EventFormValues, type ScorableMatch, type ScorekeeperFormValues } from "@/lib/types"
+import type { TournamentsState, CategoryData, GlobalSettings, Team, PlayoffBracket, PlayoffBracketSet, GenerateTournamentGroupsInput, GenerateTournamentGroupsOutput, PlayoffMatch, MatchWithScore, Court, TournamentFormValues, GroupWithScores, TimeSlot, UpdateMatchInput as UpdateMatchInputType } from "@/lib/types"
 import { format, addMinutes, parse, isBefore, startOfDay, isAfter, setHours, setMinutes, differenceInMilliseconds, isEqual, differenceInMinutes } from 'date-fns';
-import { calculateTotalMatches, initializeDoubleEliminationBracket, initializePlayoffs, initializeStandings } from '@/lib/regeneration';
+import { playoffBrackets, type SwissBrackets } from '@/lib/brackets';
+import { SWISS_STAGE } from '@/lib/swiss';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/migrations';
+import { newDrawSeed, parsePots } from '@/lib/seeding';
+import { calculateTotalMatches, initializeDoubleEliminationBracket, initializeKingOfTheBeach, initializePlayoffs, initializeStandings, initializeSwiss } from '@/lib/regeneration';
 import Papa from 'papaparse';
 import { scheduleMatches, type MatchRow, type SchedulingLog } from '@/lib/scheduler';
-import { readDB as kvRead, writeDB as kvWrite } from '@/lib/kv';
-
-// Zod schema for the output of the algorithmic group generation.
-// This is necessary because we can no longer import it from the flow.
-const GenerateTournamentGroupsOutputSchema = z.object({
-  groups: z.array(
-    z.object({
-      name: z.string(),
-      teams: z.array(z.object({ player1: z.string(), player2: z.string() })),
-      matches: z.array(z.object({ 
-        team1: z.object({ player1: z.string(), player2: z.string() }),
-        team2: z.object({ player1: z.string(), player2: z.string() })
-      })),
-    })
-  ),
-  playoffMatches: z.array(z.any()).optional(), // Keep playoffMatches flexible or define schema if needed
-});
-
-
-async function readDb(): Promise<TournamentsState> {
-  const data = await kvRead<TournamentsState>();
-  if (data && data._globalSettings) return data;
-  // Seed inicial se estiver vazio no KV
-  const defaultData: TournamentsState = {
+import { headers } from 'next/headers';
+import { diffState, readEvents, recordEvent, replayEvents, type StateChange, type TournamentEvent, type TournamentEventType } from '@/lib/event-log';
+import { createSnapshot, deleteSnapshot as deleteStoredSnapshot, listSnapshots, readSnapshotState, type SnapshotMeta } from '@/lib/snapshots';
+import { readDB as dbRead, writeDB as dbWrite, readCategory as dbReadCategory, readDBVersioned as dbReadVersioned, writeDBIfUnchanged as dbWriteIfUnchanged, replaceState } from '@/lib/db';
+import { buildEventBundle, bundleToState, parseEventBundle, type BundleIssue, type EventBundle } from '@/lib/bundle';
+import { generateGroups, generateLeagueAlgorithmically } from '@/lib/group-generation';
+import { emptyRegistry, findTeamByNames, parseTeamLine, renameTeam, sidePlayerIds, syncRegistry, teamKey, teamLabel } from '@/lib/registry';
+import { errorMessage } from '@/lib/utils';
+import { endSession, getSession, safeEqual, startSession, UNAUTHORIZED_ERROR } from '@/lib/session';
+import { claimLoginAttempt, clearLoginFailures, throttleMessage } from '@/lib/login-throttle';
+import { readAudit, recordAudit, type AuditEntry } from '@/lib/audit';
+import { authenticateUser, canManageCategory, createUser, isEnvAdminLogin, isSetupRequired, listUsers, renameCategoryPermissions, resetUserPassword, resolveAdmin, setUserDisabled, toAdminUserInfo, updateUser, type AdminAccess, type AdminUserInfo } from '@/lib/users';
+import { addScorekeeper as addStoredScorekeeper, findScorekeeperByCode, getScorekeeper, listScorekeepers, removeScorekeeper, toScorekeeperInfo, type ScorekeeperInfo } from '@/lib/scorekeepers';
+import { findMatch, GROUPS_OVERALL, recordScore } from '@/lib/standings';
+import { createEvent as createStoredEvent, listEvents, requireEvent, updateEvent as updateStoredEvent, type EventMeta, type ScopedEvent } from '@/lib/events';
+
+const defaultTournamentsState = (): TournamentsState => ({
     _globalSettings: {
       startTime: "08:00",
       endTime: "21:00",
       estimatedMatchDuration: 20,
       courts: [{ name: "Quadra 1", slots: [{ startTime: "09:00", endTime: "18:00" }], priority: 1 }]
-    }
-  } as any;
-  await kvWrite(defaultData);
+    },
+    _registry: emptyRegistry(),
+  });
+
+async function readDb(event: ScopedEvent): Promise<TournamentsState> {
+  const data = await dbRead(event.keys);
+  if (data && data._globalSettings) return data;
+  // Seed inicial se o armazenamento estiver vazio
+  const defaultData = defaultTournamentsState();
+  await dbWrite(event.keys, defaultData);
   return defaultData;
 }
 
-async function writeDb(data: TournamentsState) {
-  await kvWrite(data);
+const MAX_WRITE_ATTEMPTS = 5;
+const CONFLICT_ERROR = "Os dados foram alterados por outra pessoa enquanto você editava. Recarregue para ver a versão mais recente.";
+const ARCHIVED_ERROR = "Este evento está arquivado. Reative-o para fazer alterações.";
+
+type MutationResult = { success: boolean; error?: string; conflict?: boolean };
+
+// Read-modify-write with optimistic concurrency: only the keys the mutation changed are written,
+// and only if nobody else wrote them since our read. On a stale revision the mutation is re-applied
+// on fresh data, so concurrent edits to different categories or matches merge instead of overwriting each other.
+// Every successful mutation is appended to the event log as `type`. Archived events are read-only.
+async function mutateDb<R extends MutationResult>(event: ScopedEvent, type: TournamentEventType, mutate: (db: TournamentsState) => R | Promise<R>): Promise<R> {
+  if (event.archived) return { success: false, error: ARCHIVED_ERROR } as R;
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const snapshot = await dbReadVersioned(event.keys);
+    const db = snapshot.value && snapshot.value._globalSettings ? snapshot.value : defaultTournamentsState();
+    const before = structuredClone(db);
+    const result = await mutate(db);
+    if (!result.success) return result;
+    syncTeams(db, before);
+    if (await dbWriteIfUnchanged(event.keys, snapshot, db)) {
+      await logEvent(event, type, before, db);
+      return result;
+    }
+  }
+  return { success: false, conflict: true, error: CONFLICT_ERROR } as R;
+}
+
+// Categories embed copies of the registry's names; refresh them (and register teams that arrived without
+// an id) before every write, so a rename can never leave groups, standings and brackets disagreeing.
+// A category changed only by this refresh still gets a new revision.
+function syncTeams(db: TournamentsState, before: TournamentsState) {
+    syncRegistry(db);
+    for (const name of Object.keys(db).filter(isCategoryKey)) {
+        const category = db[name] as CategoryData;
+        const previous = before[name] as CategoryData | undefined;
+        if (previous && category.revision === previous.revision && JSON.stringify(category) !== JSON.stringify(previous)) {
+            touchCategory(category);
+        }
+    }
+}
+
+// Admin actions check the signed session cookie (and the account behind it) before doing anything; the UI
+// turns `unauthorized` into the login screen. `forbidden` is a signed-in admin without permission for the action.
+const UNAUTHORIZED = { success: false, unauthorized: true, error: UNAUTHORIZED_ERROR } as const;
+const FORBIDDEN = { success: false, unauthorized: false, error: "Sua conta não tem permissão para esta ação." } as const;
+
+async function adminAccess(): Promise<AdminAccess | null> {
+    return resolveAdmin(await getSession());
+}
+
+// Null when the signed-in admin may go ahead. Actions need a global admin, except those that pass the
+// categories they touch, which admins of all those categories may also do.
+async function denyAdmin(eventId?: string, categories?: string[]): Promise<typeof UNAUTHORIZED | typeof FORBIDDEN | null> {
+    const access = await adminAccess();
+    if (!access) return UNAUTHORIZED;
+    if (access.global) return null;
+    if (eventId && categories?.length && categories.every(category => canManageCategory(access, eventId, category))) return null;
+    return FORBIDDEN;
+}
+
+// Courts the current session may enter scores on in this event: all of them for an admin (limited to their
+// categories for a category admin), the assigned ones for a scorekeeper of this event, or null. The scorekeeper
+// is looked up on every call, so removing one (or changing their courts) takes effect before their session runs out.
+async function scorableCourts(event: ScopedEvent): Promise<{ all: boolean; courts: string[]; name: string; categories?: string[] } | null> {
+    const session = await getSession();
+    if (session?.role === 'admin') {
+        const access = await resolveAdmin(session);
+        if (!access) return null;
+        const categories = access.global ? undefined : access.categories.filter(p => p.eventId === event.id).map(p => p.category);
+        return { all: true, courts: [], name: access.actor, categories };
+    }
+    if (session?.role !== 'scorekeeper' || session.eventId !== event.id || !session.scorekeeperId) return null;
+    const scorekeeper = await getScorekeeper(event.keys, session.scorekeeperId);
+    return scorekeeper && { all: false, courts: scorekeeper.courts, name: scorekeeper.name };
 }
 
-export async function getTournaments(): Promise<TournamentsState> {
-    return await readDb();
+// Each proxy appends the address it got the request from to x-forwarded-for, and anything before that is
+// whatever the client sent. With TRUSTED_PROXY_COUNT proxies in front of the app (default 1), the client
+// is the entry that many hops from the end.
+const TRUSTED_PROXY_COUNT = Math.max(1, Number(process.env.TRUSTED_PROXY_COUNT) || 1);
+
+async function clientIp(): Promise<string | null> {
+  try {
+    const requestHeaders = await headers();
+    const hops = requestHeaders.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) ?? [];
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)] || requestHeaders.get('x-real-ip');
+  } catch {
+    return null; // outside of a request (scripts)
+  }
 }
 
-export async function getTournamentByCategory(category: string): Promise<CategoryData | null> {
-    const db = await readDb();
-    return db[category] || null;
+// The session says who made a change; the IP tells devices apart in the log.
+async function currentActor(): Promise<string> {
+  const actor = (await getSession())?.sub ?? 'admin';
+  const ip = await clientIp();
+  return ip ? `${actor} (${ip})` : actor;
 }
 
-export async function saveGlobalSettings(settings: GlobalSettings): Promise<{ success: boolean; error?: string }> {
+// Login attempts are throttled per client and per account (src/lib/login-throttle.ts). The attempt is
+// counted as a failure before `attempt` runs, so parallel requests can't all slip past the backoff;
+// a successful login clears the counters. A request without an address (no proxy headers) is only counted
+// per account, or per `noIpSubject` when the login has no account of its own.
+async function throttledLogin<R extends { success: boolean; error?: string }>(accountSubject: string | null, attempt: () => Promise<R>, noIpSubject?: string): Promise<R> {
+  const ip = await clientIp();
+  const subjects = [ip ? `ip:${ip}` : noIpSubject, accountSubject].filter((subject): subject is string => !!subject);
+  let check;
+  try {
+    check = await claimLoginAttempt(subjects);
+  } catch (e) {
+    console.error("Erro ao registrar a tentativa de login:", e);
+    return { success: false, error: errorMessage(e, "Não foi possível registrar a tentativa de login.") } as R;
+  }
+  if (!check.allowed) return { success: false, error: throttleMessage(check) } as R;
+  const result = await attempt();
+  if (result.success) await clearLoginFailures(subjects);
+  return result;
+}
+
+const SETUP_REQUIRED_ERROR = "Nenhum administrador foi configurado ainda. Crie a primeira conta para continuar.";
+
+// The change is already saved at this point, so a failure to log it must not fail the action.
+async function logEvent(event: ScopedEvent, type: TournamentEventType, before: TournamentsState, after: TournamentsState) {
+  try {
+    await recordEvent(event.keys, type, before, after, await currentActor());
+  } catch (e) {
+    console.error("Failed to record event:", e);
+  }
+}
+
+// Destructive actions keep a full copy of the event first, so a wrong click can be undone from the Snapshots page.
+// If the copy can't be taken the action is not carried out.
+async function snapshotBefore(event: ScopedEvent, reason: string) {
+    if (event.archived) throw new Error(ARCHIVED_ERROR);
+    await createSnapshot(event.keys, await readDb(event), { name: reason, actor: await currentActor(), automatic: true });
+}
+
+// Every server-side change to a category bumps its revision, so a client holding an older copy gets a conflict instead of overwriting it.
+const touchCategory = (category: CategoryData) => {
+    category.revision = (category.revision ?? 0) + 1;
+};
+
+export async function getTournaments(eventId: string): Promise<TournamentsState> {
+    return await readDb(await requireEvent(eventId));
+}
+
+export async function getTournamentByCategory(eventId: string, category: string): Promise<CategoryData | null> {
+    return await dbReadCategory((await requireEvent(eventId)).keys, category);
+}
+
+export async function saveGlobalSettings(eventId: string, settings: GlobalSettings): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
-        const db = await readDb();
-        db._globalSettings = settings;
-        await writeDb(db);
-        return { success: true };
-    } catch (e: any) {
+        return await mutateDb(await requireEvent(eventId), 'settings.updated', db => {
+            db._globalSettings = settings;
+            return { success: true };
+        });
+    } catch (e) {
         console.error(e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao salvar as configurações globais." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao salvar as configurações globais.") };
     }
 }
 
 
-export async function saveTournament(categoryName: string, data: CategoryData): Promise<{ success: boolean; error?: string }> {
+export async function saveTournament(eventId: string, categoryName: string, data: CategoryData): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean; revision?: number }> {
+    const denied = await denyAdmin(eventId, [categoryName]);
+    if (denied) return denied;
     try {
-        const db = await readDb();
-        db[categoryName] = data;
-        await writeDb(db);
-        return { success: true };
-    } catch (e: any) {
+        return await mutateDb<{ success: boolean; error?: string; conflict?: boolean; revision?: number }>(await requireEvent(eventId), 'category.saved', db => {
+            const current = db[categoryName] as CategoryData | undefined;
+            // The client sends back the whole category it loaded; refuse it if the category changed since then.
+            if (current && (current.revision ?? 0) !== (data.revision ?? 0)) {
+                return { success: false, conflict: true, error: CONFLICT_ERROR };
+            }
+            const revision = (current?.revision ?? 0) + 1;
+            db[categoryName] = { ...data, revision };
+            return { success: true, revision };
+        });
+    } catch (e) {
         console.error(e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao salvar." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao salvar.") };
     }
 }
 
@@ -127,16 +273,9 @@ function extractDependencies(placeholder: string | undefined): { matchDeps: stri
 }
 
 
-function teamIsEqual(teamA?: Team, teamB?: Team) {
-    if (!teamA || !teamB) return false;
-    if(!teamA.player1 || !teamA.player2 || !teamB.player1 || !teamB.player2) return false;
-    const teamAPlayers = [teamA.player1, teamA.player2].sort();
-    const teamBPlayers = [teamB.player1, teamB.player2].sort();
-    return teamAPlayers[0] === teamBPlayers[0] && teamAPlayers[1] === teamBPlayers[1];
-}
-
-
-export async function renameTournament(oldCategoryName: string, newCategoryName: string): Promise<{ success: boolean; error?: string }> {
+export async function renameTournament(eventId: string, oldCategoryName: string, newCategoryName: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
         if (!oldCategoryName || !newCategoryName) {
             return { success: false, error: "Os nomes da categoria não podem ser vazios." };
@@ -145,285 +284,263 @@ export async function renameTournament(oldCategoryName: string, newCategoryName:
             return { success: true }; // No change needed
         }
 
-        const db = await readDb();
-
-        if (!db[oldCategoryName]) {
-            return { success: false, error: `A categoria "${oldCategoryName}" não foi encontrada.` };
-        }
-        if (db[newCategoryName]) {
-            return { success: false, error: `A categoria "${newCategoryName}" já existe.` };
-        }
+        const result = await mutateDb(await requireEvent(eventId), 'category.renamed', db => {
+            if (!db[oldCategoryName]) {
+                return { success: false, error: `A categoria "${oldCategoryName}" não foi encontrada.` };
+            }
+            if (db[newCategoryName]) {
+                return { success: false, error: `A categoria "${newCategoryName}" já existe.` };
+            }
 
-        const categoryData = db[oldCategoryName];
-        categoryData.formValues.category = newCategoryName; // Update internal name
+            const categoryData = db[oldCategoryName] as CategoryData;
+            categoryData.formValues.category = newCategoryName; // Update internal name
+            touchCategory(categoryData);
 
-        db[newCategoryName] = categoryData;
-        delete db[oldCategoryName];
-        
-        await writeDb(db);
-        return { success: true };
-    } catch (e: any) {
+            db[newCategoryName] = categoryData;
+            delete db[oldCategoryName];
+            return { success: true };
+        });
+        if (result.success) await renameCategoryPermissions(eventId, oldCategoryName, newCategoryName);
+        return result;
+    } catch (e) {
         console.error(e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao renomear." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao renomear.") };
     }
 }
 
 
-export async function deleteTournament(categoryName: string): Promise<{ success: boolean; error?: string }> {
+export async function deleteTournament(eventId: string, categoryName: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
-        const db = await readDb();
-        if (db[categoryName]) {
+        const event = await requireEvent(eventId);
+        await snapshotBefore(event, `Antes de excluir "${categoryName}"`);
+        return await mutateDb(event, 'category.deleted', db => {
+            if (!db[categoryName]) {
+                return { success: false, error: "Categoria não encontrada." };
+            }
             delete db[categoryName];
-            await writeDb(db);
             return { success: true };
-        }
-        return { success: false, error: "Categoria não encontrada." };
-    } catch (e: any) {
+        });
+    } catch (e) {
         console.error(e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao excluir." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao excluir.") };
     }
 }
 
-// Algorithmic group and match generation
-function generateGroupsAlgorithmically(input: GenerateTournamentGroupsInput): GenerateTournamentGroupsOutput {
-    const { teams, numberOfGroups, groupFormationStrategy } = input;
-    
-    if (!numberOfGroups) {
-      throw new Error("Número de grupos não fornecido.");
-    }
-
-    let teamsToDistribute = [...teams];
-    if (groupFormationStrategy === 'random') {
-        // Fisher-Yates shuffle
-        for (let i = teamsToDistribute.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [teamsToDistribute[i], teamsToDistribute[j]] = [teamsToDistribute[j], teamsToDistribute[i]];
-        }
-    }
-    
-    const groupsData: { name: string; teams: Team[]; matches: { team1: Team; team2: Team }[] }[] = Array.from({ length: numberOfGroups }, (_, i) => ({
-        name: `Group ${String.fromCharCode(65 + i)}`,
-        teams: [],
-        matches: []
-    }));
-
-    // Distribute teams into groups (serpentine for 'order', sequential for 'random' because it's already shuffled)
-    teamsToDistribute.forEach((team, index) => {
-        let groupIndex: number;
-        if (groupFormationStrategy === 'order') {
-            groupIndex = index % numberOfGroups;
-        } else {
-            groupIndex = index % numberOfGroups; // já está embaralhado, então mantém
-        }
-        groupsData[groupIndex].teams.push(team);
-    });
-
-    // Generate round-robin matches for each group
-    groupsData.forEach(group => {
-        for (let i = 0; i < group.teams.length; i++) {
-            for (let j = i + 1; j < group.teams.length; j++) {
-                group.matches.push({
-                    team1: group.teams[i],
-                    team2: group.teams[j]
-                });
-            }
-        }
-    });
-
-    return GenerateTournamentGroupsOutputSchema.parse({ groups: groupsData, playoffMatches: [] });
-}
-
-
 export async function generateGroupsAction(
   input: GenerateTournamentGroupsInput
 ): Promise<{
   success: boolean
   data?: GenerateTournamentGroupsOutput
   error?: string
+  unauthorized?: boolean
 }> {
-  try {
-    let output: GenerateTournamentGroupsOutput;
+  const denied = await denyAdmin();
+  if (denied) return denied;
+  return generateGroups(input);
+}
 
-    if (input.tournamentType === 'groups') {
-        output = generateGroupsAlgorithmically(input);
-    } else {
-        // Use AI for single and double elimination
-        output = await generateTournamentGroups(input);
+// Named accounts first; the username 'admin' with a strong ADMIN_PASSWORD also works while that variable is set
+export async function signIn(username: string, password: string): Promise<{ success: boolean; error?: string; expiresAt?: number; setupRequired?: boolean }> {
+  if (await isSetupRequired()) {
+    return { success: false, setupRequired: true, error: SETUP_REQUIRED_ERROR };
+  }
+  return throttledLogin(`user:${username.trim().toLowerCase()}`, async () => {
+    const user = await authenticateUser(username, password);
+    if (!user && !isEnvAdminLogin(username, password)) {
+      return { success: false, error: "Usuário ou senha incorretos." };
     }
-    
-    if (input.tournamentType === 'groups') {
-      if (!output.groups || output.groups.length === 0) {
-        return { success: false, error: "Não foi possível gerar os grupos. Verifique os parâmetros." };
+    const session = await startSession(user ? { sub: user.username, role: 'admin', userId: user.id } : { sub: 'admin', role: 'admin' });
+    return { success: true, expiresAt: session.exp };
+  });
+}
+
+// First run: creates the first (global) admin account and signs it in. Nothing else works until then.
+export async function completeSetup(values: SetupFormValues): Promise<{ success: boolean; error?: string; expiresAt?: number }> {
+  return throttledLogin('setup', async () => {
+    try {
+      if (!(await isSetupRequired())) {
+        return { success: false, error: "A configuração inicial já foi feita. Entre com a sua conta." };
+      }
+      const expectedToken = process.env.ADMIN_PASSWORD;
+      if (expectedToken && !safeEqual(values.setupToken ?? '', expectedToken)) {
+        return { success: false, error: "Senha de instalação (ADMIN_PASSWORD) incorreta." };
       }
-    } else if (input.tournamentType === 'singleElimination' || input.tournamentType === 'doubleElimination') {
-      if (!output.playoffMatches || output.playoffMatches.length === 0) {
-        return { success: false, error: "A IA não conseguiu gerar o chaveamento. Tente novamente." };
+      const parsed = setupFormSchema.safeParse(values);
+      if (!parsed.success) {
+        return { success: false, error: parsed.error.issues[0]?.message ?? "Dados inválidos." };
       }
+      const { username, name, password } = parsed.data;
+      const user = await createUser({ username, name, password, global: true, categories: [] }, { firstRun: true });
+      await recordAudit('setup.completed', user.username, `user:${user.username}`);
+      const session = await startSession({ sub: user.username, role: 'admin', userId: user.id });
+      return { success: true, expiresAt: session.exp };
+    } catch (e) {
+      console.error("Erro na configuração inicial:", e);
+      return { success: false, error: errorMessage(e, "Erro desconhecido na configuração inicial.") };
     }
+  });
+}
 
-    return { success: true, data: output };
-  } catch (e: any) {
-    console.error(e);
-    return { success: false, error: e.message || "Ocorreu um erro desconhecido." };
+// Scorekeepers sign in per event, with the code the admin gave them
+export async function signInScorekeeper(eventId: string, code: string): Promise<{ success: boolean; error?: string; expiresAt?: number }> {
+  try {
+    const event = await requireEvent(eventId);
+    // Only the client is counted: a wrong code says nothing about which scorekeeper was meant.
+    // Without the client's address, the event's scorekeeper logins are counted together.
+    return await throttledLogin(null, async () => {
+      const scorekeeper = await findScorekeeperByCode(event.keys, code);
+      if (!scorekeeper) {
+        return { success: false, error: "Código incorreto." };
+      }
+      const session = await startSession({ sub: `mesário ${scorekeeper.name}`, role: 'scorekeeper', eventId: event.id, scorekeeperId: scorekeeper.id });
+      return { success: true, expiresAt: session.exp };
+    }, `scorekeeper:${event.id}`);
+  } catch (e) {
+    console.error("Erro ao entrar como mesário:", e);
+    return { success: false, error: errorMessage(e, "Erro desconhecido ao entrar.") };
   }
 }
 
-export async function verifyPassword(password: string): Promise<{ success: boolean }> {
-  const correctPassword = process.env.ADMIN_PASSWORD || "1234";
-  if (!correctPassword) {
-    console.error("ADMIN_PASSWORD is not set in .env file");
-    return { success: false };
-  }
-  return { success: password === correctPassword };
+export async function signOut(): Promise<{ success: boolean }> {
+  await endSession();
+  return { success: true };
+}
+
+// `authenticated` means an admin session; scorekeeper sessions only open the scorekeeper page
+export async function getSessionStatus(): Promise<{ authenticated: boolean; setupRequired?: boolean; setupTokenRequired?: boolean; expiresAt?: number; username?: string; global?: boolean; categories?: CategoryPermission[] }> {
+  if (await isSetupRequired()) return { authenticated: false, setupRequired: true, setupTokenRequired: !!process.env.ADMIN_PASSWORD };
+  const session = await getSession();
+  const access = await resolveAdmin(session);
+  if (!session || !access) return { authenticated: false };
+  return { authenticated: true, expiresAt: session.exp, username: access.actor, global: access.global, categories: access.categories };
 }
 
 
 export async function updateTeamInTournament(
+  eventId: string,
   categoryName: string,
   originalTeam: Team,
   updatedTeam: Team
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+  const denied = await denyAdmin(eventId, [categoryName]);
+  if (denied) return denied;
   try {
-    const db = await readDb();
-    const categoryData = db[categoryName];
+    return await mutateDb(await requireEvent(eventId), 'team.updated', db => {
+      const categoryData = db[categoryName] as CategoryData;
 
-    if (!categoryData) {
-      return { success: false, error: "Categoria não encontrada." };
-    }
+      if (!categoryData) {
+        return { success: false, error: "Categoria não encontrada." };
+      }
 
-    const originalTeamKey = teamToKey(originalTeam);
-    const updatedTeamKey = teamToKey(updatedTeam);
-    
-    // Update teams in formValues.teams string
-    if (categoryData.formValues.teams) {
-        const teamsList = categoryData.formValues.teams.split('\n');
-        const teamIndex = teamsList.findIndex(t => teamToKey({ player1: t.split(' e ')[0], player2: t.split(' e ')[1] }) === originalTeamKey);
-        if (teamIndex !== -1) {
-            teamsList[teamIndex] = updatedTeamKey;
-            categoryData.formValues.teams = teamsList.join('\n');
-        }
-    }
+      // Teams loaded before the registry existed have no id yet
+      syncRegistry(db);
+      const teamId = originalTeam.id ?? findTeamByNames(db._registry, originalTeam.player1, originalTeam.player2)?.id;
+      if (!teamId || !categoryData.teamIds?.includes(teamId)) {
+        return { success: false, error: "Dupla não encontrada nesta categoria." };
+      }
+
+      // Groups, standings, brackets and the teams list only hold the team's id and a copy of
+      // its names, which mutateDb refreshes from the registry before saving.
+      renameTeam(db._registry, teamId, updatedTeam.player1, updatedTeam.player2);
+      return { success: true };
+    });
 
-    // Update teams in tournamentData (groups)
-    if (categoryData.tournamentData?.groups) {
-      const groups = Array.isArray(categoryData.tournamentData.groups) ? categoryData.tournamentData.groups : Object.values(categoryData.tournamentData.groups);
-      groups.forEach(group => {
-        // Update group.teams array
-        group.teams = group.teams.map(t => teamIsEqual(t, originalTeam) ? { ...updatedTeam } : t);
+  } catch (e) {
+    console.error("Error updating team:", e);
+    return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao atualizar a dupla.") };
+  }
+}
 
-        // Update group.matches
-        group.matches.forEach(match => {
-          if (teamIsEqual(match.team1, originalTeam)) match.team1 = { ...updatedTeam };
-          if (teamIsEqual(match.team2, originalTeam)) match.team2 = { ...updatedTeam };
-        });
+// Generates a category from scratch (groups, brackets and match count), with no results.
+// A random or pot draw records its seed in the form values, so the same draw can be generated again.
+async function buildCategory(input: TournamentFormValues): Promise<CategoryData> {
+    const values = input.groupFormationStrategy !== 'order' ? { ...input, drawSeed: input.drawSeed ?? newDrawSeed() } : input;
+    const categoryName = values.category;
+
+    let newCategoryData: CategoryData = {
+        tournamentData: null,
+        playoffs: null,
+        formValues: values,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+    };
+
+    if (values.tournamentType === 'doubleElimination') {
+        const finalPlayoffs = await initializeDoubleEliminationBracket(values, categoryName);
+        newCategoryData.playoffs = finalPlayoffs;
+    } else if (values.tournamentType === 'swiss') {
+        newCategoryData = { ...newCategoryData, ...(await initializeSwiss(values, categoryName)) };
+    } else if (values.tournamentType === 'league') {
+        // No knockout: the final table is the result
+        const league = generateLeagueAlgorithmically(values.teams.split("\n").map(t => t.trim()).filter(Boolean).map(parseTeamLine), values.legs ?? 1);
+        newCategoryData.tournamentData = { groups: await initializeStandings(league.groups, categoryName) };
+    } else if (values.tournamentType === 'kingOfTheBeach') {
+        newCategoryData.playoffs = await initializeKingOfTheBeach(values, categoryName);
+    } else if (values.tournamentType === 'singleElimination') {
+        newCategoryData.playoffs = await initializePlayoffs(values, categoryName);
+    } else {
+        const teamsArray: Team[] = values.teams
+            .split("\n")
+            .map((t) => t.trim())
+            .filter(Boolean)
+            .map((teamString) => {
+                const players = teamString.split(/\s+e\s+/i).map((p) => p.trim())
+                return { player1: players[0] || "", player2: players[1] || "" }
+            });
 
-        // Update group.standings
-        group.standings.forEach(standing => {
-          if (teamIsEqual(standing.team, originalTeam)) standing.team = { ...updatedTeam };
+        const result = await generateGroups({
+            numberOfTeams: values.numberOfTeams,
+            numberOfGroups: values.numberOfGroups,
+            groupFormationStrategy: values.groupFormationStrategy,
+            drawSeed: values.drawSeed,
+            teams: teamsArray,
+            pots: parsePots(values.teams).map(pot => pot.map(parseTeamLine)),
+            separations: values.separations,
+            legs: values.legs,
+            category: values.category,
+            tournamentType: values.tournamentType,
         });
-      });
-      categoryData.tournamentData.groups = groups;
-    }
 
-    // Update teams in playoffs
-    if (categoryData.playoffs) {
-        const updatePlayoffBracket = (bracket: PlayoffBracket | undefined) => {
-            if (!bracket) return;
-            Object.values(bracket).forEach(round => {
-                round.forEach(match => {
-                    if (match.team1 && teamIsEqual(match.team1, originalTeam)) match.team1 = { ...updatedTeam };
-                    if (match.team2 && teamIsEqual(match.team2, originalTeam)) match.team2 = { ...updatedTeam };
-                });
-            });
-        };
-        
-        const bracketSet = categoryData.playoffs as PlayoffBracketSet;
-        if(bracketSet.upper || bracketSet.lower || bracketSet.playoffs) {
-            updatePlayoffBracket(bracketSet.upper);
-            updatePlayoffBracket(bracketSet.lower);
-            updatePlayoffBracket(bracketSet.playoffs);
-        } else {
-             updatePlayoffBracket(bracketSet as PlayoffBracket)
+        if (!result.success || !result.data) {
+            throw new Error(result.error || "Ocorreu um erro inesperado na geração.");
         }
-    }
-
-    await writeDb(db);
-    return { success: true };
 
-  } catch (e: any) {
-    console.error("Error updating team:", e);
-    return { success: false, error: e.message || "Ocorreu um erro desconhecido ao atualizar a dupla." };
-  }
+        newCategoryData.tournamentData = { groups: await initializeStandings(result.data.groups, categoryName) };
+        newCategoryData.playoffs = await initializePlayoffs(values, categoryName);
+    }
+    
+    newCategoryData.totalMatches = await calculateTotalMatches(newCategoryData);
+    return newCategoryData;
 }
 
-async function createOrUpdateCategory(values: TournamentFormValues): Promise<{ success: boolean; error?: string }> {
+async function createOrUpdateCategory(event: ScopedEvent, values: TournamentFormValues): Promise<{ success: boolean; error?: string; conflict?: boolean }> {
     try {
-        const db = await readDb();
         const categoryName = values.category;
-        const oldCategoryData = db[categoryName] || {};
-
-        let newCategoryData: CategoryData = {
-            ...oldCategoryData,
-            tournamentData: null,
-            playoffs: null,
-            formValues: values,
-        };
-
-        if (values.tournamentType === 'doubleElimination') {
-            const finalPlayoffs = await initializeDoubleEliminationBracket(values, categoryName);
-            newCategoryData.playoffs = finalPlayoffs;
-        } else {
-            const teamsArray: Team[] = values.teams
-                .split("\n")
-                .map((t) => t.trim())
-                .filter(Boolean)
-                .map((teamString) => {
-                    const players = teamString.split(/\s+e\s+/i).map((p) => p.trim())
-                    return { player1: players[0] || "", player2: players[1] || "" }
-                });
-
-            const result = await generateGroupsAction({
-                numberOfTeams: values.numberOfTeams,
-                numberOfGroups: values.numberOfGroups,
-                groupFormationStrategy: values.groupFormationStrategy,
-                teams: teamsArray,
-                category: values.category,
-                tournamentType: values.tournamentType,
-            });
-
-            if (!result.success || !result.data) {
-                return { success: false, error: result.error || "Ocorreu um erro inesperado na geração." };
-            }
+        const newCategoryData = await buildCategory(values);
 
-            if (values.tournamentType === 'groups') {
-                const initializedGroups = await initializeStandings(result.data.groups, categoryName);
-                const initializedPlayoffs = await initializePlayoffs(values, categoryName, result.data);
-
-                newCategoryData.tournamentData = { groups: initializedGroups };
-                newCategoryData.playoffs = initializedPlayoffs;
-
-            } else if (values.tournamentType === 'singleElimination') {
-                newCategoryData.playoffs = await initializePlayoffs(values, categoryName, result.data);
-            }
-        }
-        
-        newCategoryData.totalMatches = await calculateTotalMatches(newCategoryData);
-        
-        db[categoryName] = newCategoryData;
-        await writeDb(db);
-        
-        return { success: true };
+        return await mutateDb(event, 'category.generated', db => {
+            const oldCategoryData = db[categoryName] as CategoryData | undefined;
+            // The teams list may have changed, so its registry ids are taken again from the new list.
+            // Swiss standings only survive if the new format is Swiss too.
+            db[categoryName] = { ...oldCategoryData, ...newCategoryData, swissStandings: newCategoryData.swissStandings, teamIds: undefined, playerIds: undefined, revision: (oldCategoryData?.revision ?? 0) + 1 };
+            return { success: true };
+        });
 
-    } catch (e: any) {
+    } catch (e) {
         console.error("Error creating/updating category:", e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao criar/atualizar a categoria." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao criar/atualizar a categoria.") };
     }
 }
 
 
-export async function regenerateCategory(categoryName: string, newFormValues?: TournamentFormValues): Promise<{ success: boolean; error?: string }> {
+export async function regenerateCategory(eventId: string, categoryName: string, newFormValues?: TournamentFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    // New form values may name another category, which is then written too
+    const denied = await denyAdmin(eventId, newFormValues ? [categoryName, newFormValues.category] : [categoryName]);
+    if (denied) return denied;
     try {
-        const db = await readDb();
+        const event = await requireEvent(eventId);
+        const db = await readDb(event);
         const existingCategory = db[categoryName] as CategoryData;
 
         if (!existingCategory && !newFormValues) {
@@ -436,10 +553,14 @@ export async function regenerateCategory(categoryName: string, newFormValues?: T
             return { success: false, error: "Não foram encontrados valores de formulário para regenerar a categoria." };
         }
 
-        return await createOrUpdateCategory(valuesToUse);
-    } catch (e: any) {
+        if (existingCategory) {
+            await snapshotBefore(event, `Antes de regenerar "${categoryName}"`);
+        }
+
+        return await createOrUpdateCategory(event, valuesToUse);
+    } catch (e) {
         console.error("Error regenerating category:", e);
-        return { success: false, error: e.message || "Ocorreu um erro desconhecido ao regenerar a categoria." };
+        return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido ao regenerar a categoria.") };
     }
 }
 
@@ -451,133 +572,136 @@ type UpdateMatchInput = {
     phaseStartTime?: string;
 };
 
-export async function updateMatch(input: UpdateMatchInput): Promise<{ success: boolean; error?: string }> {
+export async function updateMatch(eventId: string, input: UpdateMatchInput): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin(eventId, [input.categoryName]);
+    if (denied) return denied;
     try {
         const { matchId, categoryName, time, court, phaseStartTime } = input;
-        const db = await readDb();
+        return await mutateDb(await requireEvent(eventId), 'match.scheduled', db => {
+            const categoryData = db[categoryName] as CategoryData;
+            if (!categoryData) {
+                return { success: false, error: "Categoria não encontrada." };
+            }
 
-        const categoryData = db[categoryName] as CategoryData;
-        if (!categoryData) {
-            return { success: false, error: "Categoria não encontrada." };
-        }
+            let matchFound = false;
 
-        let matchFound = false;
-
-        // Search in group matches
-        if (categoryData.tournamentData?.groups) {
-            for (const group of categoryData.tournamentData.groups) {
-                const match = group.matches.find(m => m.id === matchId);
-                if (match) {
-                    match.time = time;
-                    match.court = court;
-                    matchFound = true;
-                    break;
+            // Search in group matches
+            if (categoryData.tournamentData?.groups) {
+                for (const group of categoryData.tournamentData.groups) {
+                    const match = group.matches.find(m => m.id === matchId);
+                    if (match) {
+                        match.time = time;
+                        match.court = court;
+                        matchFound = true;
+                        break;
+                    }
                 }
             }
-        }
         
-        // Search in playoffs
-        if (!matchFound && categoryData.playoffs) {
-             const findAndUpdateInBracket = (bracket: PlayoffBracket | undefined) => {
-                if (!bracket) return;
-                for (const round of Object.values(bracket)) {
-                    for(const match of round) {
-                        // If phaseStartTime is provided, update all matches in the same round
-                        if (phaseStartTime !== undefined && match.name.startsWith(round[0].name.split(' ')[0])) {
-                           match.phaseStartTime = phaseStartTime;
-                        }
-                        if (match.id === matchId) {
-                            match.time = time;
-                            match.court = court;
-                            matchFound = true;
+            // Search in playoffs
+            if (!matchFound && categoryData.playoffs) {
+                 const findAndUpdateInBracket = (bracket: PlayoffBracket | undefined) => {
+                    if (!bracket) return;
+                    for (const round of Object.values(bracket)) {
+                        for(const match of round) {
+                            // If phaseStartTime is provided, update all matches in the same round
+                            if (phaseStartTime !== undefined && match.name.startsWith(round[0].name.split(' ')[0])) {
+                               match.phaseStartTime = phaseStartTime;
+                            }
+                            if (match.id === matchId) {
+                                match.time = time;
+                                match.court = court;
+                                matchFound = true;
+                            }
                         }
                     }
-                }
-            };
+                };
             
-            const bracketSet = categoryData.playoffs as PlayoffBracketSet;
-            if(bracketSet.upper || bracketSet.lower || bracketSet.playoffs) {
-                findAndUpdateInBracket(bracketSet.upper);
-                findAndUpdateInBracket(bracketSet.lower);
-                findAndUpdateInBracket(bracketSet.playoffs);
-            } else {
-                findAndUpdateInBracket(bracketSet as PlayoffBracket)
+                playoffBrackets(categoryData).forEach(findAndUpdateInBracket);
             }
-        }
 
 
-        if (!matchFound && phaseStartTime === undefined) {
-            return { success: false, error: "Jogo não encontrado." };
-        }
+            if (!matchFound && phaseStartTime === undefined) {
+                return { success: false, error: "Jogo não encontrado." };
+            }
 
-        await writeDb(db);
-        return { success: true };
+            touchCategory(categoryData);
+            return { success: true };
+        });
 
-    } catch (e: any) {
+    } catch (e) {
         console.error("Erro ao atualizar o jogo:", e);
-        return { success: false, error: e.message || "Erro desconhecido ao atualizar o jogo." };
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao atualizar o jogo.") };
     }
 }
 
-export async function updateMultipleMatches(matches: UpdateMatchInputType[]): Promise<{ success: boolean; error?: string }> {
+export async function updateMultipleMatches(eventId: string, matches: UpdateMatchInputType[]): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin(eventId, matches.map(m => m.categoryName));
+    if (denied) return denied;
     try {
-        const db = await readDb();
-
-        for (const { matchId, categoryName, time, court } of matches) {
-            const categoryData = db[categoryName] as CategoryData;
-            if (!categoryData) continue;
-
-            let matchFound = false;
-            const findAndUpdate = (currentMatch: MatchWithScore | PlayoffMatch) => {
-                if (currentMatch.id === matchId) {
-                    currentMatch.time = time;
-                    currentMatch.court = court;
-                    return true;
-                }
-                return false;
-            };
+        return await applyMatchSchedules(await requireEvent(eventId), matches, 'match.scheduled');
+    } catch (e) {
+        console.error("Erro ao atualizar os jogos:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao atualizar os jogos.") };
+    }
+}
 
-            const findAndUpdateInBracket = (bracket?: PlayoffBracket) => {
-                if (!bracket) return;
-                for (const round of Object.values(bracket)) {
-                    for (const match of round) {
-                        if (findAndUpdate(match)) {
-                            matchFound = true;
-                            return;
+async function applyMatchSchedules(event: ScopedEvent, matches: UpdateMatchInputType[], type: TournamentEventType): Promise<{ success: boolean; error?: string; conflict?: boolean }> {
+    try {
+        return await mutateDb(event, type, db => {
+            for (const { matchId, categoryName, time, court } of matches) {
+                const categoryData = db[categoryName] as CategoryData;
+                if (!categoryData) continue;
+
+                let matchFound = false;
+                const findAndUpdate = (currentMatch: MatchWithScore | PlayoffMatch) => {
+                    if (currentMatch.id === matchId) {
+                        currentMatch.time = time;
+                        currentMatch.court = court;
+                        return true;
+                    }
+                    return false;
+                };
+
+                const findAndUpdateInBracket = (bracket?: PlayoffBracket) => {
+                    if (!bracket) return;
+                    for (const round of Object.values(bracket)) {
+                        for (const match of round) {
+                            if (findAndUpdate(match)) {
+                                matchFound = true;
+                                return;
+                            }
                         }
                     }
-                }
-            };
+                };
             
-            if (categoryData.tournamentData?.groups) {
-                for (const group of categoryData.tournamentData.groups) {
-                    for (const match of group.matches) {
-                        if (findAndUpdate(match)) {
-                            matchFound = true;
-                            break;
+                if (categoryData.tournamentData?.groups) {
+                    for (const group of categoryData.tournamentData.groups) {
+                        for (const match of group.matches) {
+                            if (findAndUpdate(match)) {
+                                matchFound = true;
+                                break;
+                            }
                         }
+                        if (matchFound) break;
                     }
-                    if (matchFound) break;
                 }
-            }
             
-            if (!matchFound && categoryData.playoffs) {
-                const bracketSet = categoryData.playoffs as PlayoffBracketSet;
-                if(bracketSet.upper || bracketSet.lower || bracketSet.playoffs) {
-                    findAndUpdateInBracket(bracketSet.upper);
-                    if (!matchFound) findAndUpdateInBracket(bracketSet.lower);
-                    if (!matchFound) findAndUpdateInBracket(bracketSet.playoffs);
-                } else {
-                    findAndUpdateInBracket(bracketSet as PlayoffBracket)
+                if (!matchFound) {
+                    for (const bracket of playoffBrackets(categoryData)) {
+                        if (matchFound) break;
+                        findAndUpdateInBracket(bracket);
+                    }
                 }
+
+                if (matchFound) touchCategory(categoryData);
             }
-        }
 
-        await writeDb(db);
-        return { success: true };
-    } catch (e: any) {
+            return { success: true };
+        });
+    } catch (e) {
         console.error("Erro ao atualizar os jogos:", e);
-        return { success: false, error: e.message || "Erro desconhecido ao atualizar os jogos." };
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao atualizar os jogos.") };
     }
 }
 
@@ -588,91 +712,73 @@ type CsvRow = {
     court: string;
 };
 
-export async function importScheduleFromCSV(csvData: string): Promise<{ success: boolean; error?: string }> {
+export async function importScheduleFromCSV(eventId: string, csvData: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
-        const db = await readDb();
-
-        const allDbMatchIds = new Set<string>();
-        Object.entries(db).forEach(([categoryName, categoryData]) => {
-            if (categoryName === '_globalSettings') return;
-            const category = categoryData as CategoryData;
+        const event = await requireEvent(eventId);
+        await snapshotBefore(event, "Antes de importar os horários do CSV");
+        return await mutateDb(event, 'schedule.imported', db => {
+            const allDbMatchIds = new Set<string>();
+            Object.entries(db).forEach(([categoryName, categoryData]) => {
+                if (!isCategoryKey(categoryName)) return;
+                const category = categoryData as CategoryData;
             
-            const addMatchIds = (matches: (MatchWithScore | PlayoffMatch)[]) => {
-                if (!Array.isArray(matches)) return;
-                matches.forEach(m => m.id && allDbMatchIds.add(m.id));
-            };
+                const addMatchIds = (matches: (MatchWithScore | PlayoffMatch)[]) => {
+                    if (!Array.isArray(matches)) return;
+                    matches.forEach(m => m.id && allDbMatchIds.add(m.id));
+                };
 
-            category.tournamentData?.groups.forEach(g => addMatchIds(g.matches));
+                category.tournamentData?.groups.forEach(g => addMatchIds(g.matches));
             
-            const processPlayoffBracket = (bracket?: PlayoffBracket) => {
-                if (!bracket) return;
-                Object.values(bracket).flat().forEach(m => m.id && allDbMatchIds.add(m.id));
-            };
+                const processPlayoffBracket = (bracket?: PlayoffBracket) => {
+                    if (!bracket) return;
+                    Object.values(bracket).flat().forEach(m => m.id && allDbMatchIds.add(m.id));
+                };
 
-            if (category.playoffs) {
-                const playoffs = category.playoffs as PlayoffBracketSet;
-                 if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                    processPlayoffBracket(playoffs.upper);
-                    processPlayoffBracket(playoffs.lower);
-                    processPlayoffBracket(playoffs.playoffs);
-                } else {
-                    processPlayoffBracket(playoffs as PlayoffBracket);
-                }
-            }
-        });
+                playoffBrackets(category).forEach(processPlayoffBracket);
+            });
 
-        const parsed = Papa.parse<CsvRow>(csvData.trim(), { header: true, skipEmptyLines: true });
-        if (parsed.errors.length > 0) {
-            console.error("CSV Parsing errors:", parsed.errors);
-            return { success: false, error: `Erro ao ler o CSV: ${parsed.errors[0].message}` };
-        }
+            const parsed = Papa.parse<CsvRow>(csvData.trim(), { header: true, skipEmptyLines: true });
+            if (parsed.errors.length > 0) {
+                console.error("CSV Parsing errors:", parsed.errors);
+                return { success: false, error: `Erro ao ler o CSV: ${parsed.errors[0].message}` };
+            }
         
-        const csvRows = parsed.data;
-        const csvMatchIds = new Set(csvRows.map(row => row.matchId));
+            const csvRows = parsed.data;
+            const csvMatchIds = new Set(csvRows.map(row => row.matchId));
 
-        const missingIds: string[] = [];
-        for (const dbId of allDbMatchIds) {
-            if (!csvMatchIds.has(dbId)) {
-                missingIds.push(dbId);
+            const missingIds: string[] = [];
+            for (const dbId of allDbMatchIds) {
+                if (!csvMatchIds.has(dbId)) {
+                    missingIds.push(dbId);
+                }
             }
-        }
 
-        if (missingIds.length > 0) {
-            return { 
-                success: false, 
-                error: `O CSV está incompleto. ${missingIds.length} jogos não foram encontrados no arquivo. IDs faltantes: ${missingIds.slice(0, 5).join(', ')}...`
-            };
-        }
-        
-        // Create a map for quick lookups
-        const scheduleMap = new Map<string, { time: string, court: string }>();
-        csvRows.forEach(row => {
-            if (row.matchId) {
-                scheduleMap.set(row.matchId, { time: row.time || '', court: row.court || '' });
+            if (missingIds.length > 0) {
+                return { 
+                    success: false, 
+                    error: `O CSV está incompleto. ${missingIds.length} jogos não foram encontrados no arquivo. IDs faltantes: ${missingIds.slice(0, 5).join(', ')}...`
+                };
             }
-        });
-
-        // Iterate through the db object and update it directly
-        for (const categoryName in db) {
-            if (categoryName === '_globalSettings') continue;
-            const category = db[categoryName] as CategoryData;
-
-            // Update group matches
-            category.tournamentData?.groups.forEach(group => {
-                group.matches.forEach(match => {
-                    if (match.id && scheduleMap.has(match.id)) {
-                        const newSchedule = scheduleMap.get(match.id)!;
-                        match.time = newSchedule.time;
-                        match.court = newSchedule.court;
-                    }
-                });
+        
+            // Create a map for quick lookups
+            const scheduleMap = new Map<string, { time: string, court: string }>();
+            csvRows.forEach(row => {
+                if (row.matchId) {
+                    scheduleMap.set(row.matchId, { time: row.time || '', court: row.court || '' });
+                }
             });
 
-            // Update playoff matches
-            const updateBracket = (bracket?: PlayoffBracket) => {
-                if (!bracket) return;
-                Object.values(bracket).forEach(round => {
-                    round.forEach(match => {
+            // Iterate through the db object and update it directly
+            for (const categoryName in db) {
+                if (!isCategoryKey(categoryName)) continue;
+                const category = db[categoryName] as CategoryData;
+                touchCategory(category);
+
+                // Update group matches
+                category.tournamentData?.groups.forEach(group => {
+                    group.matches.forEach(match => {
                         if (match.id && scheduleMap.has(match.id)) {
                             const newSchedule = scheduleMap.get(match.id)!;
                             match.time = newSchedule.time;
@@ -680,73 +786,71 @@ export async function importScheduleFromCSV(csvData: string): Promise<{ success:
                         }
                     });
                 });
-            };
 
-            if (category.playoffs) {
-                const playoffs = category.playoffs as PlayoffBracketSet;
-                if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                    updateBracket(playoffs.upper);
-                    updateBracket(playoffs.lower);
-                    updateBracket(playoffs.playoffs);
-                } else {
-                    updateBracket(playoffs as PlayoffBracket);
-                }
-            }
-        }
+                // Update playoff matches
+                const updateBracket = (bracket?: PlayoffBracket) => {
+                    if (!bracket) return;
+                    Object.values(bracket).forEach(round => {
+                        round.forEach(match => {
+                            if (match.id && scheduleMap.has(match.id)) {
+                                const newSchedule = scheduleMap.get(match.id)!;
+                                match.time = newSchedule.time;
+                                match.court = newSchedule.court;
+                            }
+                        });
+                    });
+                };
 
+                playoffBrackets(category).forEach(updateBracket);
+            }
 
-        await writeDb(db);
-        return { success: true };
+            return { success: true };
+        });
 
-    } catch (e: any) {
+    } catch (e) {
         console.error("Erro na importação do CSV:", e);
-        return { success: false, error: e.message || "Erro inesperado durante a importação." };
+        return { success: false, error: errorMessage(e, "Erro inesperado durante a importação.") };
     }
 }
 
 
-export async function clearAllSchedules(): Promise<{ success: boolean; error?: string }> {
+export async function clearAllSchedules(eventId: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
-        const db = await readDb();
+        const event = await requireEvent(eventId);
+        await snapshotBefore(event, "Antes de limpar os horários");
+        return await mutateDb(event, 'schedule.cleared', db => {
+            const resetSchedule = (match: MatchWithScore | PlayoffMatch) => {
+                match.time = '';
+                match.court = '';
+            };
 
-        const resetSchedule = (match: MatchWithScore | PlayoffMatch) => {
-            match.time = '';
-            match.court = '';
-        };
+            const resetBracketSchedules = (bracket?: PlayoffBracket) => {
+                if (!bracket) return;
+                Object.values(bracket).flat().forEach(resetSchedule);
+            };
 
-        const resetBracketSchedules = (bracket?: PlayoffBracket) => {
-            if (!bracket) return;
-            Object.values(bracket).flat().forEach(resetSchedule);
-        };
+            for (const categoryName in db) {
+                if (!isCategoryKey(categoryName)) continue;
+                const category = db[categoryName] as CategoryData;
+                touchCategory(category);
 
-        for (const categoryName in db) {
-            if (categoryName === '_globalSettings') continue;
-            const category = db[categoryName] as CategoryData;
-
-            // Reset group matches
-            category.tournamentData?.groups.forEach(group => {
-                group.matches.forEach(resetSchedule);
-            });
+                // Reset group matches
+                category.tournamentData?.groups.forEach(group => {
+                    group.matches.forEach(resetSchedule);
+                });
 
-            // Reset playoff matches
-            if (category.playoffs) {
-                const playoffs = category.playoffs as PlayoffBracketSet;
-                if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                    resetBracketSchedules(playoffs.upper);
-                    resetBracketSchedules(playoffs.lower);
-                    resetBracketSchedules(playoffs.playoffs);
-                } else {
-                    resetBracketSchedules(playoffs as PlayoffBracket);
-                }
+                // Reset playoff matches
+                playoffBrackets(category).forEach(resetBracketSchedules);
             }
-        }
 
-        await writeDb(db);
-        return { success: true };
+            return { success: true };
+        });
 
-    } catch (e: any) {
+    } catch (e) {
         console.error("Erro ao limpar agendamento:", e);
-        return { success: false, error: e.message || "Erro inesperado ao limpar agendamento." };
+        return { success: false, error: errorMessage(e, "Erro inesperado ao limpar agendamento.") };
     }
 }
 
@@ -771,7 +875,7 @@ function transformDataForScheduler(tournaments: TournamentsState): { matchesInpu
     });
 
     for (const categoryName in tournaments) {
-        if (categoryName === '_globalSettings') continue;
+        if (!isCategoryKey(categoryName)) continue;
         const categoryData = tournaments[categoryName] as CategoryData;
         
         const categoryPrefix = categoryName.replace(/\s/g, '');
@@ -791,10 +895,17 @@ function transformDataForScheduler(tournaments: TournamentsState): { matchesInpu
             const ids = g.matches.map(m => m.id!);
             groupMatchIds.set(groupIdentifier, ids);
         });
+        // Seeds across groups ("1º do Categoria-Geral") wait for every group
+        groupMatchIds.set(`${categoryPrefix}-${GROUPS_OVERALL}`, (categoryData.tournamentData?.groups ?? []).flatMap(g => g.matches.map(m => m.id!)));
+        // The Swiss cut ("1º do Categoria-Suico") waits for every Swiss round
+        const swissRounds = (categoryData.playoffs as SwissBrackets | null)?.swiss;
+        if (categoryData.formValues.tournamentType === 'swiss' && swissRounds) {
+            groupMatchIds.set(`${categoryPrefix}-${SWISS_STAGE}`, Object.values(swissRounds).flat().map(m => m.id));
+        }
 
-        const addMatch = (match: MatchWithScore | PlayoffMatch, category: string) => {
+        const addMatch = (match: MatchWithScore | PlayoffMatch, category: string, previousLegs: string[] = []) => {
             if (!match.id) return;
-            let allDependencies: string[] = [];
+            let allDependencies: string[] = [...previousLegs];
 
             const processPlaceholder = (placeholder?: string) => {
                 if (!placeholder) return;
@@ -811,43 +922,52 @@ function transformDataForScheduler(tournaments: TournamentsState): { matchesInpu
 
             processPlaceholder(match.team1Placeholder);
             processPlaceholder(match.team2Placeholder);
+            // Explicit dependencies, such as a Swiss round on the previous one
+            allDependencies.push(...((match as PlayoffMatch).dependencies ?? []));
            
             matchesInput.push({
                 matchId: match.id,
                 category: category,
-                stage: match.name,
+                stage: match.name ?? '',
                 team1: match.team1Placeholder || teamToKey(match.team1) || '',
                 team2: match.team2Placeholder || teamToKey(match.team2) || '',
-                dependencies: [...new Set(allDependencies)]
+                players: [
+                    ...sidePlayerIds(tournaments._registry, match.team1, match.team1Placeholder),
+                    ...sidePlayerIds(tournaments._registry, match.team2, match.team2Placeholder),
+                ],
+                dependencies: [...new Set(allDependencies)],
+                round: (match as MatchWithScore).round,
             });
         };
 
-        categoryData.tournamentData?.groups.forEach(g => g.matches.forEach(m => addMatch(m, categoryName)));
+        categoryData.tournamentData?.groups.forEach(g => {
+            // With several legs, each match of a pair waits for the previous one
+            const lastLeg = new Map<string, string>();
+            g.matches.forEach(m => {
+                const pair = [teamKey(m.team1), teamKey(m.team2)].sort().join('|');
+                addMatch(m, categoryName, lastLeg.has(pair) ? [lastLeg.get(pair)!] : []);
+                if (m.id) lastLeg.set(pair, m.id);
+            });
+        });
         
         const processBracket = (bracket?: PlayoffBracket) => {
             if (!bracket) return;
             Object.values(bracket).flat().forEach(m => addMatch(m, categoryName));
         };
 
-        if (categoryData.playoffs) {
-            const playoffs = categoryData.playoffs as PlayoffBracketSet;
-            if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                processBracket(playoffs.upper);
-                processBracket(playoffs.lower);
-                processBracket(playoffs.playoffs);
-            } else {
-                processBracket(playoffs as PlayoffBracket);
-            }
-        }
+        playoffBrackets(categoryData).forEach(processBracket);
     }
 
     return { matchesInput, parameters };
 }
 
 
-export async function generateScheduleAction(): Promise<{ success: boolean; error?: string; logs?: SchedulingLog[]; partialSchedule?: any[] }> {
+export async function generateScheduleAction(eventId: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean; logs?: SchedulingLog[]; partialSchedule?: any[] }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
     try {
-        const db = await readDb();
+        const event = await requireEvent(eventId);
+        const db = await readDb(event);
         
         const { matchesInput, parameters } = transformDataForScheduler(db);
 
@@ -867,15 +987,470 @@ export async function generateScheduleAction(): Promise<{ success: boolean; erro
                 court: m.court!
         }));
         
-        await updateMultipleMatches(updatedMatches);
-        return { success: true };
+        await snapshotBefore(event, "Antes de gerar os horários");
+        return await applyMatchSchedules(event, updatedMatches, 'schedule.generated');
 
-    } catch (e: any) {
+    } catch (e) {
         console.error("Erro ao gerar horários:", e);
-        return { success: false, error: e.message || "Erro desconhecido ao gerar horários." };
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao gerar horários.") };
     }
 }
 
     
 
 
+
+export async function getEventLog(eventId: string): Promise<{ events: TournamentEvent[]; replayMatchesState: boolean; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return { events: [], replayMatchesState: false, unauthorized: denied.unauthorized };
+    const event = await requireEvent(eventId);
+    const [events, db] = await Promise.all([readEvents(event.keys), readDb(event)]);
+    const replayed = replayEvents(events);
+    return {
+        // The baseline carries the whole event; the log page doesn't need it.
+        events: events.map(({ state, ...event }) => event),
+        replayMatchesState: !!replayed && diffState(db, replayed).length === 0,
+    };
+}
+
+// Rebuilds the state from the event log up to (and including) `uptoSeq`, or to the end of the log.
+// The rebuild is itself logged, so it can be undone by rebuilding up to the event before it.
+export async function rebuildFromEventLog(eventId: string, uptoSeq?: number): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        const rebuilt = replayEvents(await readEvents(event.keys), uptoSeq);
+        if (!rebuilt) {
+            return { success: false, error: "O log não tem um estado inicial a partir do qual reconstruir." };
+        }
+        await snapshotBefore(event, uptoSeq === undefined ? "Antes de reconstruir pelo log" : `Antes de voltar ao evento #${uptoSeq} do log`);
+        return await mutateDb(event, 'log.replayed', db => {
+            replaceState(db, rebuilt);
+            return { success: true };
+        });
+    } catch (e) {
+        console.error("Erro ao reconstruir a partir do log:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao reconstruir a partir do log.") };
+    }
+}
+
+export async function getSnapshots(eventId: string): Promise<{ snapshots: SnapshotMeta[]; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return { snapshots: [], unauthorized: denied.unauthorized };
+    return { snapshots: await listSnapshots((await requireEvent(eventId)).keys) };
+}
+
+export async function takeSnapshot(eventId: string, name: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; snapshot?: SnapshotMeta }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        if (!name.trim()) {
+            return { success: false, error: "Dê um nome ao snapshot." };
+        }
+        const event = await requireEvent(eventId);
+        const snapshot = await createSnapshot(event.keys, await readDb(event), { name: name.trim(), actor: await currentActor() });
+        return { success: true, snapshot };
+    } catch (e) {
+        console.error("Erro ao criar snapshot:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao criar o snapshot.") };
+    }
+}
+
+export async function deleteSnapshot(eventId: string, id: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        if (event.archived) return { success: false, error: ARCHIVED_ERROR };
+        await deleteStoredSnapshot(event.keys, id);
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao excluir snapshot:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao excluir o snapshot.") };
+    }
+}
+
+// What restoring would change, from the current state to the snapshot. Revision counters are left out: they always differ.
+export async function previewSnapshotRestore(eventId: string, id: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; changes?: StateChange[] }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        const snapshotState = await readSnapshotState(event.keys, id);
+        if (!snapshotState) {
+            return { success: false, error: "Snapshot não encontrado." };
+        }
+        const changes = diffState(await readDb(event), snapshotState).filter(c => c.path[c.path.length - 1] !== 'revision');
+        return { success: true, changes };
+    } catch (e) {
+        console.error("Erro ao comparar snapshot:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao comparar o snapshot.") };
+    }
+}
+
+export async function restoreSnapshot(eventId: string, id: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        const snapshotState = await readSnapshotState(event.keys, id);
+        const meta = (await listSnapshots(event.keys)).find(s => s.id === id);
+        if (!snapshotState || !meta) {
+            return { success: false, error: "Snapshot não encontrado." };
+        }
+        await snapshotBefore(event, `Antes de restaurar "${meta.name}"`);
+        return await mutateDb(event, 'snapshot.restored', db => {
+            replaceState(db, snapshotState);
+            return { success: true };
+        });
+    } catch (e) {
+        console.error("Erro ao restaurar snapshot:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao restaurar o snapshot.") };
+    }
+}
+
+export async function getEvents(): Promise<EventMeta[]> {
+    return await listEvents();
+}
+
+export async function getEventInfo(eventId: string): Promise<EventMeta | null> {
+    return (await listEvents()).find(e => e.id === eventId) ?? null;
+}
+
+export async function createEvent(values: EventFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; event?: EventMeta }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = eventFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0].message };
+        }
+        return { success: true, event: await createStoredEvent(parsed.data) };
+    } catch (e) {
+        console.error("Erro ao criar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao criar o evento.") };
+    }
+}
+
+export async function updateEvent(eventId: string, values: EventFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; event?: EventMeta }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = eventFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0].message };
+        }
+        return { success: true, event: await updateStoredEvent(eventId, parsed.data) };
+    } catch (e) {
+        console.error("Erro ao atualizar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao atualizar o evento.") };
+    }
+}
+
+export async function setEventArchived(eventId: string, archived: boolean): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        await updateStoredEvent(eventId, { archived });
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao arquivar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao arquivar o evento.") };
+    }
+}
+
+// A new stage with the same setup: courts, schedule settings and categories (same teams) are copied,
+// and each category is generated again from its form values, so the clone starts with no results or times.
+export async function cloneEvent(sourceEventId: string, values: EventFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; event?: EventMeta }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = eventFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0].message };
+        }
+        const source = await readDb(await requireEvent(sourceEventId));
+        const categories: Record<string, CategoryData> = {};
+        for (const name in source) {
+            if (isCategoryKey(name)) categories[name] = await buildCategory((source[name] as CategoryData).formValues);
+        }
+
+        const created = await createStoredEvent(parsed.data);
+        const result = await mutateDb(await requireEvent(created.id), 'event.cloned', db => {
+            db._globalSettings = structuredClone(source._globalSettings);
+            Object.assign(db, categories);
+            return { success: true };
+        });
+        return result.success ? { success: true, event: created } : result;
+    } catch (e) {
+        console.error("Erro ao clonar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao clonar o evento.") };
+    }
+}
+
+export async function exportEvent(eventId: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean; bundle?: EventBundle }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        return { success: true, bundle: buildEventBundle(event, await readDb(event)) };
+    } catch (e) {
+        console.error("Erro ao exportar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao exportar o evento.") };
+    }
+}
+
+// Checks an uploaded bundle without importing it, so the admin sees every problem (or what is inside) before choosing.
+export async function inspectEventBundle(raw: unknown): Promise<{ success: boolean; error?: string; unauthorized?: boolean; issues: BundleIssue[]; event?: EventFormValues; categories?: string[]; exportedAt?: string }> {
+    const denied = await denyAdmin();
+    if (denied) return { ...denied, issues: [] };
+    const { bundle, issues } = parseEventBundle(raw);
+    if (!bundle) return { success: false, issues };
+    return { success: true, issues, event: bundle.event, categories: Object.keys(bundle.categories), exportedAt: bundle.exportedAt };
+}
+
+// Imports a bundle either as a new event or over an existing one. Replacing keeps a snapshot of the
+// replaced data first, like every other destructive action.
+export async function importEventBundle(
+    raw: unknown,
+    target: { mode: 'new' } | { mode: 'replace'; eventId: string },
+): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean; issues?: BundleIssue[]; event?: EventMeta }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const { bundle, issues } = parseEventBundle(raw);
+        if (!bundle) {
+            return { success: false, error: `O arquivo tem ${issues.length} problema(s).`, issues };
+        }
+        const state = bundleToState(bundle);
+
+        if (target.mode === 'new') {
+            const created = await createStoredEvent(bundle.event);
+            const result = await mutateDb(await requireEvent(created.id), 'event.imported', db => {
+                replaceState(db, state);
+                return { success: true };
+            });
+            return result.success ? { success: true, event: created } : result;
+        }
+
+        const event = await requireEvent(target.eventId);
+        await snapshotBefore(event, "Antes de importar um evento");
+        const result = await mutateDb(event, 'event.imported', db => {
+            replaceState(db, state);
+            return { success: true };
+        });
+        return result.success ? { success: true, event } : result;
+    } catch (e) {
+        console.error("Erro ao importar evento:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao importar o evento.") };
+    }
+}
+
+export async function getScorekeepers(eventId: string): Promise<{ scorekeepers: ScorekeeperInfo[]; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return { scorekeepers: [], unauthorized: denied.unauthorized };
+    const scorekeepers = await listScorekeepers((await requireEvent(eventId)).keys);
+    return { scorekeepers: scorekeepers.map(toScorekeeperInfo) };
+}
+
+export async function addScorekeeper(eventId: string, values: ScorekeeperFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; scorekeeper?: ScorekeeperInfo }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = scorekeeperFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0]?.message ?? "Dados do mesário inválidos." };
+        }
+        const event = await requireEvent(eventId);
+        if (event.archived) return { success: false, error: ARCHIVED_ERROR };
+        const scorekeeper = await addStoredScorekeeper(event.keys, parsed.data);
+        return { success: true, scorekeeper: toScorekeeperInfo(scorekeeper) };
+    } catch (e) {
+        console.error("Erro ao cadastrar mesário:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao cadastrar o mesário.") };
+    }
+}
+
+export async function deleteScorekeeper(eventId: string, id: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const event = await requireEvent(eventId);
+        if (event.archived) return { success: false, error: ARCHIVED_ERROR };
+        if (!(await removeScorekeeper(event.keys, id))) {
+            return { success: false, error: "Mesário não encontrado." };
+        }
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao remover mesário:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao remover o mesário.") };
+    }
+}
+
+// The matches the current session may score: those on the scorekeeper's courts (every scheduled match for an admin),
+// in time order. Filtering happens here so other courts' matches never reach a scorekeeper's screen.
+export async function getScorekeeperMatches(eventId: string): Promise<{ matches: ScorableMatch[]; courts: string[]; name?: string; unauthorized?: boolean }> {
+    const event = await requireEvent(eventId);
+    const scope = await scorableCourts(event);
+    if (!scope) return { matches: [], courts: [], unauthorized: true };
+
+    const db = await readDb(event);
+    const matches: ScorableMatch[] = [];
+    for (const categoryName of Object.keys(db).filter(isCategoryKey)) {
+        const category = db[categoryName] as CategoryData;
+        const stages = [
+            ...(category.tournamentData?.groups ?? []).flatMap(group => group.matches.map(match => ({ stage: group.name, match: match as MatchWithScore | PlayoffMatch }))),
+            ...playoffBrackets(category).flatMap(bracket => Object.values(bracket).flat().map(match => ({ stage: match.name, match: match as MatchWithScore | PlayoffMatch }))),
+        ];
+        for (const { stage, match } of stages) {
+            if (!match.court || (!scope.all && !scope.courts.includes(match.court))) continue;
+            if (scope.categories && !scope.categories.includes(categoryName)) continue;
+            matches.push({
+                id: match.id,
+                category: categoryName,
+                stage,
+                team1: match.team1 ? teamLabel(match.team1) : (match as PlayoffMatch).team1Placeholder ?? '',
+                team2: match.team2 ? teamLabel(match.team2) : (match as PlayoffMatch).team2Placeholder ?? '',
+                score1: match.score1,
+                score2: match.score2,
+                time: match.time,
+                court: match.court,
+                teamsKnown: !!match.team1 && !!match.team2,
+            });
+        }
+    }
+    matches.sort((a, b) => (a.time || '99:99').localeCompare(b.time || '99:99'));
+    const courts = scope.all ? db._globalSettings.courts.map(c => c.name) : scope.courts;
+    return { matches, courts, name: scope.name };
+}
+
+// Enters (or clears, with undefined scores) the score of one match. Scorekeepers may only score matches
+// on their courts whose two teams are known; standings and brackets are recalculated on the server.
+export async function submitScore(
+    eventId: string,
+    categoryName: string,
+    matchId: string,
+    score1: number | undefined,
+    score2: number | undefined
+): Promise<{ success: boolean; error?: string; unauthorized?: boolean; conflict?: boolean }> {
+    try {
+        const event = await requireEvent(eventId);
+        const scope = await scorableCourts(event);
+        if (!scope) return UNAUTHORIZED;
+        const isScore = (s: number | undefined) => s === undefined || (Number.isInteger(s) && s >= 0);
+        if (!isScore(score1) || !isScore(score2) || (score1 === undefined) !== (score2 === undefined)) {
+            return { success: false, error: "Informe os dois placares (números inteiros, a partir de zero)." };
+        }
+        return await mutateDb(event, 'match.scored', db => {
+            const category = db[categoryName] as CategoryData;
+            const match = category && findMatch(category, matchId)?.match;
+            if (!match) {
+                return { success: false, error: "Jogo não encontrado." };
+            }
+            if (!scope.all && (!match.court || !scope.courts.includes(match.court))) {
+                return { success: false, error: "Este jogo não está em uma quadra atribuída a você." };
+            }
+            if (scope.categories && !scope.categories.includes(categoryName)) {
+                return { success: false, error: "Sua conta não administra esta categoria." };
+            }
+            if (!match.team1 || !match.team2) {
+                return { success: false, error: "As duplas deste jogo ainda não estão definidas." };
+            }
+            recordScore(category, matchId, score1, score2);
+            touchCategory(category);
+            return { success: true };
+        });
+    } catch (e) {
+        console.error("Erro ao lançar o placar:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao lançar o placar.") };
+    }
+}
+
+export async function getAdminUsers(): Promise<{ users: AdminUserInfo[]; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return { users: [], unauthorized: denied.unauthorized };
+    return { users: (await listUsers()).map(toAdminUserInfo) };
+}
+
+export async function createAdminUser(values: NewAdminUserFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean; user?: AdminUserInfo }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = newAdminUserFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0]?.message ?? "Dados do usuário inválidos." };
+        }
+        const user = await createUser(parsed.data);
+        await recordAudit('user.created', await currentActor(), `user:${user.username}`, user.global ? "administrador geral" : undefined);
+        return { success: true, user: toAdminUserInfo(user) };
+    } catch (e) {
+        console.error("Erro ao criar usuário:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao criar o usuário.") };
+    }
+}
+
+// The username can't change: it is what the log records as the author of each change.
+// Admins can't take global rights away from themselves, so nobody locks the last admin out by accident.
+export async function updateAdminUser(id: string, values: AdminUserFormValues): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    const access = await adminAccess();
+    try {
+        const parsed = adminUserFormSchema.safeParse(values);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0]?.message ?? "Dados do usuário inválidos." };
+        }
+        if (access?.userId === id && !parsed.data.global) {
+            return { success: false, error: "Você não pode remover a sua própria permissão de administrador geral." };
+        }
+        const user = await updateUser(id, parsed.data);
+        await recordAudit('user.updated', await currentActor(), `user:${user.username}`,
+            user.global ? "administrador geral" : user.categories.map(p => `${p.eventId}/${p.category}`).join(', '));
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao atualizar usuário:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao atualizar o usuário.") };
+    }
+}
+
+export async function setAdminUserDisabled(id: string, disabled: boolean): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    const access = await adminAccess();
+    try {
+        if (disabled && access?.userId === id) {
+            return { success: false, error: "Você não pode desativar a sua própria conta." };
+        }
+        const user = await setUserDisabled(id, disabled);
+        await recordAudit(disabled ? 'user.disabled' : 'user.enabled', await currentActor(), `user:${user.username}`);
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao desativar usuário:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao alterar o usuário.") };
+    }
+}
+
+// Also ends the user's open sessions
+export async function resetAdminUserPassword(id: string, password: string): Promise<{ success: boolean; error?: string; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return denied;
+    try {
+        const parsed = adminPasswordSchema.safeParse(password);
+        if (!parsed.success) {
+            return { success: false, error: parsed.error.issues[0]?.message ?? "Senha inválida." };
+        }
+        const user = await resetUserPassword(id, parsed.data);
+        await recordAudit('user.password-reset', await currentActor(), `user:${user.username}`);
+        return { success: true };
+    } catch (e) {
+        console.error("Erro ao redefinir senha:", e);
+        return { success: false, error: errorMessage(e, "Erro desconhecido ao redefinir a senha.") };
+    }
+}
+
+export async function getAuditLog(): Promise<{ entries: AuditEntry[]; unauthorized?: boolean }> {
+    const denied = await denyAdmin();
+    if (denied) return { entries: [], unauthorized: denied.unauthorized };
+    return { entries: await readAudit() };
+}
@@ -0,0 +1,391 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Loader2, CalendarDays, PlusCircle, Pencil, Copy, Archive, ArchiveRestore, ExternalLink, Download, Upload } from "lucide-react";
+import type { EventMeta } from "@/lib/events";
+import type { BundleIssue } from "@/lib/bundle";
+import type { EventFormValues } from "@/lib/types";
+import { getEvents, createEvent, updateEvent, cloneEvent, setEventArchived, exportEvent, inspectEventBundle, importEventBundle } from "@/app/actions";
+import { eventHref } from "@/hooks/use-event";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { LoginPage } from "@/components/login-page";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type EditorMode = { kind: 'create' } | { kind: 'edit'; event: EventMeta } | { kind: 'clone'; event: EventMeta };
+
+const EMPTY_EVENT: EventFormValues = { name: "", date: "", venue: "", logo: "/logo.png" };
+
+const EDITOR_TITLES: Record<EditorMode['kind'], string> = {
+  create: "Novo evento",
+  edit: "Editar evento",
+  clone: "Clonar evento",
+};
+
+const formatEventDate = (date: string) => date.split('-').reverse().join('/');
+
+// What was read from the uploaded file: its parsed content and what the server found in it
+type PendingImport = {
+  fileName: string;
+  raw: unknown;
+  issues: BundleIssue[];
+  event?: EventFormValues;
+  categories?: string[];
+};
+
+export default function EventsPage() {
+  const [events, setEvents] = useState<EventMeta[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [editor, setEditor] = useState<EditorMode | null>(null);
+  const [values, setValues] = useState<EventFormValues>(EMPTY_EVENT);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importMode, setImportMode] = useState<'new' | 'replace'>('new');
+  const [replaceTarget, setReplaceTarget] = useState<string>("");
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession } = useAuth();
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await getEvents());
+    } catch (error) {
+      console.error("Failed to load events", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao carregar",
+        description: "Não foi possível carregar os eventos.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadData();
+  }, [isAuthenticated, loadData]);
+
+  const openEditor = (mode: EditorMode) => {
+    setEditor(mode);
+    if (mode.kind === 'create') {
+      setValues(EMPTY_EVENT);
+    } else {
+      const { name, date, venue, logo } = mode.event;
+      setValues(mode.kind === 'clone' ? { name: `${name} (cópia)`, date: "", venue, logo } : { name, date, venue, logo });
+    }
+  };
+
+  const setField = (field: keyof EventFormValues) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSave = async () => {
+    if (!editor) return;
+    setIsWorking(true);
+    const result =
+      editor.kind === 'create' ? await createEvent(values)
+      : editor.kind === 'edit' ? await updateEvent(editor.event.id, values)
+      : await cloneEvent(editor.event.id, values);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: editor.kind === 'edit' ? "Evento atualizado!" : editor.kind === 'clone' ? "Evento clonado!" : "Evento criado!",
+        description: editor.kind === 'clone'
+          ? `"${result.event?.name}" foi criado com as mesmas quadras e categorias, sem resultados.`
+          : `"${result.event?.name}" foi salvo.`,
+      });
+      setEditor(null);
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao salvar o evento", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const handleArchive = async (event: EventMeta) => {
+    setIsWorking(true);
+    const result = await setEventArchived(event.id, !event.archived);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: event.archived ? "Evento reativado" : "Evento arquivado",
+        description: event.archived
+          ? `"${event.name}" voltou para a lista de eventos.`
+          : `"${event.name}" saiu da lista principal e não aceita mais alterações.`,
+      });
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao arquivar", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const handleExport = async (event: EventMeta) => {
+    setIsWorking(true);
+    const result = await exportEvent(event.id);
+    if (result.unauthorized) expireSession();
+    if (result.success && result.bundle) {
+      const blob = new Blob([JSON.stringify(result.bundle, null, 2)], { type: "application/json;charset=utf-8;" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `evento_${event.id}_${result.bundle.exportedAt.slice(0, 10)}.json`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } else {
+      toast({ variant: "destructive", title: "Erro ao exportar", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (loaded) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(loaded.target?.result as string);
+      } catch {
+        setPendingImport({ fileName: file.name, raw: null, issues: [{ path: "(arquivo)", message: "O arquivo não é um JSON válido." }] });
+        return;
+      }
+      const inspected = await inspectEventBundle(raw);
+      if (inspected.unauthorized) return expireSession();
+      setPendingImport({ fileName: file.name, raw, ...inspected });
+      setImportMode('new');
+      setReplaceTarget("");
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+    setIsWorking(true);
+    const result = await importEventBundle(
+      pendingImport.raw,
+      importMode === 'new' ? { mode: 'new' } : { mode: 'replace', eventId: replaceTarget },
+    );
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: "Evento importado!",
+        description: importMode === 'new'
+          ? `"${result.event?.name}" foi criado a partir do arquivo.`
+          : `Os dados de "${result.event?.name}" foram substituídos. O estado anterior foi salvo como snapshot automático.`,
+      });
+      setPendingImport(null);
+      await loadData();
+    } else if (result.issues) {
+      setPendingImport({ ...pendingImport, issues: result.issues });
+    } else {
+      toast({ variant: "destructive", title: "Erro ao importar", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center">
+            <CalendarDays className="mr-2 h-8 w-8" />
+            Eventos
+          </h1>
+          <p className="text-muted-foreground">
+            Cada evento (etapa) tem suas próprias quadras, categorias, log e snapshots.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Importar evento
+          </Button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,application/json" className="hidden" />
+          <Button onClick={() => openEditor({ kind: 'create' })}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo evento
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Todos os eventos</CardTitle>
+          <CardDescription>Eventos arquivados não aparecem na lista principal e ficam somente leitura.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium">
+                      {event.name}
+                      {event.archived && <Badge variant="secondary" className="ml-2">Arquivado</Badge>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{event.date ? formatEventDate(event.date) : '—'}</TableCell>
+                    <TableCell>{event.venue || '—'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" asChild title="Abrir">
+                        <Link href={eventHref(event.id, '/admin')}><ExternalLink className="h-4 w-4" /></Link>
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Editar" onClick={() => openEditor({ kind: 'edit', event })} disabled={isWorking}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Exportar" onClick={() => handleExport(event)} disabled={isWorking}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Clonar" onClick={() => openEditor({ kind: 'clone', event })} disabled={isWorking}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title={event.archived ? "Reativar" : "Arquivar"} onClick={() => handleArchive(event)} disabled={isWorking}>
+                        {event.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editor} onOpenChange={open => !open && setEditor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editor && EDITOR_TITLES[editor.kind]}</DialogTitle>
+            {editor?.kind === 'clone' && (
+              <DialogDescription>
+                Copia as quadras, os horários e as categorias (com as mesmas duplas) de &quot;{editor.event.name}&quot;. As chaves são geradas de novo, sem resultados nem horários.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="event-name">Nome</Label>
+              <Input id="event-name" value={values.name} onChange={setField('name')} placeholder="Ex: Etapa de Verão 2025" />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="event-date">Data</Label>
+              <Input id="event-date" type="date" value={values.date} onChange={setField('date')} />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="event-venue">Local</Label>
+              <Input id="event-venue" value={values.venue} onChange={setField('venue')} placeholder="Ex: Praia do Peri" />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="event-logo">Logo</Label>
+              <Input id="event-logo" value={values.logo} onChange={setField('logo')} placeholder="/logo.png ou https://..." />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isWorking || !values.name.trim()}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editor?.kind === 'clone' ? "Clonar" : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pendingImport} onOpenChange={open => !open && setPendingImport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Importar &quot;{pendingImport?.fileName}&quot;</DialogTitle>
+            <DialogDescription>
+              {pendingImport?.event
+                ? `${pendingImport.event.name}: ${pendingImport.categories?.length ?? 0} categorias (${pendingImport.categories?.join(', ') || 'nenhuma'}).`
+                : "O arquivo não pode ser importado. Corrija os problemas abaixo e tente de novo."}
+            </DialogDescription>
+          </DialogHeader>
+          {pendingImport && pendingImport.issues.length > 0 ? (
+            <ScrollArea className="max-h-[50vh]">
+              <div className="flex flex-col gap-1 text-xs font-mono pr-4">
+                {pendingImport.issues.map((issue, i) => (
+                  <div key={i} className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-2">
+                    <span className="truncate" title={issue.path}>{issue.path}</span>
+                    <span className="text-destructive">{issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          ) : (
+            <RadioGroup value={importMode} onValueChange={value => setImportMode(value as 'new' | 'replace')} className="flex flex-col gap-3">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="new" id="import-new" />
+                <Label htmlFor="import-new">Criar como um novo evento</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="import-replace" />
+                <Label htmlFor="import-replace">Substituir os dados de um evento existente</Label>
+              </div>
+              {importMode === 'replace' && (
+                <Select value={replaceTarget} onValueChange={setReplaceTarget}>
+                  <SelectTrigger><SelectValue placeholder="Escolha o evento" /></SelectTrigger>
+                  <SelectContent>
+                    {events.filter(e => !e.archived).map(e => <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              )}
+            </RadioGroup>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingImport(null)}>Cancelar</Button>
+            <Button
+              onClick={handleImport}
+              disabled={isWorking || !pendingImport || pendingImport.issues.length > 0 || (importMode === 'replace' && !replaceTarget)}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Importar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
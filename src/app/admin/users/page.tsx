@@ -0,0 +1,359 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, UserCog, PlusCircle, Pencil, KeyRound, UserX, UserCheck } from "lucide-react";
+import type { AdminUserInfo } from "@/lib/users";
+import type { AuditEntry, AuditEventType } from "@/lib/audit";
+import type { EventMeta } from "@/lib/events";
+import { isCategoryKey, type CategoryPermission, type NewAdminUserFormValues } from "@/lib/types";
+import { getAdminUsers, getAuditLog, getEvents, getTournaments, createAdminUser, updateAdminUser, setAdminUserDisabled, resetAdminUserPassword } from "@/app/actions";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { LoginPage } from "@/components/login-page";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type EditorMode = { kind: 'create' } | { kind: 'edit'; user: AdminUserInfo } | { kind: 'password'; user: AdminUserInfo };
+
+const EMPTY_USER: NewAdminUserFormValues = { username: "", name: "", password: "", global: false, categories: [] };
+
+const EDITOR_TITLES: Record<EditorMode['kind'], string> = {
+  create: "Novo usuário",
+  edit: "Editar usuário",
+  password: "Redefinir senha",
+};
+
+// Categories a permission can point to, per event
+type EventCategories = { event: EventMeta; categories: string[] };
+
+const AUDIT_LABELS: Record<AuditEventType, string> = {
+  'setup.completed': "Configuração inicial",
+  'login.locked': "Login bloqueado",
+  'user.created': "Usuário criado",
+  'user.updated': "Permissões alteradas",
+  'user.disabled': "Usuário desativado",
+  'user.enabled': "Usuário reativado",
+  'user.password-reset': "Senha redefinida",
+};
+
+const samePermission = (a: CategoryPermission, b: CategoryPermission) => a.eventId === b.eventId && a.category === b.category;
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUserInfo[]>([]);
+  const [eventCategories, setEventCategories] = useState<EventCategories[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [editor, setEditor] = useState<EditorMode | null>(null);
+  const [values, setValues] = useState<NewAdminUserFormValues>(EMPTY_USER);
+  const { isAuthenticated, isGlobalAdmin, account, isLoading: isAuthLoading, expireSession } = useAuth();
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [result, auditLog, events] = await Promise.all([getAdminUsers(), getAuditLog(), getEvents()]);
+      if (result.unauthorized) {
+        expireSession();
+        return;
+      }
+      setUsers(result.users);
+      setAudit(auditLog.entries);
+      const states = await Promise.all(events.map(event => getTournaments(event.id)));
+      setEventCategories(events.map((event, i) => ({ event, categories: Object.keys(states[i]).filter(isCategoryKey) })));
+    } catch (error) {
+      console.error("Failed to load users", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao carregar",
+        description: "Não foi possível carregar os usuários.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast, expireSession]);
+
+  useEffect(() => {
+    if (isAuthenticated && isGlobalAdmin) loadData();
+  }, [isAuthenticated, isGlobalAdmin, loadData]);
+
+  const openEditor = (mode: EditorMode) => {
+    setEditor(mode);
+    if (mode.kind === 'edit') {
+      const { username, name, global, categories } = mode.user;
+      setValues({ username, name, password: "", global, categories });
+    } else {
+      setValues(mode.kind === 'password' ? { ...EMPTY_USER, username: mode.user.username } : EMPTY_USER);
+    }
+  };
+
+  const setField = (field: 'username' | 'name' | 'password') => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const togglePermission = (permission: CategoryPermission, checked: boolean) =>
+    setValues(prev => ({
+      ...prev,
+      categories: checked
+        ? [...prev.categories, permission]
+        : prev.categories.filter(p => !samePermission(p, permission)),
+    }));
+
+  const handleSave = async () => {
+    if (!editor) return;
+    setIsWorking(true);
+    const { password, ...account } = values;
+    const result =
+      editor.kind === 'create' ? await createAdminUser(values)
+      : editor.kind === 'edit' ? await updateAdminUser(editor.user.id, account)
+      : await resetAdminUserPassword(editor.user.id, password);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: editor.kind === 'create' ? "Usuário criado!" : editor.kind === 'edit' ? "Usuário atualizado!" : "Senha redefinida!",
+        description: editor.kind === 'password'
+          ? `As sessões abertas de "${editor.user.username}" foram encerradas.`
+          : `"${values.username}" foi salvo.`,
+      });
+      setEditor(null);
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao salvar o usuário", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const handleDisable = async (user: AdminUserInfo) => {
+    setIsWorking(true);
+    const result = await setAdminUserDisabled(user.id, !user.disabled);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: user.disabled ? "Usuário reativado" : "Usuário desativado",
+        description: user.disabled
+          ? `"${user.username}" voltou a ter acesso.`
+          : `"${user.username}" não consegue mais entrar, e as sessões abertas foram encerradas.`,
+      });
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao alterar o usuário", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const describePermissions = (user: AdminUserInfo) => {
+    if (user.global) return "Administrador geral";
+    return user.categories
+      .map(p => `${eventCategories.find(e => e.event.id === p.eventId)?.event.name ?? p.eventId}: ${p.category}`)
+      .join(" · ");
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  if (!isGlobalAdmin) {
+    return <p className="text-muted-foreground">Apenas administradores gerais podem gerenciar usuários.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center">
+            <UserCog className="mr-2 h-8 w-8" />
+            Usuários
+          </h1>
+          <p className="text-muted-foreground">
+            Contas de administrador. Cada alteração fica registrada no log com o usuário que a fez.
+          </p>
+        </div>
+        <Button onClick={() => openEditor({ kind: 'create' })}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Novo usuário
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Administradores</CardTitle>
+          <CardDescription>
+            Administradores gerais fazem tudo; os demais só cuidam dos resultados, duplas e jogos das suas categorias.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Usuário</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Permissões</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">
+                      {user.username}
+                      {user.disabled && <Badge variant="secondary" className="ml-2">Desativado</Badge>}
+                      {user.username === account?.username && <Badge variant="outline" className="ml-2">Você</Badge>}
+                    </TableCell>
+                    <TableCell>{user.name}</TableCell>
+                    <TableCell className="text-sm">{describePermissions(user)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" title="Editar" onClick={() => openEditor({ kind: 'edit', user })} disabled={isWorking}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Redefinir senha" onClick={() => openEditor({ kind: 'password', user })} disabled={isWorking}>
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title={user.disabled ? "Reativar" : "Desativar"} onClick={() => handleDisable(user)} disabled={isWorking}>
+                        {user.disabled ? <UserCheck className="h-4 w-4" /> : <UserX className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registro de segurança</CardTitle>
+          <CardDescription>
+            Contas criadas e alteradas e bloqueios de login por excesso de tentativas, dos mais recentes aos mais antigos.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {audit.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nada registrado ainda.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quando</TableHead>
+                  <TableHead>O quê</TableHead>
+                  <TableHead>Quem</TableHead>
+                  <TableHead>Sobre</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {audit.map(entry => (
+                  <TableRow key={entry.seq}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.at).toLocaleString('pt-BR')}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.type === 'login.locked' ? "destructive" : "secondary"}>{AUDIT_LABELS[entry.type] ?? entry.type}</Badge>
+                    </TableCell>
+                    <TableCell>{entry.actor}</TableCell>
+                    <TableCell className="text-sm">
+                      {entry.subject}
+                      {entry.detail && <div className="text-xs text-muted-foreground">{entry.detail}</div>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editor} onOpenChange={open => !open && setEditor(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editor && EDITOR_TITLES[editor.kind]}</DialogTitle>
+            {editor?.kind === 'password' && (
+              <DialogDescription>
+                Nova senha de &quot;{editor.user.username}&quot;. As sessões abertas dessa conta são encerradas.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="flex flex-col gap-4">
+            {editor?.kind !== 'password' && (
+              <>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="user-username">Usuário</Label>
+                  <Input id="user-username" value={values.username} onChange={setField('username')} disabled={editor?.kind === 'edit'} placeholder="Ex: maria.silva" />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <Label htmlFor="user-name">Nome</Label>
+                  <Input id="user-name" value={values.name} onChange={setField('name')} />
+                </div>
+              </>
+            )}
+            {editor?.kind !== 'edit' && (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="user-password">Senha</Label>
+                <Input id="user-password" type="password" autoComplete="new-password" value={values.password} onChange={setField('password')} placeholder="Pelo menos 8 caracteres" />
+              </div>
+            )}
+            {editor?.kind !== 'password' && (
+              <div className="flex flex-col gap-3">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <Checkbox checked={values.global} onCheckedChange={checked => setValues(prev => ({ ...prev, global: checked === true }))} />
+                  Administrador geral
+                </label>
+                {!values.global && eventCategories.map(({ event, categories }) => (
+                  <div key={event.id} className="flex flex-col gap-2 rounded-md border p-3">
+                    <span className="text-sm font-medium">{event.name}</span>
+                    {categories.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">Nenhuma categoria.</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-4">
+                        {categories.map(category => {
+                          const permission = { eventId: event.id, category };
+                          return (
+                            <label key={category} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={values.categories.some(p => samePermission(p, permission))}
+                                onCheckedChange={checked => togglePermission(permission, checked === true)}
+                              />
+                              {category}
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditor(null)}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isWorking}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
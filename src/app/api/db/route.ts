@@ -1,20 +1,53 @@
 // src/app/api/db/route.ts
-export const runtime = 'edge';
+export const runtime = 'nodejs'; // o adaptador de arquivo precisa do fs
 import { NextRequest, NextResponse } from 'next/server';
-import { readDB, writeDB } from '@/lib/kv';
+import { readDB, replaceDB } from '@/lib/db';
+import { recordEvent } from '@/lib/event-log';
+import { migrateState } from '@/lib/migrations';
+import { getDefaultEvent, requireEvent, type ScopedEvent } from '@/lib/events';
+import { UNAUTHORIZED_ERROR } from '@/lib/session';
+import { isAdminRequest } from '@/lib/users';
+import { errorMessage } from '@/lib/utils';
 
-export async function GET() {
-  const db = await readDB();
+// ?event=<id> escolhe o evento; sem ele, o evento ativo mais recente
+async function eventFrom(req: NextRequest): Promise<ScopedEvent> {
+  return requireEvent(req.nextUrl.searchParams.get('event') || (await getDefaultEvent()).id);
+}
+
+export async function GET(req: NextRequest) {
+  if (!(await isAdminRequest(req))) return NextResponse.json({ error: UNAUTHORIZED_ERROR }, { status: 401 });
+  let event;
+  try {
+    event = await eventFrom(req);
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, String(e)) }, { status: 404 });
+  }
+  const db = await readDB(event.keys);
   return NextResponse.json(db ?? {}, { status: 200 });
 }
 
 export async function POST(req: NextRequest) {
-  // Proteção: header com token ou senha de admin via env
-  const token = req.headers.get('x-admin-token');
-  const ok = token && process.env.ADMIN_PASSWORD && token === process.env.ADMIN_PASSWORD;
-  if (!ok) return NextResponse.json({ error: 'forbidden' }, { status: 403 });
+  if (!(await isAdminRequest(req))) return NextResponse.json({ error: UNAUTHORIZED_ERROR }, { status: 401 });
+
+  let event;
+  try {
+    event = await eventFrom(req);
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, String(e)) }, { status: 404 });
+  }
+  if (event.archived) return NextResponse.json({ error: 'evento arquivado' }, { status: 409 });
 
-  const body = await req.json();
-  await writeDB(body);
+  // Aceita exportações de qualquer versão: migra e valida antes de gravar
+  let body;
+  try {
+    body = migrateState(await req.json());
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e, String(e)) }, { status: 400 });
+  }
+  const { before, after } = await replaceDB(event.keys, body);
+  // Sem estado anterior não há o que comparar: o próximo evento registra o importado como baseline
+  if (before) {
+    await recordEvent(event.keys, 'db.replaced', before, after, 'api').catch(e => console.error('Falha ao registrar evento:', e));
+  }
   return NextResponse.json({ ok: true }, { status: 200 });
 }
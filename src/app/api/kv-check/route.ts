@@ -1,12 +1,19 @@
-export const runtime = 'edge';
-import { NextResponse } from 'next/server';
-import { readDB } from '@/lib/kv';
+export const runtime = 'nodejs'; // o adaptador de arquivo precisa do fs
+import { NextRequest, NextResponse } from 'next/server';
+import { readDB } from '@/lib/db';
+import { getStorage } from '@/lib/storage';
+import { getDefaultEvent, listEvents, requireEvent } from '@/lib/events';
+import { UNAUTHORIZED_ERROR } from '@/lib/session';
+import { isAdminRequest } from '@/lib/users';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  if (!(await isAdminRequest(req))) return NextResponse.json({ ok: false, error: UNAUTHORIZED_ERROR }, { status: 401 });
   try {
-    const data = await readDB();
-    return NextResponse.json({ ok: true, hasData: !!data, data }, { status: 200 });
-  } catch (e: any) {
+    const event = await requireEvent(req.nextUrl.searchParams.get('event') || (await getDefaultEvent()).id);
+    const data = await readDB(event.keys);
+    const events = (await listEvents()).map(e => e.id);
+    return NextResponse.json({ ok: true, driver: getStorage().driver, event: event.id, events, hasData: !!data, data }, { status: 200 });
+  } catch (e) {
     return NextResponse.json({ ok: false, error: String(e) }, { status: 500 });
   }
 }
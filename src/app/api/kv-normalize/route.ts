@@ -1,12 +1,22 @@
-export const runtime = 'edge';
-import { NextResponse } from 'next/server';
-import { readDB, writeDB } from '@/lib/kv';
+export const runtime = 'nodejs'; // o adaptador de arquivo precisa do fs
+import { NextRequest, NextResponse } from 'next/server';
+import { readDB, writeDB } from '@/lib/db';
+import { listEvents, requireEvent } from '@/lib/events';
+import { UNAUTHORIZED_ERROR } from '@/lib/session';
+import { isAdminRequest } from '@/lib/users';
 
-export async function POST() {
-  const raw = await readDB<any>();
-  if (raw == null) return NextResponse.json({ ok: true, note: 'empty' });
-
-  // Se readDB já parseia, aqui basta regravar (ficará objeto no KV)
-  await writeDB(raw);
-  return NextResponse.json({ ok: true, normalized: true });
+export async function POST(req: NextRequest) {
+  if (!(await isAdminRequest(req))) return NextResponse.json({ ok: false, error: UNAUTHORIZED_ERROR }, { status: 401 });
+  // readDB já migra o formato antigo e parseia; regravar normaliza cada chave como objeto.
+  // Eventos arquivados não aceitam alterações e ficam como estão.
+  const normalized: string[] = [];
+  for (const { id, archived } of await listEvents()) {
+    if (archived) continue;
+    const event = await requireEvent(id);
+    const raw = await readDB(event.keys);
+    if (raw == null) continue;
+    await writeDB(event.keys, raw);
+    normalized.push(id);
+  }
+  return NextResponse.json({ ok: true, normalized });
 }
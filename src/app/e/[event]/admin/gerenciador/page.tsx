@@ -8,9 +8,11 @@ import { useAuth } from '@/context/AuthContext';
 import { Loader2 } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { eventHref, useEventId } from '@/hooks/use-event';
 
 export default function TournamentManagerPage() {
   const { isAuthenticated, isLoading } = useAuth();
+  const eventId = useEventId();
 
   if (isLoading) {
     return (
@@ -31,7 +33,7 @@ export default function TournamentManagerPage() {
         <p className="text-muted-foreground">
           Gerencie os jogos, resultados e horários das categorias existentes. Para criar uma nova, vá para o {' '}
           <Button variant="link" asChild className="p-0 h-auto">
-             <Link href="/admin">Painel de Criação</Link>
+             <Link href={eventHref(eventId, "/admin")}>Painel de Criação</Link>
           </Button>.
         </p>
       </div>
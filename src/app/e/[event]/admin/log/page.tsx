@@ -0,0 +1,288 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Loader2, History, RotateCcw, CheckCircle2, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import type { TournamentEvent, TournamentEventType } from "@/lib/event-log";
+import { getEventLog, rebuildFromEventLog } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { LoginPage } from "@/components/login-page";
+import { StateChangeList } from "@/components/state-change-list";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const EVENT_TYPE_LABELS: Record<TournamentEventType, string> = {
+  'baseline': "Início do log",
+  'settings.updated': "Configurações",
+  'category.saved': "Resultados",
+  'category.generated': "Categoria gerada",
+  'category.renamed': "Categoria renomeada",
+  'category.deleted': "Categoria excluída",
+  'team.updated': "Dupla alterada",
+  'match.scheduled': "Horário/quadra",
+  'match.scored': "Placar (mesário)",
+  'schedule.generated': "Agendamento gerado",
+  'schedule.imported': "Agendamento importado",
+  'schedule.cleared': "Agendamento limpo",
+  'db.replaced': "Banco substituído",
+  'log.replayed': "Reconstrução pelo log",
+  'snapshot.restored': "Snapshot restaurado",
+  'event.cloned': "Evento clonado",
+  'event.imported': "Evento importado",
+};
+
+const ALL = "__all__";
+
+export default function EventLogPage() {
+  const [events, setEvents] = useState<TournamentEvent[]>([]);
+  const [replayMatchesState, setReplayMatchesState] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [categoryFilter, setCategoryFilter] = useState<string>(ALL);
+  const [matchFilter, setMatchFilter] = useState("");
+  const [actorFilter, setActorFilter] = useState("");
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession } = useAuth();
+  const { toast } = useToast();
+  const eventId = useEventId();
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const log = await getEventLog(eventId);
+      if (log.unauthorized) expireSession();
+      setEvents(log.events);
+      setReplayMatchesState(log.replayMatchesState);
+    } catch (error) {
+      console.error("Failed to load event log", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao carregar o log",
+        description: "Não foi possível carregar o histórico de alterações.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, toast, expireSession]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadData();
+  }, [isAuthenticated, loadData]);
+
+  const categories = useMemo(() => [...new Set(events.flatMap(e => e.categories))].sort(), [events]);
+
+  const filteredEvents = useMemo(() => {
+    const match = matchFilter.trim().toLowerCase();
+    const actor = actorFilter.trim().toLowerCase();
+    return events
+      .filter(e => typeFilter === ALL || e.type === typeFilter)
+      .filter(e => categoryFilter === ALL || e.categories.includes(categoryFilter))
+      .filter(e => !match || e.matchIds.some(id => id.toLowerCase().includes(match)))
+      .filter(e => !actor || e.actor.toLowerCase().includes(actor))
+      .sort((a, b) => b.seq - a.seq);
+  }, [events, typeFilter, categoryFilter, matchFilter, actorFilter]);
+
+  const toggleExpanded = (seq: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(seq)) next.delete(seq); else next.add(seq);
+      return next;
+    });
+  };
+
+  const handleRebuild = async (uptoSeq?: number) => {
+    setIsRebuilding(true);
+    const result = await rebuildFromEventLog(eventId, uptoSeq);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: "Estado reconstruído!",
+        description: uptoSeq === undefined ? "O estado foi reconstruído a partir de todo o log." : `O estado voltou a ser o de logo após o evento #${uptoSeq}.`,
+      });
+      await loadData();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Erro ao reconstruir",
+        description: result.error,
+      });
+    }
+    setIsRebuilding(false);
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex justify-between items-start flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center">
+            <History className="mr-2 h-8 w-8" />
+            Log de Alterações
+          </h1>
+          <p className="text-muted-foreground">
+            Tudo o que foi alterado no campeonato: quem, quando e o valor antes e depois.
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={isRebuilding || events.length === 0}>
+              {isRebuilding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Reconstruir pelo log
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reconstruir o estado a partir do log?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Todos os eventos serão reaplicados desde o início do log e o resultado substituirá os dados atuais.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleRebuild()}>Reconstruir</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Eventos</CardTitle>
+          <CardDescription className="flex items-center gap-2">
+            {replayMatchesState ? (
+              <><CheckCircle2 className="h-4 w-4 text-green-600" /> Reaplicar o log reproduz exatamente os dados atuais.</>
+            ) : (
+              <><AlertTriangle className="h-4 w-4 text-destructive" /> Reaplicar o log não reproduz os dados atuais (alterações feitas fora do aplicativo?).</>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger><SelectValue placeholder="Tipo" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os tipos</SelectItem>
+                {Object.entries(EVENT_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger><SelectValue placeholder="Categoria" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as categorias</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input placeholder="ID do jogo" value={matchFilter} onChange={e => setMatchFilter(e.target.value)} />
+            <Input placeholder="Autor" value={actorFilter} onChange={e => setActorFilter(e.target.value)} />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : filteredEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center p-8">Nenhum evento encontrado.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>#</TableHead>
+                  <TableHead>Quando</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Autor</TableHead>
+                  <TableHead>Categorias</TableHead>
+                  <TableHead>Jogos</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEvents.map(event => (
+                  <React.Fragment key={event.seq}>
+                    <TableRow>
+                      <TableCell>
+                        {event.changes.length > 0 && (
+                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => toggleExpanded(event.seq)}>
+                            {expanded.has(event.seq) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{event.seq}</TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(event.at).toLocaleString('pt-BR')}</TableCell>
+                      <TableCell><Badge variant="secondary">{EVENT_TYPE_LABELS[event.type] ?? event.type}</Badge></TableCell>
+                      <TableCell>{event.actor}</TableCell>
+                      <TableCell>{event.categories.join(', ') || '—'}</TableCell>
+                      <TableCell className="max-w-[16rem] truncate" title={event.matchIds.join(', ')}>
+                        {event.matchIds.length > 3 ? `${event.matchIds.length} jogos` : event.matchIds.join(', ') || '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" disabled={isRebuilding}>
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Voltar até aqui
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Voltar ao estado do evento #{event.seq}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Os dados voltarão a ser exatamente os de logo após este evento. As alterações posteriores continuam no log e podem ser recuperadas da mesma forma.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleRebuild(event.seq)}>Voltar</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                    {expanded.has(event.seq) && (
+                      <TableRow>
+                        <TableCell colSpan={8} className="bg-muted/50">
+                          <StateChangeList changes={event.changes} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,8 +5,11 @@ import * as React from "react";
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Loader2, Swords, AlertCircle, CalendarClock, GripVertical, Sparkles, PlusCircle, FileText, Download, Upload, Trash2, FileWarning } from "lucide-react";
-import type { PlayoffBracket, PlayoffBracketSet, CategoryData, TournamentsState, Court, MatchWithScore, PlayoffMatch, Team, GlobalSettings } from "@/lib/types";
+import { isCategoryKey, type PlayoffBracket, type PlayoffBracketSet, type CategoryData, type TournamentsState, type Court, type MatchWithScore, type PlayoffMatch, type Team, type GlobalSettings, type Registry } from "@/lib/types";
+import { sidePlayerIds } from "@/lib/registry";
 import { getTournaments, updateMultipleMatches, generateScheduleAction, clearAllSchedules, importScheduleFromCSV } from "@/app/actions";
+import { eventHref, useEventId } from "@/hooks/use-event";
+import { playoffBrackets } from "@/lib/brackets";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { format, parse, addMinutes, isWithinInterval, startOfDay, isBefore } from 'date-fns';
@@ -65,15 +68,13 @@ const teamName = (team: Team | undefined, placeholder: string | undefined): stri
     return placeholder || "A Definir";
 };
 
-const getPlayersFromMatch = (match: SchedulableMatch): string[] => {
-    const players = new Set<string>();
-    [match.team1Name, match.team2Name].forEach(team => {
-        if (!team) return;
-        if (team.includes(' e ')) {
-            team.split(' e ').forEach(p => players.add(p.trim()));
-        }
-    });
-    return Array.from(players);
+// Player ids (not names), so a misspelled copy of a name can't hide a conflict
+const getPlayersFromMatch = (match: SchedulableMatch, registry?: Registry): string[] => {
+    const players = [
+        ...sidePlayerIds(registry, match.team1, match.team1Placeholder),
+        ...sidePlayerIds(registry, match.team2, match.team2Placeholder),
+    ];
+    return Array.from(new Set(players));
 };
 
 // Extracts dependencies from a placeholder string
@@ -106,16 +107,17 @@ export default function ScheduleGridPage() {
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession } = useAuth();
   const { toast } = useToast();
   const [globalSettings, setGlobalSettings] = useState<GlobalSettings | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const router = useRouter();
+  const eventId = useEventId();
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       const { _globalSettings } = savedTournaments;
       
       setGlobalSettings(_globalSettings);
@@ -126,7 +128,7 @@ export default function ScheduleGridPage() {
       const groupMatchMap = new Map<string, string[]>(); // Map group name to match IDs
 
        for (const categoryName in savedTournaments) {
-          if (categoryName === '_globalSettings') continue;
+          if (!isCategoryKey(categoryName)) continue;
           const categoryData = savedTournaments[categoryName] as CategoryData;
 
           const addMatches = (matches: (MatchWithScore | PlayoffMatch)[], stageOverride?: string, isGroup: boolean = false) => {
@@ -147,13 +149,13 @@ export default function ScheduleGridPage() {
                     ...match,
                     id: match.id,
                     category: categoryName,
-                    stage: stageOverride || ('name' in match ? match.name : categoryName),
+                    stage: stageOverride || ('name' in match && match.name) || categoryName,
                     team1Name: t1Name,
                     team2Name: t2Name,
                     players: [] as string[],
                     isGroupMatch: isGroup,
                   };
-                  schedulableMatch.players = getPlayersFromMatch(schedulableMatch as SchedulableMatch);
+                  schedulableMatch.players = getPlayersFromMatch(schedulableMatch as SchedulableMatch, savedTournaments._registry);
                   loadedMatches.push(schedulableMatch);
               });
           };
@@ -169,14 +171,7 @@ export default function ScheduleGridPage() {
                     });
                 };
                 
-                const playoffs = categoryData.playoffs as PlayoffBracketSet;
-                if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                    processBracket(playoffs.upper);
-                    processBracket(playoffs.lower);
-                    processBracket(playoffs.playoffs);
-                } else {
-                    processBracket(playoffs as PlayoffBracket);
-                }
+                playoffBrackets(categoryData).forEach(processBracket);
             }
       }
 
@@ -211,7 +206,7 @@ export default function ScheduleGridPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [eventId, toast]);
   
   useEffect(() => {
     if (isAuthenticated) {
@@ -261,12 +256,13 @@ export default function ScheduleGridPage() {
       if (!matchToMove) return;
       
       setIsSaving(true);
-      const result = await updateMultipleMatches([{
+      const result = await updateMultipleMatches(eventId, [{
           matchId: matchToMove.id,
           categoryName: matchToMove.category,
           time: newTime,
           court: newCourt
       }]);
+      if (result.unauthorized) expireSession();
 
       if (result.success) {
           toast({ title: "Jogo movido com sucesso!" });
@@ -282,12 +278,13 @@ export default function ScheduleGridPage() {
       if (!matchToUnschedule) return;
 
       setIsSaving(true);
-      const result = await updateMultipleMatches([{
+      const result = await updateMultipleMatches(eventId, [{
           matchId: matchToUnschedule.id,
           categoryName: matchToUnschedule.category,
           time: '',
           court: ''
       }]);
+      if (result.unauthorized) expireSession();
        if (result.success) {
           toast({ title: "Jogo removido do agendamento!" });
           await loadData();
@@ -305,7 +302,7 @@ export default function ScheduleGridPage() {
         } else {
             sessionStorage.removeItem('partialSchedule');
         }
-        router.push('/admin/schedule-log');
+        router.push(eventHref(eventId, '/admin/schedule-log'));
       } catch (error) {
           toast({
             variant: "destructive",
@@ -317,7 +314,8 @@ export default function ScheduleGridPage() {
 
   const handleGenerateSchedule = async () => {
     setIsSaving(true);
-    const result = await generateScheduleAction();
+    const result = await generateScheduleAction(eventId);
+    if (result.unauthorized) expireSession();
     if (result.success) {
         toast({ title: "Horários gerados com sucesso!", description: "A grade foi atualizada."});
         await loadData();
@@ -339,7 +337,8 @@ export default function ScheduleGridPage() {
 
   const handleClearSchedule = async () => {
     setIsSaving(true);
-    const result = await clearAllSchedules();
+    const result = await clearAllSchedules(eventId);
+    if (result.unauthorized) expireSession();
     if (result.success) {
         toast({ title: "Agendamento limpo!", description: "Todos os horários e quadras foram removidos."});
         await loadData();
@@ -357,7 +356,8 @@ export default function ScheduleGridPage() {
     const reader = new FileReader();
     reader.onload = async (e) => {
         const csvData = e.target?.result as string;
-        const result = await importScheduleFromCSV(csvData);
+        const result = await importScheduleFromCSV(eventId, csvData);
+        if (result.unauthorized) expireSession();
         if (result.success) {
             toast({ title: "Horários importados com sucesso!" });
             await loadData();
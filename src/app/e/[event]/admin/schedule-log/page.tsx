@@ -9,12 +9,14 @@ import { Button } from "@/components/ui/button";
 import { AlertTriangle, FileText, ArrowLeft, Info, Clock, BarChartHorizontal } from 'lucide-react';
 import type { SchedulingLog } from '@/lib/scheduler';
 import { Badge } from '@/components/ui/badge';
+import { eventHref, useEventId } from '@/hooks/use-event';
 
 export default function ScheduleLogPage() {
     const [logs, setLogs] = React.useState<SchedulingLog[]>([]);
     const [hasPartialSchedule, setHasPartialSchedule] = React.useState(false);
     const [isLoading, setIsLoading] = React.useState(true);
     const router = useRouter();
+    const eventId = useEventId();
 
     React.useEffect(() => {
         try {
@@ -46,7 +48,7 @@ export default function ScheduleLogPage() {
     }, [logs]);
 
     const handleViewSnapshot = () => {
-        router.push('/admin/schedule-snapshot');
+        router.push(eventHref(eventId, '/admin/schedule-snapshot'));
     };
 
     if (isLoading) {
@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import { Loader2, Swords, AlertCircle, CalendarClock, GripVertical, PlusCircle, ArrowLeft, AlertTriangle } from "lucide-react";
 import type { PlayoffBracket, PlayoffBracketSet, CategoryData, TournamentsState, Court, MatchWithScore, PlayoffMatch, Team, GlobalSettings } from "@/lib/types";
 import { getTournaments } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
 import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { format, parse, addMinutes, isWithinInterval, startOfDay, isBefore } from 'date-fns';
@@ -68,11 +69,12 @@ export default function ScheduleSnapshotPage() {
   const { toast } = useToast();
   const [globalSettings, setGlobalSettings] = useState<GlobalSettings | null>(null);
   const router = useRouter();
+  const eventId = useEventId();
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       const { _globalSettings } = savedTournaments;
       setGlobalSettings(_globalSettings);
       const loadedCourts = _globalSettings.courts || [];
@@ -94,7 +96,7 @@ export default function ScheduleSnapshotPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [eventId, toast]);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -6,6 +6,7 @@ import { LoginPage } from "@/components/login-page";
 import { useAuth } from '@/context/AuthContext';
 import { Loader2 } from 'lucide-react';
 import { GlobalSettings } from '@/components/global-settings';
+import { ScorekeeperManager } from '@/components/scorekeeper-manager';
 
 export default function SettingsPage() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -31,6 +32,7 @@ export default function SettingsPage() {
         </p>
       </div>
       <GlobalSettings />
+      <ScorekeeperManager />
     </div>
   );
 }
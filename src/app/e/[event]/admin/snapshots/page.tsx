@@ -0,0 +1,309 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Loader2, Camera, RotateCcw, Trash2, PlusCircle } from "lucide-react";
+import type { SnapshotMeta } from "@/lib/snapshots";
+import type { StateChange } from "@/lib/event-log";
+import { getSnapshots, takeSnapshot, deleteSnapshot, previewSnapshotRestore, restoreSnapshot } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { LoginPage } from "@/components/login-page";
+import { StateChangeList } from "@/components/state-change-list";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+type CategoryDiff = {
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: StateChange[];
+  matchIds: string[];
+};
+
+const STATUS_LABELS: Record<CategoryDiff['status'], string> = {
+  added: "Será recriada",
+  removed: "Será removida",
+  changed: "Será alterada",
+};
+
+// Agrupa as diferenças por categoria (ou configurações globais e cadastro) para a pré-visualização
+const groupChanges = (changes: StateChange[]): CategoryDiff[] => {
+  const groups = new Map<string, StateChange[]>();
+  changes.forEach(change => {
+    const name = String(change.path[0]);
+    groups.set(name, [...(groups.get(name) || []), change]);
+  });
+  return Array.from(groups.entries()).map(([name, categoryChanges]) => {
+    const whole = categoryChanges.length === 1 && categoryChanges[0].path.length === 1 ? categoryChanges[0] : null;
+    return {
+      name: name === '_globalSettings' ? "Configurações Globais" : name === '_registry' ? "Cadastro de Jogadores e Duplas" : name,
+      status: whole && !('before' in whole) ? 'added' : whole && !('after' in whole) ? 'removed' : 'changed',
+      changes: categoryChanges,
+      matchIds: [...new Set(categoryChanges.map(c => c.matchId).filter((id): id is string => !!id))],
+    };
+  });
+};
+
+export default function SnapshotsPage() {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [newSnapshotName, setNewSnapshotName] = useState("");
+  const [restoreTarget, setRestoreTarget] = useState<SnapshotMeta | null>(null);
+  const [preview, setPreview] = useState<StateChange[] | null>(null);
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession } = useAuth();
+  const { toast } = useToast();
+  const eventId = useEventId();
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getSnapshots(eventId);
+      if (result.unauthorized) expireSession();
+      setSnapshots(result.snapshots);
+    } catch (error) {
+      console.error("Failed to load snapshots", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao carregar",
+        description: "Não foi possível carregar os snapshots.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId, toast, expireSession]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadData();
+  }, [isAuthenticated, loadData]);
+
+  const previewGroups = useMemo(() => (preview ? groupChanges(preview) : []), [preview]);
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    const result = await takeSnapshot(eventId, newSnapshotName);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({ title: "Snapshot criado!", description: `"${result.snapshot?.name}" foi salvo.` });
+      setNewSnapshotName("");
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao criar snapshot", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const handleDelete = async (snapshot: SnapshotMeta) => {
+    setIsWorking(true);
+    const result = await deleteSnapshot(eventId, snapshot.id);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({ title: "Snapshot excluído", description: `"${snapshot.name}" foi excluído.` });
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao excluir", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  const openRestore = async (snapshot: SnapshotMeta) => {
+    setRestoreTarget(snapshot);
+    setPreview(null);
+    const result = await previewSnapshotRestore(eventId, snapshot.id);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      setPreview(result.changes || []);
+    } else {
+      setRestoreTarget(null);
+      toast({ variant: "destructive", title: "Erro ao comparar", description: result.error });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    setIsWorking(true);
+    const result = await restoreSnapshot(eventId, restoreTarget.id);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({
+        title: "Snapshot restaurado!",
+        description: `Os dados voltaram a ser os de "${restoreTarget.name}". O estado anterior foi salvo como snapshot automático.`,
+      });
+      setRestoreTarget(null);
+      await loadData();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao restaurar", description: result.error });
+    }
+    setIsWorking(false);
+  };
+
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginPage />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center">
+          <Camera className="mr-2 h-8 w-8" />
+          Snapshots
+        </h1>
+        <p className="text-muted-foreground">
+          Cópias completas do campeonato. Um snapshot automático é tirado antes de cada ação destrutiva (regenerar, excluir, limpar ou gerar horários).
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo snapshot</CardTitle>
+          <CardDescription>Salve o estado atual com um nome para poder voltar a ele depois.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Input
+            placeholder="Ex: Fim da fase de grupos"
+            value={newSnapshotName}
+            onChange={e => setNewSnapshotName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && newSnapshotName.trim() && handleCreate()}
+          />
+          <Button onClick={handleCreate} disabled={isWorking || !newSnapshotName.trim()}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />}
+            Criar
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Snapshots salvos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center p-8">Nenhum snapshot salvo.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Quando</TableHead>
+                  <TableHead>Autor</TableHead>
+                  <TableHead>Categorias</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map(snapshot => (
+                  <TableRow key={snapshot.id}>
+                    <TableCell className="font-medium">
+                      {snapshot.name}
+                      {snapshot.automatic && <Badge variant="secondary" className="ml-2">Automático</Badge>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(snapshot.createdAt).toLocaleString('pt-BR')}</TableCell>
+                    <TableCell>{snapshot.actor}</TableCell>
+                    <TableCell>{snapshot.categories.join(', ') || '—'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => openRestore(snapshot)} disabled={isWorking}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restaurar
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" disabled={isWorking}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir o snapshot &quot;{snapshot.name}&quot;?</AlertDialogTitle>
+                            <AlertDialogDescription>Esta ação não pode ser desfeita.</AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(snapshot)}>Excluir</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!restoreTarget} onOpenChange={open => !open && setRestoreTarget(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Restaurar &quot;{restoreTarget?.name}&quot;?</DialogTitle>
+            <DialogDescription>
+              Estas são as diferenças entre os dados atuais e o snapshot. O estado atual será salvo como snapshot automático antes de restaurar.
+            </DialogDescription>
+          </DialogHeader>
+          {!preview ? (
+            <div className="flex justify-center p-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : previewGroups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center p-8">Nenhuma diferença: os dados atuais já são iguais ao snapshot.</p>
+          ) : (
+            <ScrollArea className="max-h-[60vh]">
+              <div className="flex flex-col gap-4 pr-4">
+                {previewGroups.map(group => (
+                  <div key={group.name} className="flex flex-col gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold">{group.name}</span>
+                      <Badge variant={group.status === 'changed' ? 'secondary' : 'destructive'}>{STATUS_LABELS[group.status]}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {group.changes.length} alterações{group.matchIds.length > 0 && ` em ${group.matchIds.length} jogos`}
+                      </span>
+                    </div>
+                    {group.status === 'changed' && <StateChangeList changes={group.changes} />}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestoreTarget(null)}>Cancelar</Button>
+            <Button onClick={handleRestore} disabled={isWorking || !preview}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restaurar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -12,9 +12,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogC
 import { Label } from "@/components/ui/label";
 import { Loader2, Users, Pencil, Search } from "lucide-react";
 import { getTournaments, updateTeamInTournament } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
 import { useAuth } from "@/context/AuthContext";
 import { LoginPage } from "@/components/login-page";
-import type { Team, TournamentsState, CategoryData } from "@/lib/types";
+import { isCategoryKey, type Team, type TournamentsState, type CategoryData } from "@/lib/types";
+import { embedTeam } from "@/lib/registry";
 import { useToast } from "@/hooks/use-toast";
 
 type TeamWithCategory = {
@@ -29,19 +31,28 @@ export default function TeamsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [editingTeam, setEditingTeam] = useState<{ original: TeamWithCategory, updated: Team} | null>(null);
-  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession, canManageCategory } = useAuth();
   const { toast } = useToast();
+  const eventId = useEventId();
 
   const loadTeams = useCallback(async () => {
     try {
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       if (savedTournaments) {
         const teamsList: TeamWithCategory[] = [];
         for (const categoryName in savedTournaments) {
-          if (categoryName === '_globalSettings') continue;
+          if (!isCategoryKey(categoryName) || !canManageCategory(eventId, categoryName)) continue;
 
           const categoryData = savedTournaments[categoryName] as CategoryData;
-          if (categoryData.formValues?.teams) {
+          // Rei da Praia lists players, not teams
+          if (categoryData.formValues?.tournamentType === 'kingOfTheBeach') continue;
+          const registeredTeams = (categoryData.teamIds ?? [])
+            .map(id => embedTeam(savedTournaments._registry, id))
+            .filter((team): team is Team => !!team);
+          if (registeredTeams.length > 0) {
+            registeredTeams.forEach(team => teamsList.push({ team, category: categoryName }));
+          } else if (categoryData.formValues?.teams) {
+            // Not linked to the registry yet; the server finds the team by its names
             const teamsFromForm = categoryData.formValues.teams
               .split("\n")
               .map((t: string) => t.trim())
@@ -71,7 +82,7 @@ export default function TeamsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [eventId, toast, canManageCategory]);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -115,12 +126,13 @@ export default function TeamsPage() {
     setIsEditing(true);
     const { original, updated } = editingTeam;
 
-    const result = await updateTeamInTournament(original.category, original.team, updated);
+    const result = await updateTeamInTournament(eventId, original.category, original.team, updated);
+    if (result.unauthorized) expireSession();
 
     if (result.success) {
       toast({
         title: "Dupla Atualizada!",
-        description: "Os nomes dos jogadores foram atualizados com sucesso.",
+        description: "Os nomes dos jogadores foram atualizados em todas as categorias.",
       });
       await loadTeams(); // Reload all teams to reflect the change
       setEditingTeam(null);
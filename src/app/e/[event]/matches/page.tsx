@@ -11,8 +11,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Loader2, Swords, Search, Download, FileText } from "lucide-react";
-import type { ConsolidatedMatch, PlayoffBracket, PlayoffBracketSet, CategoryData } from "@/lib/types";
+import { isCategoryKey, type ConsolidatedMatch, type PlayoffBracket, type PlayoffBracketSet, type CategoryData } from "@/lib/types";
 import { getTournaments } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { playoffBrackets } from "@/lib/brackets";
 import { cn } from "@/lib/utils";
 
 export default function MatchesPage() {
@@ -20,6 +22,7 @@ export default function MatchesPage() {
   const [filteredMatches, setFilteredMatches] = useState<ConsolidatedMatch[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const eventId = useEventId();
 
   const teamToKey = (team: any) => {
     if (!team) return '';
@@ -29,7 +32,7 @@ export default function MatchesPage() {
   useEffect(() => {
     const loadMatches = async () => {
       try {
-        const savedTournaments = await getTournaments();
+        const savedTournaments = await getTournaments(eventId);
         if (savedTournaments) {
           const allMatchesData: ConsolidatedMatch[] = [];
 
@@ -42,8 +45,8 @@ export default function MatchesPage() {
                     id: match.id,
                     category: categoryName,
                     stage: match.name,
-                    team1: match.team1 ? teamToKey(match.team1) : match.team1Placeholder,
-                    team2: match.team2 ? teamToKey(match.team2) : match.team2Placeholder,
+                    team1: match.team1 ? teamToKey(match.team1) : match.team1Placeholder ?? '',
+                    team2: match.team2 ? teamToKey(match.team2) : match.team2Placeholder ?? '',
                     score1: match.score1,
                     score2: match.score2,
                     time: match.time,
@@ -55,7 +58,7 @@ export default function MatchesPage() {
           };
 
           for (const categoryName in savedTournaments) {
-            if (categoryName === '_globalSettings') continue;
+            if (!isCategoryKey(categoryName)) continue;
             
             const categoryData = savedTournaments[categoryName] as CategoryData;
 
@@ -79,16 +82,7 @@ export default function MatchesPage() {
             }
 
             // Playoff Matches
-            if (categoryData.playoffs) {
-              const playoffs = categoryData.playoffs as PlayoffBracketSet;
-              if (categoryData.formValues.tournamentType === 'doubleElimination' && ('upper' in playoffs || 'lower' in playoffs || 'playoffs' in playoffs)) {
-                  if (playoffs.upper) processBracket(playoffs.upper, categoryName);
-                  if (playoffs.lower) processBracket(playoffs.lower, categoryName);
-                  if (playoffs.playoffs) processBracket(playoffs.playoffs, categoryName);
-              } else {
-                  processBracket(playoffs as PlayoffBracket, categoryName);
-              }
-            }
+            playoffBrackets(categoryData).forEach(bracket => processBracket(bracket, categoryName));
           }
 
           // Sort matches by time
@@ -113,7 +107,7 @@ export default function MatchesPage() {
     const intervalId = setInterval(loadMatches, 5000);
     return () => clearInterval(intervalId);
 
-  }, []);
+  }, [eventId]);
 
   useEffect(() => {
     const results = allMatches.filter(match => {
@@ -0,0 +1,103 @@
+
+"use client";
+
+import * as React from "react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trophy, ArrowRight, CalendarDays, MapPin } from "lucide-react";
+import { getEventInfo, getTournaments } from "@/app/actions";
+import { eventHref, useEventId } from "@/hooks/use-event";
+import type { EventMeta } from "@/lib/events";
+import { isCategoryKey, type TournamentsState } from "@/lib/types";
+import { Badge } from "@/components/ui/badge";
+import Image from "next/image";
+
+// "2025-03-15" -> "15/03/2025", without going through Date (and the time zone)
+const formatEventDate = (date: string) => date.split('-').reverse().join('/');
+
+export default function EventHome() {
+  const [tournaments, setTournaments] = useState<Partial<TournamentsState>>({});
+  const [event, setEvent] = useState<EventMeta | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const eventId = useEventId();
+
+  useEffect(() => {
+    const fetchTournaments = async () => {
+      try {
+        const [info, data] = await Promise.all([getEventInfo(eventId), getTournaments(eventId)]);
+        setEvent(info);
+        setTournaments(data);
+      } catch (error) {
+        console.error("Failed to load tournaments", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchTournaments();
+  }, [eventId]);
+
+  const categories = Object.keys(tournaments).filter(isCategoryKey);
+
+  return (
+    <div className="flex flex-col gap-8 items-center text-center">
+      <div className="flex flex-col gap-4 items-center">
+         <div className="flex items-center justify-center gap-3">
+            <h2 className="text-4xl font-bold tracking-tight">{event?.name}</h2>
+            {event?.archived && <Badge variant="secondary">Arquivado</Badge>}
+         </div>
+         {(event?.date || event?.venue) && (
+           <div className="flex items-center justify-center gap-4 text-muted-foreground">
+             {event.date && <span className="flex items-center"><CalendarDays className="mr-1 h-4 w-4" />{formatEventDate(event.date)}</span>}
+             {event.venue && <span className="flex items-center"><MapPin className="mr-1 h-4 w-4" />{event.venue}</span>}
+           </div>
+         )}
+         {event?.logo && (
+           <Image
+              src={event.logo}
+              alt="Logo do Torneio"
+              width={130}
+              height={130}
+              priority
+              unoptimized={/^https?:/.test(event.logo)}
+            />
+         )}
+      </div>
+
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-center">
+            <Trophy className="mr-2 h-6 w-6 text-primary" />
+            Categorias em Andamento
+          </CardTitle>
+          <CardDescription>
+          Acompanhe os jogos e classificações em tempo real.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : categories.length > 0 ? (
+            <div className="flex flex-col items-center gap-4">
+              {categories.map((category) => (
+                <Button key={category} variant="outline" asChild className="justify-between w-full max-w-sm">
+                  <Link href={eventHref(eventId, `/tournament/${encodeURIComponent(category)}`)}>
+                    {category}
+                    <ArrowRight className="h-4 w-4" />
+                  </Link>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground p-4 border-2 border-dashed rounded-lg">
+              <p>Nenhum torneio foi gerado ainda.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ClipboardPen, LogOut, RefreshCw } from "lucide-react";
+import { getScorekeeperMatches, signInScorekeeper, signOut, submitScore } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import type { ScorableMatch } from "@/lib/types";
+
+// Score inputs are kept as text while typing; an empty pair clears the score
+type Draft = { score1: string; score2: string };
+
+const draftOf = (match: ScorableMatch): Draft => ({
+  score1: match.score1?.toString() ?? '',
+  score2: match.score2?.toString() ?? '',
+});
+
+function ScorekeeperLogin({ eventId, onSignedIn }: { eventId: string; onSignedIn: () => void }) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoggingIn(true);
+    const result = await signInScorekeeper(eventId, code);
+    setIsLoggingIn(false);
+    if (result.success) {
+      onSignedIn();
+    } else {
+      setError(result.error || 'Código incorreto.');
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={handleLogin}>
+          <CardHeader>
+            <CardTitle>Mesa de Placar</CardTitle>
+            <CardDescription>Insira o código de mesário que você recebeu da organização.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">Código</Label>
+              <Input id="code" type="password" value={code} onChange={(e) => setCode(e.target.value)} required />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={isLoggingIn}>
+              {isLoggingIn && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Entrar
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
+
+export default function ScorekeeperPage() {
+  const eventId = useEventId();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [matches, setMatches] = useState<ScorableMatch[]>([]);
+  const [courts, setCourts] = useState<string[]>([]);
+  const [name, setName] = useState<string | undefined>();
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+
+  const loadMatches = useCallback(async () => {
+    try {
+      const result = await getScorekeeperMatches(eventId);
+      setSignedIn(!result.unauthorized);
+      setMatches(result.matches);
+      setCourts(result.courts);
+      setName(result.name);
+    } catch (error) {
+      console.error("Failed to load scorekeeper matches", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventId]);
+
+  // isAuthenticated: an admin signing in elsewhere on the page also opens the scorekeeper view
+  useEffect(() => {
+    loadMatches();
+  }, [loadMatches, isAuthenticated]);
+
+  const handleSave = async (match: ScorableMatch) => {
+    if (!match.id) return;
+    const draft = drafts[match.id] ?? draftOf(match);
+    const parse = (value: string) => (value.trim() === '' ? undefined : Number(value));
+    setSavingId(match.id);
+    const result = await submitScore(eventId, match.category, match.id, parse(draft.score1), parse(draft.score2));
+    setSavingId(null);
+    if (result.unauthorized) {
+      setSignedIn(false);
+      return;
+    }
+    if (result.success) {
+      toast({ title: "Placar salvo!", description: `${match.team1} x ${match.team2}` });
+      setDrafts(current => {
+        const { [match.id!]: _saved, ...rest } = current;
+        return rest;
+      });
+    } else {
+      toast({ variant: "destructive", title: "Erro ao salvar o placar", description: result.error });
+    }
+    await loadMatches();
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    setSignedIn(false);
+    setMatches([]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!signedIn) {
+    return <ScorekeeperLogin eventId={eventId} onSignedIn={loadMatches} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Mesa de Placar</h1>
+          <p className="text-muted-foreground">
+            {isAuthenticated ? "Administrador: todas as quadras." : `${name}: ${courts.join(', ')}.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadMatches}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Atualizar
+          </Button>
+          {!isAuthenticated && (
+            <Button variant="outline" onClick={handleSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sair
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {courts.map(court => {
+        const courtMatches = matches.filter(m => m.court === court);
+        return (
+          <Card key={court}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardPen className="h-5 w-5" />
+                {court}
+              </CardTitle>
+              <CardDescription>{courtMatches.length} jogo(s) nesta quadra.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {courtMatches.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum jogo agendado nesta quadra.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Horário</TableHead>
+                      <TableHead>Categoria</TableHead>
+                      <TableHead>Jogo</TableHead>
+                      <TableHead className="text-right">Placar</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {courtMatches.map(match => {
+                      const draft = drafts[match.id!] ?? draftOf(match);
+                      const setDraft = (field: keyof Draft, value: string) =>
+                        setDrafts(current => ({ ...current, [match.id!]: { ...draft, [field]: value } }));
+                      return (
+                        <TableRow key={match.id}>
+                          <TableCell className="font-medium">{match.time || '-'}</TableCell>
+                          <TableCell>{match.category}</TableCell>
+                          <TableCell>
+                            <div className="text-xs text-muted-foreground">{match.stage}</div>
+                            <div>{match.team1 || '-'} <span className="text-muted-foreground">x</span> {match.team2 || '-'}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-2">
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-16 text-center"
+                                value={draft.score1}
+                                onChange={(e) => setDraft('score1', e.target.value)}
+                                disabled={!match.teamsKnown}
+                              />
+                              <span className="text-muted-foreground">x</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-16 text-center"
+                                value={draft.score2}
+                                onChange={(e) => setDraft('score2', e.target.value)}
+                                disabled={!match.teamsKnown}
+                              />
+                              <Button size="sm" onClick={() => handleSave(match)} disabled={!match.teamsKnown || savingId === match.id}>
+                                {savingId === match.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Salvar
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,8 +4,10 @@
 import * as React from "react";
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { Loader2, CalendarClock, AlertCircle } from "lucide-react";
-import type { PlayoffBracket, PlayoffBracketSet, CategoryData, Court, MatchWithScore, PlayoffMatch, Team, GlobalSettings } from "@/lib/types";
+import { isCategoryKey, type PlayoffBracket, type PlayoffBracketSet, type CategoryData, type Court, type MatchWithScore, type PlayoffMatch, type Team, type GlobalSettings } from "@/lib/types";
 import { getTournaments } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { playoffBrackets } from "@/lib/brackets";
 import { useToast } from "@/hooks/use-toast";
 import { format, parse, addMinutes, isBefore, startOfDay } from 'date-fns';
 import { cn } from "@/lib/utils";
@@ -54,12 +56,13 @@ export default function ScheduleGridPage() {
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const eventId = useEventId();
   const [globalSettings, setGlobalSettings] = useState<GlobalSettings | null>(null);
 
   const loadData = useCallback(async () => {
     // No setIsLoading(true) here to avoid flicker on interval refresh
     try {
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       const { _globalSettings } = savedTournaments;
       
       setGlobalSettings(_globalSettings);
@@ -69,7 +72,7 @@ export default function ScheduleGridPage() {
       const loadedMatches: SchedulableMatch[] = [];
 
        for (const categoryName in savedTournaments) {
-          if (categoryName === '_globalSettings') continue;
+          if (!isCategoryKey(categoryName)) continue;
           const categoryData = savedTournaments[categoryName] as CategoryData;
 
           const addMatches = (matches: (MatchWithScore | PlayoffMatch)[], stageOverride?: string) => {
@@ -82,7 +85,7 @@ export default function ScheduleGridPage() {
                     ...match,
                     id: match.id,
                     category: categoryName,
-                    stage: stageOverride || ('name' in match ? match.name : categoryName),
+                    stage: stageOverride || ('name' in match && match.name) || categoryName,
                     team1Name: t1Name,
                     team2Name: t2Name,
                     players: [] as string[],
@@ -103,14 +106,7 @@ export default function ScheduleGridPage() {
                     });
                 };
                 
-                const playoffs = categoryData.playoffs as PlayoffBracketSet;
-                if (playoffs.upper || playoffs.lower || playoffs.playoffs) {
-                    processBracket(playoffs.upper);
-                    processBracket(playoffs.lower);
-                    processBracket(playoffs.playoffs);
-                } else {
-                    processBracket(playoffs as PlayoffBracket);
-                }
+                playoffBrackets(categoryData).forEach(processBracket);
             }
       }
       setAllMatches(loadedMatches);
@@ -121,7 +117,7 @@ export default function ScheduleGridPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [eventId, toast]);
   
   useEffect(() => {
     loadData();
@@ -196,7 +192,7 @@ export default function ScheduleGridPage() {
     doc.setTextColor("#FFFFFF");
     doc.rect(margin, yPos, contentWidth, 10, "F");
     allColumns.forEach((col, index) => {
-        doc.text(col, margin + index * colWidth + colWidth / 2, yPos + 7, { align: 'center', halign: 'center' });
+        doc.text(col, margin + index * colWidth + colWidth / 2, yPos + 7, { align: 'center' });
     });
     yPos += 10;
     
@@ -211,7 +207,7 @@ export default function ScheduleGridPage() {
             doc.setTextColor("#FFFFFF");
             doc.rect(margin, yPos, contentWidth, 10, "F");
             allColumns.forEach((col, index) => {
-                doc.text(col, margin + index * colWidth + colWidth / 2, yPos + 7, { align: 'center', halign: 'center' });
+                doc.text(col, margin + index * colWidth + colWidth / 2, yPos + 7, { align: 'center' });
             });
             yPos += 10;
         }
@@ -224,7 +220,7 @@ export default function ScheduleGridPage() {
         doc.setFontSize(9);
         doc.setFont("helvetica", "bold");
         doc.setTextColor("#000000");
-        doc.text(slot.time, margin + colWidth / 2, yPos + rowHeight / 2 + 3, { align: 'center', halign: 'center' });
+        doc.text(slot.time, margin + colWidth / 2, yPos + rowHeight / 2 + 3, { align: 'center' });
 
         // Match cells
         slot.courts.forEach((courtSlot, colIndex) => {
@@ -8,7 +8,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Loader2, Users, Search } from "lucide-react";
 import { getTournaments } from "@/app/actions";
-import type { Team, TournamentsState, CategoryData } from "@/lib/types";
+import { useEventId } from "@/hooks/use-event";
+import { isCategoryKey, type Team, type TournamentsState, type CategoryData } from "@/lib/types";
 
 type TeamWithCategory = {
   team: Team;
@@ -20,17 +21,18 @@ export default function PublicTeamsPage() {
   const [filteredTeams, setFilteredTeams] = useState<TeamWithCategory[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const eventId = useEventId();
 
   const loadTeams = useCallback(async () => {
     setIsLoading(true);
     try {
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       if (savedTournaments) {
         const teamsList: TeamWithCategory[] = [];
         const uniqueTeamKeys = new Set<string>();
 
         for (const categoryName in savedTournaments) {
-          if (categoryName === '_globalSettings') continue;
+          if (!isCategoryKey(categoryName)) continue;
 
           const categoryData = savedTournaments[categoryName] as CategoryData;
           if (categoryData.formValues?.teams) {
@@ -61,7 +63,7 @@ export default function PublicTeamsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [eventId]);
 
   useEffect(() => {
     loadTeams();
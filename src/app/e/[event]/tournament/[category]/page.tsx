@@ -6,11 +6,15 @@ import * as React from "react";
 import { useState, useEffect } from "react";
 import { useParams } from 'next/navigation'
 import { getTournamentByCategory } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
+import { playoffMatches, type DoubleEliminationBrackets, type GroupBrackets, type SwissBrackets } from "@/lib/brackets";
+import { bracketPodium, knockoutPlacements, leaguePodium, matchesByRound } from "@/lib/standings";
+import { calculatePlayerStandings } from "@/lib/king-of-the-beach";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
 import { Loader2, Trophy, Clock, MapPin } from "lucide-react";
-import type { CategoryData, PlayoffBracket, PlayoffMatch, Team, GroupWithScores, PlayoffBracketSet, MatchWithScore } from "@/lib/types";
+import type { CategoryData, PlayoffBracket, PlayoffMatch, Team, GroupWithScores, MatchWithScore, SwissStanding, PlayerStanding, KnockoutPlacement } from "@/lib/types";
 
 const roundNames: { [key: string]: string } = {
     2: 'Final',
@@ -158,28 +162,33 @@ const GroupCard = ({ group, teamsPerGroupToAdvance }: { group: GroupWithScores,
             <Separator />
             <div>
                 <h4 className="mb-2 font-semibold">Jogos</h4>
-                <div className="space-y-2">
-                    {group.matches.map((match, matchIndex) => (
-                        <div key={matchIndex} className="flex flex-col gap-2 rounded-md bg-secondary/50 p-2 text-sm">
-                            {(match.time || match.court) && (
-                                <div className="flex items-center justify-center gap-4 text-sm font-bold text-primary">
-                                    {match.time && <span className="flex items-center gap-1"><Clock className="h-4 w-4" /> {match.time}</span>}
-                                    {match.court && <span className="flex items-center gap-1"><MapPin className="h-4 w-4" /> {match.court}</span>}
-                                </div>
-                            )}
-                            <div className="flex items-center justify-between gap-2">
-                                <span className="flex-1 text-right truncate">{teamToKey(match.team1)}</span>
-                                {match.score1 !== undefined && match.score2 !== undefined ? (
-                                    <div className="flex items-center gap-1 font-bold">
-                                        <span>{match.score1}</span>
-                                        <span className="text-muted-foreground">x</span>
-                                        <span>{match.score2}</span>
+                <div className="space-y-4">
+                    {matchesByRound(group.matches).map(({ round, matches }) => (
+                        <div key={round ?? 0} className="space-y-2">
+                            {round && <p className="text-xs font-semibold uppercase text-muted-foreground">Rodada {round}</p>}
+                            {matches.map((match, matchIndex) => (
+                                <div key={match.id || matchIndex} className="flex flex-col gap-2 rounded-md bg-secondary/50 p-2 text-sm">
+                                    {(match.time || match.court) && (
+                                        <div className="flex items-center justify-center gap-4 text-sm font-bold text-primary">
+                                            {match.time && <span className="flex items-center gap-1"><Clock className="h-4 w-4" /> {match.time}</span>}
+                                            {match.court && <span className="flex items-center gap-1"><MapPin className="h-4 w-4" /> {match.court}</span>}
+                                        </div>
+                                    )}
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="flex-1 text-right truncate">{teamToKey(match.team1)}</span>
+                                        {match.score1 !== undefined && match.score2 !== undefined ? (
+                                            <div className="flex items-center gap-1 font-bold">
+                                                <span>{match.score1}</span>
+                                                <span className="text-muted-foreground">x</span>
+                                                <span>{match.score2}</span>
+                                            </div>
+                                        ) : (
+                                            <span className="text-muted-foreground font-bold text-xs">x</span>
+                                        )}
+                                        <span className="flex-1 text-left truncate">{teamToKey(match.team2)}</span>
                                     </div>
-                                ) : (
-                                    <span className="text-muted-foreground font-bold text-xs">x</span>
-                                )}
-                                <span className="flex-1 text-left truncate">{teamToKey(match.team2)}</span>
-                            </div>
+                                </div>
+                            ))}
                         </div>
                     ))}
                 </div>
@@ -188,8 +197,129 @@ const GroupCard = ({ group, teamsPerGroupToAdvance }: { group: GroupWithScores,
     </Card>
 );
 
+const PODIUM_LABELS = ['Campeão', 'Vice-campeão', '3º lugar'];
+
+const PodiumCard = ({ podium, title = 'Pódio', description }: { podium: Team[], title?: string, description: string }) => (
+    <Card>
+        <CardHeader>
+            <CardTitle className="flex items-center"><Trophy className="mr-2 h-6 w-6 text-yellow-500" />{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {podium.map((team, index) => (
+                <div key={teamToKey(team)} className="rounded-md bg-secondary/50 p-4 text-center">
+                    <p className="text-sm font-semibold text-muted-foreground">{PODIUM_LABELS[index]}</p>
+                    <p className="font-bold">{teamToKey(team)}</p>
+                </div>
+            ))}
+        </CardContent>
+    </Card>
+);
+
+const PlacementsCard = ({ placements }: { placements: KnockoutPlacement[] }) => (
+    <Card>
+        <CardHeader>
+            <CardTitle className="flex items-center"><Trophy className="mr-2 h-6 w-6 text-yellow-500" />Classificação Final</CardTitle>
+            <CardDescription>Colocações definidas pelo mata-mata até agora.</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="p-2 w-20">Posição</TableHead>
+                        <TableHead className="p-2">Dupla</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {placements.map(placement => (
+                        <TableRow key={teamToKey(placement.team)}>
+                            <TableCell className="p-2 text-muted-foreground">
+                                {placement.firstPlace === placement.lastPlace ? `${placement.firstPlace}º` : `${placement.firstPlace}º-${placement.lastPlace}º`}
+                            </TableCell>
+                            <TableCell className="p-2 font-medium">{teamToKey(placement.team)}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </CardContent>
+    </Card>
+);
+
+const SwissStandingsCard = ({ standings, cut }: { standings: SwissStanding[], cut: number }) => (
+    <Card>
+        <CardHeader>
+            <CardTitle>Classificação - Sistema Suíço</CardTitle>
+            <CardDescription>Vitórias, Buchholz (BH, soma das vitórias dos adversários), saldo de pontos e pontos pró.</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="p-2 w-8">#</TableHead>
+                        <TableHead className="p-2">Dupla</TableHead>
+                        <TableHead className="p-2 text-center">V</TableHead>
+                        <TableHead className="p-2 text-center">J</TableHead>
+                        <TableHead className="p-2 text-center">BH</TableHead>
+                        <TableHead className="p-2 text-center">PP</TableHead>
+                        <TableHead className="p-2 text-center">SP</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {standings.map((standing, index) => (
+                        <TableRow key={teamToKey(standing.team)} className={index < cut ? "bg-green-100 dark:bg-green-900/30" : ""}>
+                            <TableCell className="p-2 text-muted-foreground">{index + 1}</TableCell>
+                            <TableCell className="p-2 font-medium">{teamToKey(standing.team)}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.wins}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.played}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.buchholz}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.setsWon}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.setDifference > 0 ? `+${standing.setDifference}` : standing.setDifference}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </CardContent>
+    </Card>
+);
+
+const PlayerStandingsCard = ({ standings }: { standings: PlayerStanding[] }) => (
+    <Card>
+        <CardHeader>
+            <CardTitle className="flex items-center"><Trophy className="mr-2 h-6 w-6 text-yellow-500" />Classificação Individual</CardTitle>
+            <CardDescription>Vitórias, saldo de pontos (SP) e pontos pró (PP) de cada jogador, somando todas as parcerias.</CardDescription>
+        </CardHeader>
+        <CardContent>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead className="p-2 w-8">#</TableHead>
+                        <TableHead className="p-2">Jogador</TableHead>
+                        <TableHead className="p-2 text-center">V</TableHead>
+                        <TableHead className="p-2 text-center">J</TableHead>
+                        <TableHead className="p-2 text-center">PP</TableHead>
+                        <TableHead className="p-2 text-center">SP</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {standings.map((standing, index) => (
+                        <TableRow key={standing.player}>
+                            <TableCell className="p-2 text-muted-foreground">{index + 1}</TableCell>
+                            <TableCell className="p-2 font-medium">{standing.player}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.wins}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.played}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.pointsWon}</TableCell>
+                            <TableCell className="p-2 text-center">{standing.pointDifference > 0 ? `+${standing.pointDifference}` : standing.pointDifference}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </CardContent>
+    </Card>
+);
+
 export default function TournamentPage() {
     const params = useParams();
+    const eventId = useEventId();
     const [data, setData] = useState<CategoryData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -205,7 +335,7 @@ export default function TournamentPage() {
         const fetchData = async () => {
             try {
                 // Don't set loading to true on refetch
-                const tournamentData = await getTournamentByCategory(decodedCategory);
+                const tournamentData = await getTournamentByCategory(eventId, decodedCategory);
                 if (tournamentData) {
                     setData(tournamentData);
                     
@@ -214,16 +344,7 @@ export default function TournamentPage() {
                     if (tournamentData.tournamentData?.groups) {
                         allMatches.push(...tournamentData.tournamentData.groups.flatMap(g => g.matches));
                     }
-                    if (tournamentData.playoffs) {
-                         if ('upper' in tournamentData.playoffs || 'lower' in tournamentData.playoffs || 'playoffs' in tournamentData.playoffs) {
-                            const bracketSet = tournamentData.playoffs as PlayoffBracketSet;
-                             if(bracketSet.upper) allMatches.push(...Object.values(bracketSet.upper).flat());
-                             if(bracketSet.lower) allMatches.push(...Object.values(bracketSet.lower).flat());
-                             if(bracketSet.playoffs) allMatches.push(...Object.values(bracketSet.playoffs).flat());
-                         } else {
-                            allMatches.push(...Object.values(tournamentData.playoffs as PlayoffBracket).flat());
-                         }
-                    }
+                    allMatches.push(...playoffMatches(tournamentData));
 
                     const sortedMatches = allMatches
                         .filter(m => m.time && m.time !== 'N/A')
@@ -246,7 +367,7 @@ export default function TournamentPage() {
         const intervalId = setInterval(fetchData, 5000); // Poll every 5 seconds
 
         return () => clearInterval(intervalId); // Cleanup on component unmount
-    }, [category]);
+    }, [eventId, category]);
 
     if (isLoading) {
         return (
@@ -284,9 +405,21 @@ export default function TournamentPage() {
         }, {} as PlayoffBracket);
     }
 
-    const upperBracket = getBracketRounds((playoffs as PlayoffBracketSet)?.upper);
-    const lowerBracket = getBracketRounds((playoffs as PlayoffBracketSet)?.lower);
-    const finalPlayoffs = getBracketRounds((playoffs as PlayoffBracketSet)?.playoffs);
+    const upperBracket = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.upper);
+    const lowerBracket = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.lower);
+    const finalPlayoffs = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.playoffs);
+    const swissBracket = getBracketRounds((playoffs as SwissBrackets | null)?.swiss);
+    const consolationBracket = getBracketRounds((playoffs as GroupBrackets | null)?.consolation);
+    const podium = formValues.tournamentType === 'league' ? leaguePodium(data) : [];
+    const consolationPodium = bracketPodium((playoffs as GroupBrackets | null)?.consolation);
+    // The Taça Prata places come after every qualifier of the main knockout
+    const placements = formValues.tournamentType === 'singleElimination' ? knockoutPlacements((playoffs as PlayoffBracket | null) ?? undefined)
+        : formValues.tournamentType === 'swiss' ? knockoutPlacements(finalPlayoffs)
+        : isGroupTournament ? [
+            ...knockoutPlacements(finalPlayoffs),
+            ...knockoutPlacements((playoffs as GroupBrackets | null)?.consolation, (formValues.numberOfGroups ?? 0) * (formValues.teamsPerGroupToAdvance ?? 0)),
+        ]
+        : [];
 
 
     return (
@@ -316,6 +449,15 @@ export default function TournamentPage() {
                 </Card>
             )}
 
+            {formValues.tournamentType === 'league' && tournamentData?.groups[0] && (
+                <div className="space-y-8">
+                    {podium.length > 0 && <PodiumCard podium={podium} description="Definido pela tabela final da liga." />}
+                    <GroupCard group={tournamentData.groups[0]} teamsPerGroupToAdvance={podium.length} />
+                </div>
+            )}
+
+            {placements.length > 0 && <PlacementsCard placements={placements} />}
+
             {formValues.tournamentType === 'singleElimination' && playoffs && Object.keys(playoffs).length > 0 && (
                  <Bracket playoffs={playoffs as PlayoffBracket} title="Playoffs - Mata-Mata" />
             )}
@@ -328,8 +470,27 @@ export default function TournamentPage() {
                 </div>
             )}
 
-             {isGroupTournament && playoffs && Object.keys(playoffs).length > 0 && (
-                <Bracket playoffs={playoffs as PlayoffBracket} title="Playoffs - Mata-Mata" />
+            {formValues.tournamentType === 'swiss' && (
+                <div className="space-y-8">
+                   <SwissStandingsCard standings={data.swissStandings ?? []} cut={formValues.swissCut ?? 0} />
+                   {Object.keys(swissBracket).length > 0 && <Bracket playoffs={swissBracket} title="Rodadas do Suíço" />}
+                   {Object.keys(finalPlayoffs).length > 0 && <Bracket playoffs={finalPlayoffs} title="Playoffs - Mata-Mata" />}
+                </div>
+            )}
+
+            {formValues.tournamentType === 'kingOfTheBeach' && (
+                <div className="space-y-8">
+                   <PlayerStandingsCard standings={calculatePlayerStandings(data)} />
+                   {playoffs && Object.keys(playoffs).length > 0 && <Bracket playoffs={playoffs as PlayoffBracket} title="Rodadas" />}
+                </div>
+            )}
+
+             {isGroupTournament && playoffs && (
+                <div className="space-y-8">
+                   {Object.keys(finalPlayoffs).length > 0 && <Bracket playoffs={finalPlayoffs} title="Playoffs - Mata-Mata" />}
+                   {consolationPodium.length > 0 && <PodiumCard podium={consolationPodium} title="Pódio da Taça Prata" description="Definido pela final da Taça Prata." />}
+                   {Object.keys(consolationBracket).length > 0 && <Bracket playoffs={consolationBracket} title="Taça Prata" />}
+                </div>
             )}
         </div>
     );
@@ -17,7 +17,7 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <head>
-        <title>Campeonato de Futevôlei Amigos do Peri</title>
+        <title>Campeonatos de Futevôlei</title>
         <meta name="description" content="Sistema de gerenciamento de campeonatos de futevôlei" />
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
@@ -1,4 +1,3 @@
-
 "use client";
 
 import * as React from "react";
@@ -6,79 +5,93 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Trophy, ArrowRight } from "lucide-react";
-import { getTournaments } from "@/app/actions";
-import type { TournamentsState } from "@/lib/types";
-import Image from "next/image";
+import { Loader2, CalendarDays, ArrowRight, Archive } from "lucide-react";
+import { getEvents } from "@/app/actions";
+import { eventHref } from "@/hooks/use-event";
+import type { EventMeta } from "@/lib/events";
+
+const formatEventDate = (date: string) => date.split('-').reverse().join('/');
+
+function EventLink({ event }: { event: EventMeta }) {
+  return (
+    <Button variant="outline" asChild className="justify-between w-full max-w-sm h-auto py-2">
+      <Link href={eventHref(event.id)}>
+        <span className="flex flex-col items-start">
+          <span>{event.name}</span>
+          {(event.date || event.venue) && (
+            <span className="text-xs text-muted-foreground">
+              {[event.date && formatEventDate(event.date), event.venue].filter(Boolean).join(' · ')}
+            </span>
+          )}
+        </span>
+        <ArrowRight className="h-4 w-4" />
+      </Link>
+    </Button>
+  );
+}
 
-export default function Home() {
-  const [tournaments, setTournaments] = useState<TournamentsState>({});
+export default function EventPicker() {
+  const [events, setEvents] = useState<EventMeta[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const fetchTournaments = async () => {
+    const fetchEvents = async () => {
       try {
-        const data = await getTournaments();
-        setTournaments(data);
+        setEvents(await getEvents());
       } catch (error) {
-        console.error("Failed to load tournaments", error);
+        console.error("Failed to load events", error);
       } finally {
         setIsLoading(false);
       }
     };
-    fetchTournaments();
+    fetchEvents();
   }, []);
 
-  const categories = Object.keys(tournaments).filter(k => k !== '_globalSettings');
+  const active = events.filter(e => !e.archived);
+  const archived = events.filter(e => e.archived);
 
   return (
     <div className="flex flex-col gap-8 items-center text-center">
-      <div className="flex flex-col gap-4 items-center">
-         <div className="flex items-center justify-center gap-3">
-            <h2 className="text-4xl font-bold tracking-tight">Campeonato de Futevôlei Amigos do Peri</h2>
-         </div>
-         <Image
-            src="/logo.png"
-            alt="Logo do Torneio"
-            width={130}
-            height={130}
-            priority
-          />
-      </div>
+      <h2 className="text-4xl font-bold tracking-tight">Campeonatos de Futevôlei</h2>
 
       <Card className="w-full max-w-2xl">
         <CardHeader>
           <CardTitle className="flex items-center justify-center">
-            <Trophy className="mr-2 h-6 w-6 text-primary" />
-            Categorias em Andamento
+            <CalendarDays className="mr-2 h-6 w-6 text-primary" />
+            Eventos
           </CardTitle>
-          <CardDescription>
-          Acompanhe os jogos e classificações em tempo real.
-          </CardDescription>
+          <CardDescription>Escolha um evento para ver as categorias, jogos e horários.</CardDescription>
         </CardHeader>
         <CardContent>
           {isLoading ? (
             <div className="flex items-center justify-center h-24">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : categories.length > 0 ? (
+          ) : active.length > 0 ? (
             <div className="flex flex-col items-center gap-4">
-              {categories.map((category) => (
-                <Button key={category} variant="outline" asChild className="justify-between w-full max-w-sm">
-                  <Link href={`/tournament/${encodeURIComponent(category)}`}>
-                    {category}
-                    <ArrowRight className="h-4 w-4" />
-                  </Link>
-                </Button>
-              ))}
+              {active.map(event => <EventLink key={event.id} event={event} />)}
             </div>
           ) : (
             <div className="text-center text-muted-foreground p-4 border-2 border-dashed rounded-lg">
-              <p>Nenhum torneio foi gerado ainda.</p>
+              <p>Nenhum evento em andamento.</p>
             </div>
           )}
         </CardContent>
       </Card>
+
+      {archived.length > 0 && (
+        <Card className="w-full max-w-2xl">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-center">
+              <Archive className="mr-2 h-6 w-6 text-muted-foreground" />
+              Eventos anteriores
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-4">
+            {archived.map(event => <EventLink key={event.id} event={event} />)}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
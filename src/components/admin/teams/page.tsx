@@ -12,9 +12,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogC
 import { Label } from "@/components/ui/label";
 import { Loader2, Users, Pencil, Search } from "lucide-react";
 import { getTournaments, updateTeamInTournament } from "@/app/actions";
+import { useEventId } from "@/hooks/use-event";
 import { useAuth } from "@/context/AuthContext";
 import { LoginPage } from "@/components/login-page";
-import type { Team, TournamentsState, CategoryData } from "@/lib/types";
+import { isCategoryKey, type Team, type TournamentsState, type CategoryData } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 
 type TeamWithCategory = {
@@ -29,19 +30,20 @@ export default function TeamsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isEditing, setIsEditing] = useState(false);
   const [editingTeam, setEditingTeam] = useState<{ original: TeamWithCategory, updated: Team} | null>(null);
-  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { isAuthenticated, isLoading: isAuthLoading, expireSession } = useAuth();
   const { toast } = useToast();
+  const eventId = useEventId();
 
   const loadTeams = useCallback(async () => {
     try {
       setIsLoading(true);
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       if (savedTournaments) {
         const teamsList: TeamWithCategory[] = [];
         const uniqueTeamKeys = new Set<string>();
 
         for (const categoryName in savedTournaments) {
-          if (categoryName === '_globalSettings') continue;
+          if (!isCategoryKey(categoryName)) continue;
 
           const categoryData = savedTournaments[categoryName] as CategoryData;
           if (categoryData.formValues?.teams) {
@@ -77,7 +79,7 @@ export default function TeamsPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [toast]);
+  }, [eventId, toast]);
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -121,7 +123,8 @@ export default function TeamsPage() {
     setIsEditing(true);
     const { original, updated } = editingTeam;
 
-    const result = await updateTeamInTournament(original.category, original.team, updated);
+    const result = await updateTeamInTournament(eventId, original.category, original.team, updated);
+    if (result.unauthorized) expireSession();
 
     if (result.success) {
       toast({
@@ -9,8 +9,15 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { Loader2, Trophy, Clock, Trash2, Swords, RefreshCcw, LayoutGrid, Pencil, MapPin } from "lucide-react"
 
 import { getTournaments, saveTournament, deleteTournament, renameTournament, regenerateCategory, updateMatch } from "@/app/actions"
+import { eventHref, useEventId } from "@/hooks/use-event"
+import { useAuth } from "@/context/AuthContext"
 import type { TournamentData, TeamStanding, PlayoffMatch, GroupWithScores, TournamentFormValues, Team, TournamentsState, CategoryData, PlayoffBracketSet, PlayoffBracket, GlobalSettings, MatchWithScore } from "@/lib/types"
-import { formSchema } from "@/lib/types"
+import { formSchema, isCategoryKey } from "@/lib/types"
+import { emptyRegistry } from "@/lib/registry"
+import { calculateStandings, updatePlayoffs } from "@/lib/standings"
+import { bracketParts, playoffBrackets, playoffMatches, type DoubleEliminationBrackets, type GroupBrackets, type SwissBrackets } from "@/lib/brackets"
+import { swissBye, swissRounds } from "@/lib/swiss"
+import { calculatePlayerStandings, restingPlayers } from "@/lib/king-of-the-beach"
 import { useToast } from "@/hooks/use-toast"
 
 import {
@@ -55,12 +62,16 @@ const teamToKey = (team?: Team) => {
 export function CategoryManager() {
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false);
-  const [tournaments, setTournaments] = useState<TournamentsState>({ _globalSettings: { startTime: "08:00", estimatedMatchDuration: 20, courts: [{name: "Quadra 1", slots: [{startTime: "09:00", endTime: "18:00"}]}] }})
+  const [tournaments, setTournaments] = useState<TournamentsState>({ _globalSettings: { startTime: "08:00", estimatedMatchDuration: 20, endTime: "18:00", courts: [{name: "Quadra 1", slots: [{startTime: "09:00", endTime: "18:00"}]}] }, _registry: emptyRegistry() })
   const [activeTab, setActiveTab] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState("");
+  const saveQueueRef = React.useRef<Promise<void>>(Promise.resolve());
+  const revisionsRef = React.useRef<Record<string, { base?: number; saved?: number }>>({});
   const { toast } = useToast()
+  const eventId = useEventId()
+  const { expireSession, canManageCategory } = useAuth()
   
   const activeCategoryData = activeTab ? tournaments[activeTab] : null;
 
@@ -71,16 +82,7 @@ export function CategoryManager() {
     if (categoryData.tournamentData?.groups) {
         allMatches.push(...categoryData.tournamentData.groups.flatMap(g => g.matches));
     }
-    if (categoryData.playoffs) {
-        if ('upper' in categoryData.playoffs || 'lower' in categoryData.playoffs || 'playoffs' in categoryData.playoffs) {
-            const bracketSet = categoryData.playoffs as PlayoffBracketSet;
-            if(bracketSet.upper) allMatches.push(...Object.values(bracketSet.upper).flat());
-            if(bracketSet.lower) allMatches.push(...Object.values(bracketSet.lower).flat());
-            if(bracketSet.playoffs) allMatches.push(...Object.values(bracketSet.playoffs).flat());
-        } else {
-            allMatches.push(...Object.values(categoryData.playoffs as PlayoffBracket).flat());
-        }
-    }
+    allMatches.push(...playoffMatches(categoryData));
 
     const sortedMatches = allMatches
         .filter(m => m.time && m.time !== 'N/A')
@@ -94,9 +96,9 @@ export function CategoryManager() {
   useEffect(() => {
     const fetchInitialData = async () => {
       try {
-        const savedTournaments = await getTournaments();
+        const savedTournaments = await getTournaments(eventId);
         setTournaments(savedTournaments);
-        const categories = Object.keys(savedTournaments).filter(k => k !== '_globalSettings');
+        const categories = Object.keys(savedTournaments).filter(name => isCategoryKey(name) && canManageCategory(eventId, name));
         if (categories.length > 0 && !activeTab) {
           setActiveTab(categories[0]);
         }
@@ -112,7 +114,7 @@ export function CategoryManager() {
       }
     };
     fetchInitialData();
-  }, [toast, activeTab]);
+  }, [eventId, toast, activeTab, canManageCategory]);
 
   useEffect(() => {
     if (activeTab) {
@@ -120,20 +122,46 @@ export function CategoryManager() {
     }
   }, [activeTab]);
 
-  const saveData = async (categoryName: string, data: CategoryData) => {
-    setIsSaving(true);
-    const result = await saveTournament(categoryName, data);
-    if (!result.success) {
-      toast({
-        variant: "destructive",
-        title: "Erro ao salvar",
-        description: result.error || "Não foi possível salvar as alterações.",
-      });
-    } else {
-        const updatedTournaments = await getTournaments();
+  const reloadTournaments = useCallback(async () => {
+    const updatedTournaments = await getTournaments(eventId);
+    revisionsRef.current = {};
+    setTournaments(updatedTournaments);
+  }, [eventId]);
+
+  // Saves run one at a time. Edits made on top of a copy this screen already saved carry the
+  // revision returned by that save, so fast consecutive score edits never conflict with each other.
+  const saveData = (categoryName: string, data: CategoryData) => {
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      setIsSaving(true);
+      const lastSave = revisionsRef.current[categoryName];
+      const revision = lastSave && lastSave.base === data.revision ? lastSave.saved : data.revision;
+      const result = await saveTournament(eventId, categoryName, { ...data, revision });
+      if (result.unauthorized) expireSession();
+      if (result.success) {
+        revisionsRef.current[categoryName] = { base: data.revision, saved: result.revision };
+        const updatedTournaments = await getTournaments(eventId);
         setTournaments(updatedTournaments);
-    }
-    setIsSaving(false);
+      } else if (result.conflict) {
+        toast({
+          variant: "destructive",
+          title: "Dados alterados",
+          description: result.error,
+          action: (
+            <Button variant="secondary" size="sm" onClick={reloadTournaments}>
+              Recarregar
+            </Button>
+          ),
+          duration: 15000,
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Erro ao salvar",
+          description: result.error || "Não foi possível salvar as alterações.",
+        });
+      }
+      setIsSaving(false);
+    });
   };
 
   const handleRenameCategory = async () => {
@@ -143,7 +171,8 @@ export function CategoryManager() {
     }
 
     setIsLoading(true);
-    const result = await renameTournament(activeTab, newCategoryName);
+    const result = await renameTournament(eventId, activeTab, newCategoryName);
+    if (result.unauthorized) expireSession();
 
     if (result.success) {
       toast({
@@ -152,7 +181,7 @@ export function CategoryManager() {
       });
 
       // Update state locally
-      const updatedTournaments = await getTournaments();
+      const updatedTournaments = await getTournaments(eventId);
       setTournaments(updatedTournaments);
       setActiveTab(newCategoryName);
       setIsRenameDialogOpen(false);
@@ -168,7 +197,8 @@ export function CategoryManager() {
 
   const handleDeleteCategory = async (categoryName: string) => {
     setIsLoading(true);
-    const result = await deleteTournament(categoryName);
+    const result = await deleteTournament(eventId, categoryName);
+    if (result.unauthorized) expireSession();
     if (result.success) {
       toast({
         title: "Categoria Excluída!",
@@ -179,7 +209,7 @@ export function CategoryManager() {
       delete newTournaments[categoryName];
       setTournaments(newTournaments);
 
-      const remainingCategories = Object.keys(newTournaments).filter(k => k !== '_globalSettings');
+      const remainingCategories = Object.keys(newTournaments).filter(isCategoryKey);
       if (remainingCategories.length > 0) {
         setActiveTab(remainingCategories[0]);
       } else {
@@ -197,13 +227,14 @@ export function CategoryManager() {
 
   const handleRegenerateCategory = async (categoryName: string) => {
     setIsLoading(true);
-    const result = await regenerateCategory(categoryName);
+    const result = await regenerateCategory(eventId, categoryName);
+    if (result.unauthorized) expireSession();
     if (result.success) {
         toast({
             title: "Categoria Regenerada!",
             description: `A categoria "${categoryName}" foi recriada com sucesso.`,
         });
-        const updatedTournaments = await getTournaments();
+        const updatedTournaments = await getTournaments(eventId);
         setTournaments(updatedTournaments);
     } else {
         toast({
@@ -215,170 +246,13 @@ export function CategoryManager() {
     setIsLoading(false);
 };
   
-  const updatePlayoffs = (categoryData: CategoryData): CategoryData => {
-    const { playoffs, formValues, tournamentData } = categoryData;
-    if (!playoffs) return categoryData;
-
-    const newPlayoffs = JSON.parse(JSON.stringify(playoffs));
-    const winners: { [matchId: string]: Team } = {};
-    const losers: { [matchId: string]: Team } = {};
-    const groupQualifiers: { [placeholder: string]: Team } = {};
-
-    // 1. Populate group qualifiers if groups are finished
-    if (tournamentData?.groups) {
-      tournamentData.groups.forEach(group => {
-        const allMatchesFinished = group.matches.every(m => typeof m.score1 === 'number' && typeof m.score2 === 'number');
-        if (allMatchesFinished) {
-          group.standings.slice(0, formValues.teamsPerGroupToAdvance).forEach((standing, index) => {
-            const categoryPrefix = formValues.category.replace(/\s/g, '');
-            const groupNameId = group.name.replace(/\s/g, '');
-            const placeholder = `${index + 1}º do ${categoryPrefix}-${groupNameId}`;
-            groupQualifiers[placeholder] = standing.team;
-          });
-        }
-      });
-    }
-    
-    // 2. Populate winners and losers from playoff matches
-    const processBracketForWinners = (bracket?: PlayoffBracket) => {
-      if (!bracket) return;
-      Object.values(bracket).flat().forEach(match => {
-        if (match.team1 && match.team2 && typeof match.score1 === 'number' && typeof match.score2 === 'number') {
-          if (match.score1 > match.score2) {
-            winners[match.id] = match.team1;
-            losers[match.id] = match.team2;
-          } else if (match.score2 > match.score1) {
-            winners[match.id] = match.team2;
-            losers[match.id] = match.team1;
-          }
-        }
-      });
-    };
-
-    if ('upper' in newPlayoffs || 'lower' in newPlayoffs || 'playoffs' in newPlayoffs) {
-      processBracketForWinners((newPlayoffs as PlayoffBracketSet).upper);
-      processBracketForWinners((newPlayoffs as PlayoffBracketSet).lower);
-      processBracketForWinners((newPlayoffs as PlayoffBracketSet).playoffs);
-    } else {
-      processBracketForWinners(newPlayoffs as PlayoffBracket);
-    }
-
-    // 3. Resolve placeholders iteratively
-    const resolvePlaceholdersInBracket = (bracket?: PlayoffBracket) => {
-      if (!bracket) return;
-      Object.values(bracket).flat().forEach(match => {
-        if (!match.team1 && match.team1Placeholder) {
-          if (groupQualifiers[match.team1Placeholder]) {
-            match.team1 = groupQualifiers[match.team1Placeholder];
-          } else if (match.team1Placeholder.startsWith('Vencedor')) {
-            const depId = match.team1Placeholder.replace('Vencedor ', '').trim();
-            if (winners[depId]) match.team1 = winners[depId];
-          } else if (match.team1Placeholder.startsWith('Perdedor')) {
-            const depId = match.team1Placeholder.replace('Perdedor ', '').trim();
-            if (losers[depId]) match.team1 = losers[depId];
-          }
-        }
-        if (!match.team2 && match.team2Placeholder) {
-          if (groupQualifiers[match.team2Placeholder]) {
-            match.team2 = groupQualifiers[match.team2Placeholder];
-          } else if (match.team2Placeholder.startsWith('Vencedor')) {
-            const depId = match.team2Placeholder.replace('Vencedor ', '').trim();
-            if (winners[depId]) match.team2 = winners[depId];
-          } else if (match.team2Placeholder.startsWith('Perdedor')) {
-            const depId = match.team2Placeholder.replace('Perdedor ', '').trim();
-            if (losers[depId]) match.team2 = losers[depId];
-          }
-        }
-      });
-    };
-
-    for (let i = 0; i < 5; i++) { // Iterate multiple times to resolve chained dependencies
-       if ('upper' in newPlayoffs || 'lower' in newPlayoffs || 'playoffs' in newPlayoffs) {
-          resolvePlaceholdersInBracket((newPlayoffs as PlayoffBracketSet).upper);
-          resolvePlaceholdersInBracket((newPlayoffs as PlayoffBracketSet).lower);
-          resolvePlaceholdersInBracket((newPlayoffs as PlayoffBracketSet).playoffs);
-      } else {
-          resolvePlaceholdersInBracket(newPlayoffs as PlayoffBracket);
-      }
-    }
-
-    return { ...categoryData, playoffs: newPlayoffs };
-  };
-
-
-  const calculateStandings = (currentTournamentData: TournamentData): TournamentData => {
-    const groupsArray = Array.isArray(currentTournamentData.groups)
-        ? currentTournamentData.groups
-        : Object.values(currentTournamentData.groups);
-
-    const newGroups = groupsArray.map(group => {
-        const standings: Record<string, TeamStanding> = {};
-
-        group.teams.forEach(team => {
-            const teamKey = teamToKey(team);
-            standings[teamKey] = { team, played: 0, wins: 0, setsWon: 0, setDifference: 0 };
-        });
-
-        group.matches.forEach(match => {
-            const { team1, team2, score1, score2 } = match;
-            if (score1 === undefined || score2 === undefined) return;
-
-            const team1Key = teamToKey(team1);
-            const team2Key = teamToKey(team2);
-
-            if (standings[team1Key]) standings[team1Key].played++;
-            if (standings[team2Key]) standings[team2Key].played++;
-
-            if (score1 > score2) {
-                if (standings[team1Key]) standings[team1Key].wins++;
-            } else if (score2 > score1) {
-                if (standings[team2Key]) standings[team2Key].wins++;
-            }
-
-            if (standings[team1Key]) standings[team1Key].setsWon += score1;
-            if (standings[team2Key]) standings[team2Key].setsWon += score2;
-        });
-        
-        const sortedStandings = Object.values(standings).map(s => {
-            let setsLost = 0;
-            group.matches.forEach(m => {
-                if(m.score1 === undefined || m.score2 === undefined) return;
-                if (teamToKey(m.team1) === teamToKey(s.team)) {
-                    setsLost += m.score2;
-                }
-                if (teamToKey(m.team2) === teamToKey(s.team)) {
-                    setsLost += m.score1;
-                }
-            });
-            return {
-              ...s,
-              setDifference: s.setsWon - setsLost
-            }
-        }).sort((a, b) => {
-          if (b.wins !== a.wins) return b.wins - a.wins;
-          if (b.setDifference !== a.setDifference) return b.setDifference - a.setDifference;
-          return b.setsWon - a.setsWon;
-        });
-
-        return { ...group, standings: sortedStandings };
-    });
-
-    return { groups: newGroups };
-  };
-
   const handleGroupMatchChange = (groupIndex: number, matchIndex: number, field: 'score1' | 'score2', value: string) => {
     if (!activeTab || !activeCategoryData) return;
     
     let currentCategoryData = JSON.parse(JSON.stringify(activeCategoryData));
     const score = value === '' ? undefined : parseInt(value, 10);
     
-    // Ensure groups is an array before modification
-    const groupsArray = Array.isArray(currentCategoryData.tournamentData.groups) 
-        ? currentCategoryData.tournamentData.groups
-        : Object.values(currentCategoryData.tournamentData.groups);
-
-    groupsArray[groupIndex].matches[matchIndex][field] = isNaN(score!) ? undefined : score;
-    currentCategoryData.tournamentData.groups = groupsArray; // Assign back the array
+    currentCategoryData.tournamentData.groups[groupIndex].matches[matchIndex][field] = isNaN(score!) ? undefined : score;
 
     const updatedDataWithStandings = calculateStandings(currentCategoryData.tournamentData);
     currentCategoryData.tournamentData = updatedDataWithStandings;
@@ -398,8 +272,8 @@ export function CategoryManager() {
 
     let currentCategoryData = JSON.parse(JSON.stringify(activeCategoryData));
     let matchToUpdate;
-    if (currentCategoryData.formValues?.tournamentType === 'doubleElimination' && bracketKey && (currentCategoryData.playoffs as PlayoffBracketSet)[bracketKey]) {
-        matchToUpdate = (currentCategoryData.playoffs as PlayoffBracketSet)[bracketKey]![roundName][matchIndex];
+    if (bracketParts(currentCategoryData.formValues.tournamentType) && bracketKey && (currentCategoryData.playoffs as PlayoffBracketSet)[bracketKey]) {
+        matchToUpdate = (currentCategoryData.playoffs as Record<string, PlayoffBracket | undefined>)[bracketKey]![roundName][matchIndex];
     } else {
         matchToUpdate = (currentCategoryData.playoffs as PlayoffBracket)[roundName][matchIndex];
     }
@@ -516,7 +390,8 @@ export function CategoryManager() {
     );
   }
 
-  const categories = Object.keys(tournaments).filter(k => k !== '_globalSettings');
+  // Category admins only see the categories their account manages
+  const categories = Object.keys(tournaments).filter(name => isCategoryKey(name) && canManageCategory(eventId, name));
 
   if (categories.length === 0) {
       return (
@@ -527,7 +402,7 @@ export function CategoryManager() {
                       <h3 className="text-lg font-semibold">Nenhuma Categoria Gerada</h3>
                       <p className="text-muted-foreground">Vá para o painel de criação para criar sua primeira categoria.</p>
                       <Button asChild className="mt-4">
-                          <Link href="/admin">Criar Categoria</Link>
+                          <Link href={eventHref(eventId, "/admin")}>Criar Categoria</Link>
                       </Button>
                   </div>
               </CardContent>
@@ -562,13 +437,15 @@ export function CategoryManager() {
              </div>
           </div>
           {categories.map(categoryName => {
-              const categoryData = tournaments[categoryName];
+              const categoryData = tournaments[categoryName] as CategoryData | undefined;
               if (!categoryData) return null;
 
               const { formValues, tournamentData, playoffs, totalMatches } = categoryData;
               const firstMatchTime = getFirstMatchTime(categoryData);
 
-              const groupsToRender = tournamentData?.groups ? (Array.isArray(tournamentData.groups) ? tournamentData.groups : Object.values(tournamentData.groups)) : [];
+              const groupsToRender = tournamentData?.groups ?? [];
+              // A league has no knockout; its podium is highlighted instead
+              const advancingPerGroup = formValues.tournamentType === 'league' ? 3 : formValues.teamsPerGroupToAdvance!;
 
               const getBracketRounds = (bracket: PlayoffBracket | undefined) => {
                   if (!bracket) return {};
@@ -578,9 +455,21 @@ export function CategoryManager() {
                   }, {} as PlayoffBracket);
               }
 
-              const upperBracket = getBracketRounds((playoffs as PlayoffBracketSet)?.upper);
-              const lowerBracket = getBracketRounds((playoffs as PlayoffBracketSet)?.lower);
-              const finalPlayoffs = getBracketRounds((playoffs as PlayoffBracketSet)?.playoffs);
+              const upperBracket = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.upper);
+              const lowerBracket = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.lower);
+              const finalPlayoffs = getBracketRounds((playoffs as DoubleEliminationBrackets | null)?.playoffs);
+              const swissBracket = getBracketRounds((playoffs as SwissBrackets | null)?.swiss);
+              const consolationBracket = getBracketRounds((playoffs as GroupBrackets | null)?.consolation);
+              const swissStandings = (categoryData as CategoryData).swissStandings ?? [];
+              const swissByes = swissRounds(swissBracket)
+                  .map((round, i) => ({ round: i + 1, team: swissBye(swissStandings, round) }))
+                  .filter(bye => bye.team);
+              const isKingOfTheBeach = formValues.tournamentType === 'kingOfTheBeach';
+              const playerStandings = isKingOfTheBeach ? calculatePlayerStandings(categoryData as CategoryData) : [];
+              const kingOfTheBeachRests = isKingOfTheBeach && playoffs
+                  ? Object.values(playoffs as PlayoffBracket).map((round, i) => ({ round: i + 1, players: restingPlayers(categoryData as CategoryData, round) }))
+                      .filter(rest => rest.players.length > 0)
+                  : [];
 
 
               return (
@@ -721,7 +610,7 @@ export function CategoryManager() {
                        )}
                        
                        <div className="space-y-8">
-                            {formValues.tournamentType === 'groups' && tournamentData && groupsToRender.length > 0 && (
+                            {(formValues.tournamentType === 'groups' || formValues.tournamentType === 'league') && tournamentData && groupsToRender.length > 0 && (
                             <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
                                 {groupsToRender.map((group, groupIndex) => (
                                 <Card key={group.name} className="flex flex-col">
@@ -745,7 +634,7 @@ export function CategoryManager() {
                                             </TableHeader>
                                             <TableBody>
                                             {group.standings.map((standing, index) => (
-                                                <TableRow key={teamToKey(standing.team)} className={index < formValues.teamsPerGroupToAdvance! ? "bg-green-100 dark:bg-green-900/30" : ""}>
+                                                <TableRow key={teamToKey(standing.team)} className={index < advancingPerGroup ? "bg-green-100 dark:bg-green-900/30" : ""}>
                                                 <TableCell className="p-2 font-medium">{teamToKey(standing.team)}</TableCell>
                                                 <TableCell className="p-2 text-center">{standing.wins}</TableCell>
                                                 <TableCell className="p-2 text-center">{standing.played}</TableCell>
@@ -765,6 +654,9 @@ export function CategoryManager() {
                                         <div className="space-y-2">
                                         {group.matches.map((match, matchIndex) => (
                                             <div key={match.id || matchIndex} className="flex flex-col gap-2 rounded-md bg-secondary/50 p-2 text-sm">
+                                                {match.round && match.round !== group.matches[matchIndex - 1]?.round && (
+                                                    <span className="text-xs font-semibold uppercase text-muted-foreground">Rodada {match.round}</span>
+                                                )}
                                                 {(match.time || match.court) && (
                                                     <div className="flex items-center justify-center gap-4 text-sm font-bold text-primary">
                                                         {match.time && <span className="flex items-center gap-1"><Clock className="h-4 w-4" /> {match.time}</span>}
@@ -830,18 +722,146 @@ export function CategoryManager() {
                                 </div>
                             )}
 
-                            {formValues.tournamentType === 'groups' && playoffs && Object.keys(playoffs).length > 0 && (
-                                <Card>
-                                    <CardHeader>
-                                    <CardTitle className="flex items-center"><Trophy className="mr-2 h-5 w-5 text-primary" />Playoffs - Mata-Mata</CardTitle>
-                                    <CardDescription>
-                                        Chaveamento gerado com base na classificação dos grupos.
-                                    </CardDescription>
-                                    </CardHeader>
-                                    <CardContent>
-                                    <Bracket playoffs={playoffs as PlayoffBracket} />
-                                    </CardContent>
-                                </Card>
+                            {formValues.tournamentType === 'swiss' && playoffs && (
+                                <div className="space-y-6">
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center"><Swords className="mr-2 h-5 w-5 text-primary" />Classificação - Sistema Suíço</CardTitle>
+                                            <CardDescription>
+                                                Vitórias, Buchholz (soma das vitórias dos adversários), saldo de pontos e pontos pró.
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Table>
+                                                <TableHeader>
+                                                <TableRow>
+                                                    <TableHead className="p-2 w-8">#</TableHead>
+                                                    <TableHead className="p-2">Dupla</TableHead>
+                                                    <TableHead className="p-2 text-center">V</TableHead>
+                                                    <TableHead className="p-2 text-center">J</TableHead>
+                                                    <TableHead className="p-2 text-center">BH</TableHead>
+                                                    <TableHead className="p-2 text-center">PP</TableHead>
+                                                    <TableHead className="p-2 text-center">SP</TableHead>
+                                                </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                {swissStandings.map((standing, index) => (
+                                                    <TableRow key={teamToKey(standing.team)} className={index < (formValues.swissCut ?? 0) ? "bg-green-100 dark:bg-green-900/30" : ""}>
+                                                    <TableCell className="p-2 text-muted-foreground">{index + 1}</TableCell>
+                                                    <TableCell className="p-2 font-medium">{teamToKey(standing.team)}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.wins}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.played}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.buchholz}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.setsWon}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.setDifference > 0 ? `+${standing.setDifference}` : standing.setDifference}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                                </TableBody>
+                                            </Table>
+                                        </CardContent>
+                                    </Card>
+                                    {Object.keys(swissBracket).length > 0 && <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center"><Swords className="mr-2 h-5 w-5 text-primary" />Rodadas</CardTitle>
+                                            <CardDescription>
+                                                Cada rodada é pareada automaticamente quando todos os placares da anterior são lançados.
+                                                {swissByes.map(bye => ` Folga na ${bye.round}ª rodada: ${teamToKey(bye.team!)}.`).join('')}
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Bracket playoffs={swissBracket} bracketKey="swiss" />
+                                        </CardContent>
+                                    </Card>}
+                                    {Object.keys(finalPlayoffs).length > 0 && <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center"><Trophy className="mr-2 h-5 w-5 text-primary" />Playoffs - Mata-Mata</CardTitle>
+                                            <CardDescription>
+                                                Os {formValues.swissCut} primeiros da classificação final do suíço.
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Bracket playoffs={finalPlayoffs} bracketKey="playoffs" />
+                                        </CardContent>
+                                    </Card>}
+                                </div>
+                            )}
+
+                            {isKingOfTheBeach && playoffs && (
+                                <div className="space-y-6">
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center"><Trophy className="mr-2 h-5 w-5 text-yellow-500" />Classificação Individual</CardTitle>
+                                            <CardDescription>
+                                                Vitórias, saldo de pontos e pontos pró de cada jogador, somando todas as parcerias.
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Table>
+                                                <TableHeader>
+                                                <TableRow>
+                                                    <TableHead className="p-2 w-8">#</TableHead>
+                                                    <TableHead className="p-2">Jogador</TableHead>
+                                                    <TableHead className="p-2 text-center">V</TableHead>
+                                                    <TableHead className="p-2 text-center">J</TableHead>
+                                                    <TableHead className="p-2 text-center">PP</TableHead>
+                                                    <TableHead className="p-2 text-center">SP</TableHead>
+                                                </TableRow>
+                                                </TableHeader>
+                                                <TableBody>
+                                                {playerStandings.map((standing, index) => (
+                                                    <TableRow key={standing.player}>
+                                                    <TableCell className="p-2 text-muted-foreground">{index + 1}</TableCell>
+                                                    <TableCell className="p-2 font-medium">{standing.player}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.wins}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.played}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.pointsWon}</TableCell>
+                                                    <TableCell className="p-2 text-center">{standing.pointDifference > 0 ? `+${standing.pointDifference}` : standing.pointDifference}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                                </TableBody>
+                                            </Table>
+                                        </CardContent>
+                                    </Card>
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center"><Swords className="mr-2 h-5 w-5 text-primary" />Rodadas</CardTitle>
+                                            <CardDescription>
+                                                As duplas mudam a cada rodada.
+                                                {kingOfTheBeachRests.map(rest => ` Folga na ${rest.round}ª rodada: ${rest.players.join(', ')}.`).join('')}
+                                            </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                            <Bracket playoffs={playoffs as PlayoffBracket} />
+                                        </CardContent>
+                                    </Card>
+                                </div>
+                            )}
+
+                            {formValues.tournamentType === 'groups' && playoffs && (
+                                <div className="space-y-6">
+                                    {Object.keys(finalPlayoffs).length > 0 && <Card>
+                                        <CardHeader>
+                                        <CardTitle className="flex items-center"><Trophy className="mr-2 h-5 w-5 text-primary" />Playoffs - Mata-Mata</CardTitle>
+                                        <CardDescription>
+                                            Chaveamento gerado com base na classificação dos grupos.
+                                        </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                        <Bracket playoffs={finalPlayoffs} bracketKey="playoffs" />
+                                        </CardContent>
+                                    </Card>}
+                                    {Object.keys(consolationBracket).length > 0 && <Card>
+                                        <CardHeader>
+                                        <CardTitle className="flex items-center"><Trophy className="mr-2 h-5 w-5 text-slate-400" />Taça Prata</CardTitle>
+                                        <CardDescription>
+                                            Mata-mata de consolação com as duplas que não se classificaram nos grupos.
+                                        </CardDescription>
+                                        </CardHeader>
+                                        <CardContent>
+                                        <Bracket playoffs={consolationBracket} bracketKey="consolation" />
+                                        </CardContent>
+                                    </Card>}
+                                </div>
                             )}
                         </div>
                        
@@ -9,8 +9,10 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { Loader2, Settings, Trash2, Download } from "lucide-react"
 
 import { getTournaments, saveGlobalSettings } from "@/app/actions"
+import { useEventId } from "@/hooks/use-event"
+import { useAuth } from "@/context/AuthContext"
 import type { GlobalSettings as GlobalSettingsType, TournamentsState, CategoryData } from "@/lib/types"
-import { globalSettingsSchema } from "@/lib/types"
+import { globalSettingsSchema, isCategoryKey } from "@/lib/types"
 import { useToast } from "@/hooks/use-toast"
 import Papa from "papaparse"
 
@@ -32,6 +34,8 @@ export function GlobalSettings() {
   const [isSaving, setIsSaving] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const { toast } = useToast()
+  const eventId = useEventId()
+  const { expireSession } = useAuth()
 
   const globalSettingsForm = useFormGlobal<GlobalSettingsType>({
     resolver: zodResolver(globalSettingsSchema),
@@ -47,7 +51,7 @@ export function GlobalSettings() {
   useEffect(() => {
     const fetchInitialData = async () => {
       try {
-        const savedTournaments = await getTournaments();
+        const savedTournaments = await getTournaments(eventId);
         if (savedTournaments._globalSettings) {
             globalSettingsForm.reset(savedTournaments._globalSettings);
         }
@@ -63,7 +67,7 @@ export function GlobalSettings() {
       }
     };
     fetchInitialData();
-  }, [globalSettingsForm, toast]);
+  }, [eventId, globalSettingsForm, toast]);
 
 
    const { fields, append, remove } = useFieldArray({
@@ -73,7 +77,8 @@ export function GlobalSettings() {
 
   const handleSaveGlobalSettings = async (values: GlobalSettingsType) => {
     setIsSaving(true);
-    const result = await saveGlobalSettings(values);
+    const result = await saveGlobalSettings(eventId, values);
+    if (result.unauthorized) expireSession();
     if(result.success) {
         toast({
             title: "Configurações Salvas!",
@@ -91,7 +96,7 @@ export function GlobalSettings() {
   
   const handleExportParameters = async () => {
     try {
-        const tournaments = await getTournaments();
+        const tournaments = await getTournaments(eventId);
         const dataToExport = [];
 
         // Global settings
@@ -123,7 +128,7 @@ export function GlobalSettings() {
 
         // Category settings
         for (const categoryName in tournaments) {
-            if (categoryName === '_globalSettings') continue;
+            if (!isCategoryKey(categoryName)) continue;
             const category = tournaments[categoryName] as CategoryData;
             const formValues = category.formValues;
             
@@ -15,10 +15,12 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { SidebarTrigger } from "@/components/ui/sidebar"
 import { useAuth } from "@/context/AuthContext";
+import { eventHref, useEventId } from "@/hooks/use-event";
 import { Lock } from "lucide-react";
 
 export function Header() {
   const { isAuthenticated, logout } = useAuth();
+  const eventId = useEventId();
 
   return (
     <header className="sticky top-0 z-10 flex h-14 items-center gap-4 border-b bg-background px-4 sm:px-6">
@@ -47,7 +49,7 @@ export function Header() {
         </DropdownMenu>
       ) : (
          <Button asChild variant="outline">
-            <Link href="/admin">
+            <Link href={eventId ? eventHref(eventId, "/admin") : "/admin/events"}>
               <Lock className="mr-2 h-4 w-4" />
               Login
             </Link>
@@ -9,30 +9,109 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
+import type { SetupFormValues } from '@/lib/types';
+
+// First run: no admin account exists yet, so the first one is created here (always a global admin)
+function SetupForm() {
+  const [values, setValues] = useState<SetupFormValues>({ username: '', name: '', password: '', setupToken: '' });
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { setup, setupTokenRequired } = useAuth();
+
+  const setField = (field: keyof SetupFormValues) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (values.password !== confirmation) {
+      setError('As senhas não conferem.');
+      return;
+    }
+    setIsSaving(true);
+    const result = await setup(values);
+    if (!result.success) setError(result.error || 'Não foi possível concluir a configuração.');
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={handleSetup}>
+          <CardHeader>
+            <CardTitle>Configuração Inicial</CardTitle>
+            <CardDescription>
+              Nenhum administrador foi configurado ainda. Crie a primeira conta, com uma senha forte, para liberar a administração.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {setupTokenRequired && (
+              <div className="space-y-2">
+                <Label htmlFor="setup-token">Senha de instalação (ADMIN_PASSWORD)</Label>
+                <Input id="setup-token" type="password" value={values.setupToken} onChange={setField('setupToken')} required />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="setup-username">Usuário</Label>
+              <Input id="setup-username" autoComplete="username" value={values.username} onChange={setField('username')} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-name">Nome</Label>
+              <Input id="setup-name" value={values.name} onChange={setField('name')} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-password">Senha</Label>
+              <Input id="setup-password" type="password" autoComplete="new-password" value={values.password} onChange={setField('password')} placeholder="Pelo menos 8 caracteres" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-confirmation">Confirme a senha</Label>
+              <Input id="setup-confirmation" type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} required />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar conta e entrar
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
 
 export function LoginPage() {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoggingIn, setIsLoggingIn] = useState(false);
-  const { login } = useAuth();
+  const { login, sessionExpired, setupRequired } = useAuth();
   const { toast } = useToast();
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoggingIn(true);
-    const success = await login(password);
-    if (!success) {
-      setError('Senha incorreta. Tente novamente.');
+    const result = await login(username, password);
+    if (!result.success) {
+      // Wrong credentials, or the server asking to wait after too many failures
+      const message = result.error || 'Usuário ou senha incorretos.';
+      setError(message);
        toast({
         variant: "destructive",
         title: "Falha no Login",
-        description: "A senha inserida está incorreta.",
+        description: message,
       });
     }
     setIsLoggingIn(false);
   };
 
+  if (setupRequired) {
+    return <SetupForm />;
+  }
+
   return (
     <div className="flex items-center justify-center h-full">
       <Card className="w-full max-w-sm">
@@ -40,10 +119,22 @@ export function LoginPage() {
           <CardHeader>
             <CardTitle>Acesso Restrito</CardTitle>
             <CardDescription>
-              Insira a senha de administrador para continuar.
+              {sessionExpired
+                ? "Sua sessão expirou. Entre com o seu usuário e senha para continuar."
+                : "Entre com o seu usuário e senha de administrador para continuar."}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Usuário</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="password">Senha</Label>
               <Input
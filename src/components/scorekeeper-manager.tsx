@@ -0,0 +1,204 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect, useCallback } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Loader2, ClipboardPen, Trash2 } from "lucide-react"
+
+import { addScorekeeper, deleteScorekeeper, getScorekeepers, getTournaments } from "@/app/actions"
+import { eventHref, useEventId } from "@/hooks/use-event"
+import { useAuth } from "@/context/AuthContext"
+import type { ScorekeeperInfo } from "@/lib/scorekeepers"
+import { scorekeeperFormSchema, type ScorekeeperFormValues } from "@/lib/types"
+import { useToast } from "@/hooks/use-toast"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Form,
+  FormControl,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormField
+} from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+// Scorekeepers (mesários) of the event: who may enter scores on the scorekeeper page, and for which courts.
+// The access code is shown only while typing it; the server keeps just its hash.
+export function ScorekeeperManager() {
+  const [scorekeepers, setScorekeepers] = useState<ScorekeeperInfo[]>([]);
+  const [courts, setCourts] = useState<string[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast()
+  const eventId = useEventId()
+  const { expireSession } = useAuth()
+
+  const form = useForm<ScorekeeperFormValues>({
+    resolver: zodResolver(scorekeeperFormSchema),
+    defaultValues: { name: "", code: "", courts: [] },
+  });
+
+  const loadScorekeepers = useCallback(async () => {
+    try {
+      const [result, savedTournaments] = await Promise.all([getScorekeepers(eventId), getTournaments(eventId)]);
+      if (result.unauthorized) {
+        expireSession();
+        return;
+      }
+      setScorekeepers(result.scorekeepers);
+      setCourts(savedTournaments._globalSettings?.courts.map(c => c.name) ?? []);
+    } catch (error) {
+      console.error("Failed to load scorekeepers", error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, [eventId, expireSession]);
+
+  useEffect(() => {
+    loadScorekeepers();
+  }, [loadScorekeepers]);
+
+  const handleAdd = async (values: ScorekeeperFormValues) => {
+    setIsSaving(true);
+    const result = await addScorekeeper(eventId, values);
+    setIsSaving(false);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({ title: "Mesário cadastrado!", description: `Passe o código para ${values.name}; ele não pode ser consultado depois.` });
+      form.reset({ name: "", code: "", courts: [] });
+      await loadScorekeepers();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao cadastrar mesário", description: result.error });
+    }
+  };
+
+  const handleDelete = async (scorekeeper: ScorekeeperInfo) => {
+    const result = await deleteScorekeeper(eventId, scorekeeper.id);
+    if (result.unauthorized) expireSession();
+    if (result.success) {
+      toast({ title: "Mesário removido", description: `${scorekeeper.name} não pode mais lançar placares.` });
+      await loadScorekeepers();
+    } else {
+      toast({ variant: "destructive", title: "Erro ao remover mesário", description: result.error });
+    }
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardPen className="h-5 w-5" />
+          Mesários
+        </CardTitle>
+        <CardDescription>
+          Mesários entram em <a className="underline" href={eventHref(eventId, '/placar')}>Mesa de Placar</a> com o próprio código e só lançam placares dos jogos das quadras atribuídas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {scorekeepers.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Quadras</TableHead>
+                <TableHead className="w-[1%]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scorekeepers.map(scorekeeper => (
+                <TableRow key={scorekeeper.id}>
+                  <TableCell className="font-medium">{scorekeeper.name}</TableCell>
+                  <TableCell>
+                    {scorekeeper.courts.map(court => (
+                      <span key={court} className={courts.includes(court) ? undefined : "text-muted-foreground line-through"}>
+                        {court}{' '}
+                      </span>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(scorekeeper)} aria-label={`Remover ${scorekeeper.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleAdd)} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Mesa da Quadra 1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código de acesso</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="courts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quadras</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {courts.map(court => (
+                      <label key={court} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(court)}
+                          onCheckedChange={checked =>
+                            field.onChange(checked ? [...field.value, court] : field.value.filter(c => c !== court))
+                          }
+                        />
+                        {court}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cadastrar Mesário
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,23 +11,37 @@ import {
   SidebarSeparator,
 } from "@/components/ui/sidebar"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { LayoutGrid, Users, Trophy, Loader2, Swords, Home, Settings, PlusCircle, Lock, CalendarClock } from "lucide-react"
+import { LayoutGrid, Users, Trophy, Loader2, Swords, Home, Settings, PlusCircle, Lock, CalendarClock, History, Camera, CalendarDays, ClipboardPen, UserCog } from "lucide-react"
 import { usePathname } from 'next/navigation'
 import Link from 'next/link'
-import { getTournaments } from "@/app/actions"
-import type { TournamentsState } from "@/lib/types"
+import { getEventInfo, getTournaments } from "@/app/actions"
+import { eventHref, useEventId } from "@/hooks/use-event"
+import type { EventMeta } from "@/lib/events"
+import { isCategoryKey, type TournamentsState } from "@/lib/types"
 import { useAuth } from "@/context/AuthContext"
 
 export function SidebarNav() {
   const pathname = usePathname();
-  const [tournaments, setTournaments] = React.useState<TournamentsState>({});
+  const eventId = useEventId();
+  const [tournaments, setTournaments] = React.useState<Partial<TournamentsState>>({});
+  const [event, setEvent] = React.useState<EventMeta | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isGlobalAdmin } = useAuth();
+
+  // Links inside the current event
+  const href = (path: string) => eventHref(eventId, path);
 
   React.useEffect(() => {
+    if (!eventId) {
+      setEvent(null);
+      setIsLoading(false);
+      return;
+    }
+
     const loadTournaments = async () => {
       try {
-        const savedTournaments = await getTournaments();
+        const [info, savedTournaments] = await Promise.all([getEventInfo(eventId), getTournaments(eventId)]);
+        setEvent(info);
         if (savedTournaments) {
           setTournaments(savedTournaments);
         }
@@ -43,9 +57,9 @@ export function SidebarNav() {
     const intervalId = setInterval(loadTournaments, 5000); 
 
     return () => clearInterval(intervalId);
-  }, []);
+  }, [eventId]);
 
-  const categories = Object.keys(tournaments).filter(k => k !== '_globalSettings');
+  const categories = Object.keys(tournaments).filter(isCategoryKey);
 
   return (
     <>
@@ -54,7 +68,7 @@ export function SidebarNav() {
             <div className="p-1.5 rounded-lg bg-primary text-primary-foreground">
                 <Trophy className="h-6 w-6" />
             </div>
-            <h2 className="text-lg font-semibold tracking-tight">Campeonato Amigos do Peri</h2>
+            <h2 className="text-lg font-semibold tracking-tight">{event?.name ?? "Campeonatos de Futevôlei"}</h2>
         </div>
       </SidebarHeader>
       <SidebarContent>
@@ -62,67 +76,92 @@ export function SidebarNav() {
             <SidebarMenu>
                <SidebarMenuItem>
                 <Link href="/" passHref>
-                    <SidebarMenuButton isActive={pathname === '/'} tooltip="Página Inicial">
-                      <Home />
-                      <span>Página Inicial</span>
-                    </SidebarMenuButton>
-                </Link>
-              </SidebarMenuItem>
-               <SidebarMenuItem>
-                <Link href="/teams" passHref>
-                    <SidebarMenuButton isActive={pathname === '/teams'} tooltip="Duplas">
-                        <Users/>
-                        <span>Duplas</span>
-                    </SidebarMenuButton>
-                </Link>
-              </SidebarMenuItem>
-               <SidebarMenuItem>
-                <Link href="/matches" passHref>
-                    <SidebarMenuButton isActive={pathname === '/matches'} tooltip="Jogos">
-                        <Swords/>
-                        <span>Jogos</span>
-                    </SidebarMenuButton>
-                </Link>
-              </SidebarMenuItem>
-               <SidebarMenuItem>
-                <Link href="/schedule" passHref>
-                    <SidebarMenuButton isActive={pathname === '/schedule'} tooltip="Horários e Quadras">
-                        <CalendarClock/>
-                        <span>Horários e Quadras</span>
+                    <SidebarMenuButton isActive={pathname === '/'} tooltip="Eventos">
+                      <CalendarDays />
+                      <span>Eventos</span>
                     </SidebarMenuButton>
                 </Link>
               </SidebarMenuItem>
             </SidebarMenu>
+
+            {eventId && (
+              <>
+                <SidebarSeparator className="my-4" />
+
+                <SidebarMenu>
+                   <SidebarMenuItem>
+                    <Link href={href('')} passHref>
+                        <SidebarMenuButton isActive={pathname === href('')} tooltip="Página Inicial">
+                          <Home />
+                          <span>Página Inicial</span>
+                        </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                   <SidebarMenuItem>
+                    <Link href={href('/teams')} passHref>
+                        <SidebarMenuButton isActive={pathname === href('/teams')} tooltip="Duplas">
+                            <Users/>
+                            <span>Duplas</span>
+                        </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                   <SidebarMenuItem>
+                    <Link href={href('/matches')} passHref>
+                        <SidebarMenuButton isActive={pathname === href('/matches')} tooltip="Jogos">
+                            <Swords/>
+                            <span>Jogos</span>
+                        </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                   <SidebarMenuItem>
+                    <Link href={href('/schedule')} passHref>
+                        <SidebarMenuButton isActive={pathname === href('/schedule')} tooltip="Horários e Quadras">
+                            <CalendarClock/>
+                            <span>Horários e Quadras</span>
+                        </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                   <SidebarMenuItem>
+                    <Link href={href('/placar')} passHref>
+                        <SidebarMenuButton isActive={pathname === href('/placar')} tooltip="Mesa de Placar">
+                            <ClipboardPen/>
+                            <span>Mesa de Placar</span>
+                        </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                </SidebarMenu>
             
-            <SidebarSeparator className="my-4" />
+                <SidebarSeparator className="my-4" />
             
-            <SidebarMenu>
-                <SidebarMenuItem>
-                  <div className="px-2 mb-2 text-xs font-semibold text-muted-foreground tracking-wider">CATEGORIAS</div>
-                </SidebarMenuItem>
-                {isLoading ? (
+                <SidebarMenu>
                     <SidebarMenuItem>
-                        <div className="p-2 flex items-center justify-center">
-                            <Loader2 className="h-5 w-5 animate-spin" />
-                        </div>
+                      <div className="px-2 mb-2 text-xs font-semibold text-muted-foreground tracking-wider">CATEGORIAS</div>
                     </SidebarMenuItem>
-                ) : categories.length > 0 ? (
-                    categories.map((category) => (
-                         <SidebarMenuItem key={category}>
-                            <Link href={`/tournament/${encodeURIComponent(category)}`} passHref>
-                                <SidebarMenuButton isActive={pathname === `/tournament/${encodeURIComponent(category)}`} tooltip={category}>
-                                    <Trophy/>
-                                    <span>{category}</span>
-                                </SidebarMenuButton>
-                            </Link>
+                    {isLoading ? (
+                        <SidebarMenuItem>
+                            <div className="p-2 flex items-center justify-center">
+                                <Loader2 className="h-5 w-5 animate-spin" />
+                            </div>
                         </SidebarMenuItem>
-                    ))
-                ) : (
-                    <SidebarMenuItem>
-                      <div className="px-2 text-xs text-muted-foreground">Nenhuma categoria gerada.</div>
-                    </SidebarMenuItem>
-                )}
-            </SidebarMenu>
+                    ) : categories.length > 0 ? (
+                        categories.map((category) => (
+                             <SidebarMenuItem key={category}>
+                                <Link href={href(`/tournament/${encodeURIComponent(category)}`)} passHref>
+                                    <SidebarMenuButton isActive={pathname === href(`/tournament/${encodeURIComponent(category)}`)} tooltip={category}>
+                                        <Trophy/>
+                                        <span>{category}</span>
+                                    </SidebarMenuButton>
+                                </Link>
+                            </SidebarMenuItem>
+                        ))
+                    ) : (
+                        <SidebarMenuItem>
+                          <div className="px-2 text-xs text-muted-foreground">Nenhuma categoria gerada.</div>
+                        </SidebarMenuItem>
+                    )}
+                </SidebarMenu>
+              </>
+            )}
 
             {isAuthenticated && (
               <>
@@ -134,46 +173,96 @@ export function SidebarNav() {
                           <Lock className="h-3 w-3"/>
                       </div>
                   </SidebarMenuItem>
-                  <SidebarMenuItem>
-                      <Link href="/admin/settings" passHref>
-                          <SidebarMenuButton isActive={pathname === '/admin/settings'} tooltip="Configurações do Campeonato">
-                              <Settings />
-                              <span>Configurações do Campeonato</span>
-                          </SidebarMenuButton>
-                      </Link>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                      <Link href="/admin" passHref>
-                          <SidebarMenuButton isActive={pathname === '/admin'} tooltip="Criar/Atualizar Categoria">
-                              <PlusCircle />
-                              <span>Criar/Atualizar Categoria</span>
-                          </SidebarMenuButton>
-                      </Link>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                      <Link href="/admin/teams" passHref>
-                          <SidebarMenuButton isActive={pathname === '/admin/teams'} tooltip="Gerenciador de Duplas">
-                              <Users/>
-                              <span>Gerenciador de Duplas</span>
-                          </SidebarMenuButton>
-                      </Link>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                      <Link href="/admin/gerenciador" passHref>
-                          <SidebarMenuButton isActive={pathname === '/admin/gerenciador'} tooltip="Gerenciador de Resultados">
-                              <LayoutGrid />
-                              <span>Gerenciador de Resultados</span>
-                          </SidebarMenuButton>
-                      </Link>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                      <Link href="/admin/matches" passHref>
-                          <SidebarMenuButton isActive={pathname === '/admin/matches'} tooltip="Gerenciador de Jogos">
-                              <Swords />
-                              <span>Gerenciador de Jogos</span>
-                          </SidebarMenuButton>
-                      </Link>
-                  </SidebarMenuItem>
+                  {isGlobalAdmin && (
+                    <>
+                    <SidebarMenuItem>
+                        <Link href="/admin/events" passHref>
+                            <SidebarMenuButton isActive={pathname === '/admin/events'} tooltip="Gerenciar Eventos">
+                                <CalendarDays />
+                                <span>Gerenciar Eventos</span>
+                            </SidebarMenuButton>
+                        </Link>
+                    </SidebarMenuItem>
+                    <SidebarMenuItem>
+                        <Link href="/admin/users" passHref>
+                            <SidebarMenuButton isActive={pathname === '/admin/users'} tooltip="Usuários">
+                                <UserCog />
+                                <span>Usuários</span>
+                            </SidebarMenuButton>
+                        </Link>
+                    </SidebarMenuItem>
+                    </>
+                  )}
+                  {eventId && (
+                    <>
+                      {isGlobalAdmin && (
+                        <SidebarMenuItem>
+                            <Link href={href('/admin/settings')} passHref>
+                                <SidebarMenuButton isActive={pathname === href('/admin/settings')} tooltip="Configurações do Campeonato">
+                                    <Settings />
+                                    <span>Configurações do Campeonato</span>
+                                </SidebarMenuButton>
+                            </Link>
+                        </SidebarMenuItem>
+                      )}
+                      {isGlobalAdmin && (
+                        <SidebarMenuItem>
+                            <Link href={href('/admin')} passHref>
+                                <SidebarMenuButton isActive={pathname === href('/admin')} tooltip="Criar/Atualizar Categoria">
+                                    <PlusCircle />
+                                    <span>Criar/Atualizar Categoria</span>
+                                </SidebarMenuButton>
+                            </Link>
+                        </SidebarMenuItem>
+                      )}
+                      <SidebarMenuItem>
+                          <Link href={href('/admin/teams')} passHref>
+                              <SidebarMenuButton isActive={pathname === href('/admin/teams')} tooltip="Gerenciador de Duplas">
+                                  <Users/>
+                                  <span>Gerenciador de Duplas</span>
+                              </SidebarMenuButton>
+                          </Link>
+                      </SidebarMenuItem>
+                      <SidebarMenuItem>
+                          <Link href={href('/admin/gerenciador')} passHref>
+                              <SidebarMenuButton isActive={pathname === href('/admin/gerenciador')} tooltip="Gerenciador de Resultados">
+                                  <LayoutGrid />
+                                  <span>Gerenciador de Resultados</span>
+                              </SidebarMenuButton>
+                          </Link>
+                      </SidebarMenuItem>
+                      {isGlobalAdmin && (
+                        <SidebarMenuItem>
+                            <Link href={href('/admin/matches')} passHref>
+                                <SidebarMenuButton isActive={pathname === href('/admin/matches')} tooltip="Gerenciador de Jogos">
+                                    <Swords />
+                                    <span>Gerenciador de Jogos</span>
+                                </SidebarMenuButton>
+                            </Link>
+                        </SidebarMenuItem>
+                      )}
+                      {isGlobalAdmin && (
+                        <SidebarMenuItem>
+                            <Link href={href('/admin/log')} passHref>
+                                <SidebarMenuButton isActive={pathname === href('/admin/log')} tooltip="Log de Alterações">
+                                    <History />
+                                    <span>Log de Alterações</span>
+                                </SidebarMenuButton>
+                            </Link>
+                        </SidebarMenuItem>
+                      )}
+                      {isGlobalAdmin && (
+                        <SidebarMenuItem>
+                            <Link href={href('/admin/snapshots')} passHref>
+                                <SidebarMenuButton isActive={pathname === href('/admin/snapshots')} tooltip="Snapshots">
+                                    <Camera />
+                                    <span>Snapshots</span>
+                                </SidebarMenuButton>
+                            </Link>
+                        </SidebarMenuItem>
+                      )}
+                    </>
+                  )}
                 </SidebarMenu>
               </>
             )}
@@ -0,0 +1,30 @@
+"use client"
+
+import * as React from "react"
+import type { StateChange } from "@/lib/event-log"
+
+const MAX_VISIBLE_CHANGES = 50;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return "—";
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+// Lista compacta de alterações: caminho, valor antes (vermelho) e depois (verde)
+export function StateChangeList({ changes }: { changes: StateChange[] }) {
+  return (
+    <div className="flex flex-col gap-1 text-xs font-mono">
+      {changes.slice(0, MAX_VISIBLE_CHANGES).map((change, i) => (
+        <div key={i} className="grid grid-cols-[minmax(0,2fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2">
+          <span className="truncate" title={change.path.join(' › ')}>{change.path.join(' › ')}</span>
+          <span className="truncate text-destructive" title={formatValue(change.before)}>{formatValue(change.before)}</span>
+          <span className="truncate text-green-700" title={formatValue(change.after)}>{formatValue(change.after)}</span>
+        </div>
+      ))}
+      {changes.length > MAX_VISIBLE_CHANGES && (
+        <span className="text-muted-foreground">... e mais {changes.length - MAX_VISIBLE_CHANGES} alterações.</span>
+      )}
+    </div>
+  );
+}
@@ -9,8 +9,13 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { Loader2 } from "lucide-react"
 
 import { getTournaments, regenerateCategory } from "@/app/actions"
-import type { TournamentFormValues, TournamentsState } from "@/lib/types"
-import { formSchema } from "@/lib/types"
+import { useEventId } from "@/hooks/use-event"
+import { useAuth } from "@/context/AuthContext"
+import type { CategoryData, TournamentFormValues, TournamentsState } from "@/lib/types"
+import { formSchema, isCategoryKey } from "@/lib/types"
+import { emptyRegistry } from "@/lib/registry"
+import { nextPowerOfTwo } from "@/lib/standings"
+import { defaultGroupPairings, formatGroupPairings, groupSlotCode } from "@/lib/seeding"
 import { useToast } from "@/hooks/use-toast"
 
 import { Button } from "@/components/ui/button"
@@ -33,15 +38,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Separator } from "./ui/separator"
 
 
+// Second cell of a pairing matrix row without an opponent
+const BYE = "bye";
+
 const defaultFormValues: TournamentFormValues = {
   category: "",
   tournamentType: "groups",
   numberOfTeams: 0,
   numberOfGroups: 0,
   teamsPerGroupToAdvance: 2,
+  swissRounds: 5,
+  swissCut: 8,
+  legs: 1,
   teams: "",
   groupFormationStrategy: "order",
   includeThirdPlace: true,
+  placementMatches: false,
+  consolationBracket: false,
+  separations: "",
+  pairings: "",
   startTime: "",
   playoffPriority: 10,
   quarterFinalsStartTime: "",
@@ -52,9 +67,11 @@ const defaultFormValues: TournamentFormValues = {
 
 export function TournamentCreator() {
   const [isLoading, setIsLoading] = useState(false)
-  const [tournaments, setTournaments] = useState<TournamentsState>({ _globalSettings: { startTime: "08:00", estimatedMatchDuration: 20, courts: [{ name: 'Quadra 1', slots: [{startTime: "09:00", endTime: "18:00"}] }] } })
+  const [tournaments, setTournaments] = useState<TournamentsState>({ _globalSettings: { startTime: "08:00", estimatedMatchDuration: 20, endTime: "18:00", courts: [{ name: 'Quadra 1', slots: [{startTime: "09:00", endTime: "18:00"}] }] }, _registry: emptyRegistry() })
   const [isLoaded, setIsLoaded] = useState(false);
   const { toast } = useToast()
+  const eventId = useEventId()
+  const { expireSession } = useAuth()
 
   const form = useForm<TournamentFormValues>({
     resolver: zodResolver(formSchema),
@@ -65,7 +82,7 @@ export function TournamentCreator() {
   useEffect(() => {
     const fetchInitialData = async () => {
       try {
-        const savedTournaments = await getTournaments();
+        const savedTournaments = await getTournaments(eventId);
         setTournaments(savedTournaments);
       } catch (error) {
         console.error("Failed to load tournaments from DB", error);
@@ -79,19 +96,29 @@ export function TournamentCreator() {
       }
     };
     fetchInitialData();
-  }, [toast]);
+  }, [eventId, toast]);
   
   const tournamentType = form.watch("tournamentType");
   const teamsList = form.watch("teams");
   const numberOfTeams = form.watch("numberOfTeams");
+  const isIndividual = tournamentType === "kingOfTheBeach";
   const numberOfGroups = form.watch("numberOfGroups");
   const teamsPerGroupToAdvance = form.watch("teamsPerGroupToAdvance");
+  const swissCut = form.watch("swissCut");
+  const groupFormationStrategy = form.watch("groupFormationStrategy");
 
 
   const playoffPhases = useMemo(() => {
     let qualifiers = 0;
     if (tournamentType === "groups") {
-      qualifiers = (numberOfGroups || 0) * (teamsPerGroupToAdvance || 0);
+      // Padded with byes up to the next power of 2
+      qualifiers = nextPowerOfTwo((numberOfGroups || 0) * (teamsPerGroupToAdvance || 0));
+    } else if (tournamentType === "swiss") {
+      qualifiers = swissCut || 0;
+    } else if (tournamentType === "league" || tournamentType === "kingOfTheBeach") {
+      return {};
+    } else if (tournamentType === "singleElimination") {
+      qualifiers = nextPowerOfTwo(numberOfTeams);
     } else {
       qualifiers = numberOfTeams;
     }
@@ -104,7 +131,7 @@ export function TournamentCreator() {
       hasSemiFinals: qualifiers >= 4,
       hasFinal: qualifiers >= 2,
     };
-  }, [tournamentType, numberOfTeams, numberOfGroups, teamsPerGroupToAdvance]);
+  }, [tournamentType, numberOfTeams, numberOfGroups, teamsPerGroupToAdvance, swissCut]);
 
 
   useEffect(() => {
@@ -115,7 +142,7 @@ export function TournamentCreator() {
 
   const handleLoadCategory = (categoryName: string) => {
     if (categoryName) {
-        const existingCategoryData = tournaments[categoryName];
+        const existingCategoryData = tournaments[categoryName] as CategoryData | undefined;
         if (existingCategoryData) {
             form.reset({
                 ...defaultFormValues,
@@ -135,6 +162,11 @@ export function TournamentCreator() {
   useEffect(() => {
     if (tournamentType === 'doubleElimination') {
       form.setValue('includeThirdPlace', false, { shouldValidate: true });
+      form.setValue('placementMatches', false, { shouldValidate: true });
+    }
+    // Pots only apply to groups
+    if (tournamentType !== 'groups' && form.getValues('groupFormationStrategy') === 'pots') {
+      form.setValue('groupFormationStrategy', 'random', { shouldValidate: true });
     }
   }, [form, tournamentType]);
     
@@ -144,7 +176,8 @@ export function TournamentCreator() {
     const isUpdate = !!tournaments[categoryName];
     
     // The regenerateCategory action now handles both creation and update without scheduling.
-    const result = await regenerateCategory(categoryName, values);
+    const result = await regenerateCategory(eventId, categoryName, values);
+    if (result.unauthorized) expireSession();
 
     if (result.success) {
       toast({
@@ -152,7 +185,7 @@ export function TournamentCreator() {
         description: `A categoria "${categoryName}" foi ${isUpdate ? 'atualizada' : 'criada'} com sucesso, sem agendamento de horários.`,
       });
       // Refresh tournaments state after saving
-      const savedTournaments = await getTournaments();
+      const savedTournaments = await getTournaments(eventId);
       setTournaments(savedTournaments);
     } else {
        toast({
@@ -174,7 +207,7 @@ export function TournamentCreator() {
     );
   }
   
-  const existingCategories = Object.keys(tournaments).filter(k => k !== '_globalSettings');
+  const existingCategories = Object.keys(tournaments).filter(isCategoryKey);
 
   return (
     <Card>
@@ -247,6 +280,24 @@ export function TournamentCreator() {
                             Dupla Eliminação
                             </Label>
                         </div>
+                        <div className="flex items-center space-x-3 space-y-0">
+                            <RadioGroupItem value="swiss" id="swiss"/>
+                            <Label htmlFor="swiss" className="font-normal">
+                            Sistema Suíço (+ Mata-Mata opcional)
+                            </Label>
+                        </div>
+                        <div className="flex items-center space-x-3 space-y-0">
+                            <RadioGroupItem value="league" id="league"/>
+                            <Label htmlFor="league" className="font-normal">
+                            Liga (Pontos Corridos, sem Mata-Mata)
+                            </Label>
+                        </div>
+                        <div className="flex items-center space-x-3 space-y-0">
+                            <RadioGroupItem value="kingOfTheBeach" id="kingOfTheBeach"/>
+                            <Label htmlFor="kingOfTheBeach" className="font-normal">
+                            Rei/Rainha da Praia (Individual, Parceiros Rotativos)
+                            </Label>
+                        </div>
                         </RadioGroup>
                     </FormControl>
                     <FormMessage />
@@ -259,7 +310,7 @@ export function TournamentCreator() {
                 name="numberOfTeams"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Nº de Duplas</FormLabel>
+                    <FormLabel>{isIndividual ? "Nº de Jogadores" : "Nº de Duplas"}</FormLabel>
                     <FormControl>
                       <Input type="number" {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} disabled />
                     </FormControl>
@@ -299,21 +350,159 @@ export function TournamentCreator() {
                 </div>
             )}
            
+            {tournamentType === "groups" && (numberOfGroups || 0) * (teamsPerGroupToAdvance || 0) >= 2 && (numberOfGroups || 0) <= 26 && (
+                <FormField
+                    control={form.control}
+                    name="pairings"
+                    render={({ field }) => {
+                        const codes = Array.from({ length: teamsPerGroupToAdvance! }, (_, p) =>
+                            Array.from({ length: numberOfGroups! }, (_, group) => groupSlotCode({ group, position: p + 1 }))).flat();
+                        const rows = (field.value ?? '').split('\n').filter(line => line.trim()).map(line => line.split(/\s+x\s+/i).map(code => code.trim()));
+                        const setCell = (row: number, column: number, code: string) => {
+                            const next = rows.map(cells => [...cells]);
+                            next[row][column] = code === BYE ? '' : code;
+                            field.onChange(next.map(cells => cells.filter(Boolean).join(' x ')).join('\n'));
+                        };
+                        const restoreDefault = () => field.onChange(formatGroupPairings(defaultGroupPairings(numberOfGroups!, teamsPerGroupToAdvance!)));
+                        return (
+                        <FormItem>
+                            <FormLabel>Cruzamentos do Mata-Mata</FormLabel>
+                            {rows.length === 0 ? (
+                                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                                    <FormDescription>
+                                        Automático: primeiros colocados contra segundos de outros grupos, e duplas do mesmo grupo em lados opostos da chave.
+                                    </FormDescription>
+                                    <Button type="button" variant="outline" size="sm" onClick={restoreDefault}>Editar</Button>
+                                </div>
+                            ) : (
+                                <div className="space-y-2 rounded-lg border p-3">
+                                    {rows.map((cells, row) => (
+                                        <div key={row} className="grid grid-cols-[4rem_1fr_auto_1fr] items-center gap-2">
+                                            <span className="text-sm text-muted-foreground">Jogo {row + 1}</span>
+                                            <Select value={cells[0]} onValueChange={code => setCell(row, 0, code)}>
+                                                <SelectTrigger><SelectValue placeholder="-" /></SelectTrigger>
+                                                <SelectContent>
+                                                    {codes.map(code => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+                                                </SelectContent>
+                                            </Select>
+                                            <span className="text-sm text-muted-foreground">x</span>
+                                            <Select value={cells[1] || BYE} onValueChange={code => setCell(row, 1, code)}>
+                                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={BYE}>Folga</SelectItem>
+                                                    {codes.map(code => <SelectItem key={code} value={code}>{code}</SelectItem>)}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    ))}
+                                    <div className="flex gap-2 pt-2">
+                                        <Button type="button" variant="outline" size="sm" onClick={restoreDefault}>Restaurar padrão</Button>
+                                        <Button type="button" variant="ghost" size="sm" onClick={() => field.onChange('')}>Usar automático</Button>
+                                    </div>
+                                    <FormDescription>
+                                        1A é o 1º do grupo A, e cada classificado aparece uma vez. Na rodada seguinte, o vencedor do jogo 1 enfrenta o do último, o do jogo 2 o do penúltimo, e assim por diante.
+                                    </FormDescription>
+                                </div>
+                            )}
+                            <FormMessage />
+                        </FormItem>
+                        );
+                    }}
+                />
+            )}
+
+            {(tournamentType === "league" || tournamentType === "groups") && (
+                <FormField
+                    control={form.control}
+                    name="legs"
+                    render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>Nº de Turnos</FormLabel>
+                        <FormControl>
+                        <Input type="number" {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} />
+                        </FormControl>
+                        <FormDescription>
+                            {tournamentType === "league"
+                                ? "Quantas vezes cada dupla enfrenta cada outra (2 = turno e returno). A tabela final define o pódio."
+                                : "Quantas vezes cada dupla enfrenta as outras do seu grupo (2 = turno e returno), útil em grupos pequenos."}
+                        </FormDescription>
+                        <FormMessage />
+                    </FormItem>
+                    )}
+                />
+            )}
+
+            {isIndividual && (
+                <FormField
+                    control={form.control}
+                    name="kingOfTheBeachRounds"
+                    render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>Nº de Rodadas</FormLabel>
+                        <FormControl>
+                        <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(parseInt(e.target.value, 10) || undefined)} placeholder="Todas" />
+                        </FormControl>
+                        <FormDescription>
+                            Cada rodada forma novas parcerias. Em branco: todas as rodadas possíveis sem repetir parceiro.
+                        </FormDescription>
+                        <FormMessage />
+                    </FormItem>
+                    )}
+                />
+            )}
+
+            {tournamentType === "swiss" && (
+                <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                        control={form.control}
+                        name="swissRounds"
+                        render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Nº de Rodadas</FormLabel>
+                            <FormControl>
+                            <Input type="number" {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} />
+                            </FormControl>
+                            <FormDescription>
+                                Cada rodada é pareada quando a anterior termina.
+                            </FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="swissCut"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Classificados para o Mata-Mata</FormLabel>
+                            <FormControl>
+                                <Input type="number" {...field} onChange={e => field.onChange(parseInt(e.target.value, 10) || 0)} />
+                            </FormControl>
+                            <FormDescription>
+                                Os primeiros da classificação final. 0 = sem mata-mata.
+                            </FormDescription>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                        />
+                </div>
+            )}
+
             <FormField
               control={form.control}
               name="teams"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Duplas (uma por linha)</FormLabel>
+                  <FormLabel>{isIndividual ? "Jogadores (um por linha)" : "Duplas (uma por linha)"}</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Jogador A e Jogador B"
+                      placeholder={isIndividual ? "Jogador A" : "Jogador A e Jogador B"}
                       className="min-h-[120px] resize-y"
                       {...field}
                     />
                   </FormControl>
                   <FormDescription>
-                    Use o formato: Jogador1 e Jogador2
+                    {isIndividual ? "Um jogador por linha; as duplas mudam a cada rodada." : "Use o formato: Jogador1 e Jogador2"}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -434,13 +623,69 @@ export function TournamentCreator() {
                           Aleatório (Sorteio)
                         </Label>
                       </div>
+                      {tournamentType === "groups" && (
+                        <div className="flex items-center space-x-3 space-y-0">
+                            <RadioGroupItem value="pots" id="pots"/>
+                          <Label htmlFor="pots" className="font-normal">
+                            Potes (Sorteio dentro de cada pote)
+                          </Label>
+                        </div>
+                      )}
                     </RadioGroup>
                   </FormControl>
+                  {groupFormationStrategy === "pots" && (
+                    <FormDescription>
+                      Separe os potes na lista de duplas com uma linha em branco, do pote 1 (cabeças de chave) ao último. Cada grupo recebe uma dupla de cada pote, então cada pote precisa ter uma dupla por grupo (só o último pode ter menos).
+                    </FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {tournamentType === "groups" && (
+                <FormField
+                    control={form.control}
+                    name="separations"
+                    render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>Separações</FormLabel>
+                        <FormControl>
+                        <Textarea
+                            placeholder="Jogador A e Jogador B; Jogador C e Jogador D"
+                            className="min-h-[80px] resize-y"
+                            {...field}
+                            value={field.value ?? ''}
+                        />
+                        </FormControl>
+                        <FormDescription>
+                            Uma linha por conjunto de duplas (ou jogadores) que não podem cair no mesmo grupo, separadas por ";" — por exemplo, as duplas de um mesmo clube. Duplas com um jogador em comum já ficam separadas.
+                        </FormDescription>
+                        <FormMessage />
+                    </FormItem>
+                    )}
+                />
+            )}
+
+            {groupFormationStrategy !== "order" && (
+                <FormField
+                    control={form.control}
+                    name="drawSeed"
+                    render={({ field }) => (
+                    <FormItem>
+                        <FormLabel>Semente do Sorteio</FormLabel>
+                        <FormControl>
+                        <Input type="number" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))} placeholder="Novo sorteio" />
+                        </FormControl>
+                        <FormDescription>
+                            Gravada ao gerar a categoria: a mesma semente repete o mesmo sorteio. Deixe em branco para sortear de novo.
+                        </FormDescription>
+                        <FormMessage />
+                    </FormItem>
+                    )}
+                />
+            )}
+
             <FormField
               control={form.control}
               name="includeThirdPlace"
@@ -456,13 +701,58 @@ export function TournamentCreator() {
                     <Switch
                       checked={field.value}
                       onCheckedChange={field.onChange}
-                      disabled={tournamentType === 'doubleElimination'}
+                      disabled={tournamentType === 'doubleElimination' || tournamentType === 'league' || isIndividual}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="placementMatches"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <Label>Disputa de Todas as Colocações</Label>
+                    <FormDescription>
+                      Os eliminados de cada rodada do mata-mata jogam pelas colocações seguintes (5º a 8º, 9º a 16º...).
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={!!field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={tournamentType === 'doubleElimination' || tournamentType === 'league' || isIndividual}
                     />
                   </FormControl>
                 </FormItem>
               )}
             />
 
+            {tournamentType === "groups" && (
+                <FormField
+                  control={form.control}
+                  name="consolationBracket"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <Label>Taça Prata</Label>
+                        <FormDescription>
+                          Mata-mata de consolação para as duplas que não se classificarem nos grupos.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={!!field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+            )}
+
             <div className="flex flex-col gap-4">
                 <Button type="submit" disabled={isLoading} className="w-full">
                   {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -558,7 +558,7 @@ const SidebarMenuButton = React.forwardRef<
     },
     ref
   ) => {
-    const Comp = asChild ? Slot : href ? 'a' : 'button'
+    const Comp: React.ElementType = asChild ? Slot : href ? 'a' : 'button'
     const { isMobile, state } = useSidebar()
 
     const button = (
@@ -1,13 +1,30 @@
-
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { verifyPassword } from '@/app/actions';
+import { completeSetup, getSessionStatus, signIn, signOut } from '@/app/actions';
+import type { CategoryPermission, SetupFormValues } from '@/lib/types';
+
+// The signed-in admin account: a global admin, or the admin of some categories
+type AdminAccount = {
+  username: string;
+  global: boolean;
+  categories: CategoryPermission[];
+};
 
 type AuthContextType = {
   isAuthenticated: boolean;
-  login: (password: string) => Promise<boolean>;
+  account: AdminAccount | null;
+  isGlobalAdmin: boolean;
+  canManageCategory: (eventId: string, category: string) => boolean;
+  login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  // No admin account exists yet: the login screen becomes the first-run setup
+  setupRequired: boolean;
+  setupTokenRequired: boolean; // the setup asks for ADMIN_PASSWORD when it is set
+  setup: (values: SetupFormValues) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  // Called when an admin action answers `unauthorized`: the session cookie is gone or expired
+  expireSession: () => void;
+  sessionExpired: boolean;
   isLoading: boolean;
 };
 
@@ -15,46 +32,77 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [account, setAccount] = useState<AdminAccount | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [setupTokenRequired, setSetupTokenRequired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
-  useEffect(() => {
-    try {
-      const storedAuth = sessionStorage.getItem('isAuthenticated');
-      if (storedAuth === 'true') {
-        setIsAuthenticated(true);
-      }
-    } catch (error) {
-        console.error("Could not access sessionStorage:", error);
-    } finally {
-        setIsLoading(false);
-    }
+  const applyStatus = useCallback((status: Awaited<ReturnType<typeof getSessionStatus>>) => {
+    setIsAuthenticated(status.authenticated);
+    setSetupRequired(!!status.setupRequired);
+    setSetupTokenRequired(!!status.setupTokenRequired);
+    setExpiresAt(status.expiresAt ?? null);
+    setAccount(status.authenticated ? { username: status.username!, global: !!status.global, categories: status.categories ?? [] } : null);
   }, []);
 
-  const login = async (password: string): Promise<boolean> => {
-    const { success } = await verifyPassword(password);
-    if (success) {
+  // The session lives in an HTTP-only cookie, so ask the server whether it is still valid
+  useEffect(() => {
+    const checkSession = async () => {
       try {
-        sessionStorage.setItem('isAuthenticated', 'true');
+        applyStatus(await getSessionStatus());
       } catch (error) {
-        console.error("Could not access sessionStorage:", error);
+        console.error("Could not check the session:", error);
+      } finally {
+        setIsLoading(false);
       }
-      setIsAuthenticated(true);
-      return true;
-    }
-    return false;
+    };
+    checkSession();
+  }, [applyStatus]);
+
+  const expireSession = useCallback(() => {
+    setIsAuthenticated(false);
+    setAccount(null);
+    setExpiresAt(null);
+    setSessionExpired(true);
+  }, []);
+
+  // Show the login screen as soon as the session runs out instead of waiting for a failed action
+  useEffect(() => {
+    if (!isAuthenticated || !expiresAt) return;
+    const timeout = setTimeout(expireSession, Math.max(0, expiresAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [isAuthenticated, expiresAt, expireSession]);
+
+  // Both return the server's message on failure (wrong password, too many attempts, lockout)
+  const startAdminSession = async (result: { success: boolean; error?: string; setupRequired?: boolean }) => {
+    if (result.setupRequired) setSetupRequired(true);
+    if (!result.success) return { success: false, error: result.error };
+    // The account's permissions come with the session status
+    const status = await getSessionStatus();
+    applyStatus(status);
+    setSessionExpired(false);
+    return { success: status.authenticated };
   };
 
+  const login = async (username: string, password: string) => startAdminSession(await signIn(username, password));
+
+  const setup = async (values: SetupFormValues) => startAdminSession(await completeSetup(values));
+
   const logout = useCallback(() => {
-    try {
-      sessionStorage.removeItem('isAuthenticated');
-    } catch (error) {
-      console.error("Could not access sessionStorage:", error);
-    }
+    signOut().catch(error => console.error("Could not sign out:", error));
     setIsAuthenticated(false);
+    setAccount(null);
+    setExpiresAt(null);
   }, []);
 
+  // Only a hint for the UI: the server checks the permission again on every action
+  const canManageCategory = useCallback((eventId: string, category: string) =>
+    !!account && (account.global || account.categories.some(p => p.eventId === eventId && p.category === category)), [account]);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ isAuthenticated, account, isGlobalAdmin: !!account?.global, canManageCategory, login, setupRequired, setupTokenRequired, setup, logout, expireSession, sessionExpired, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
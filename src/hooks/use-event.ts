@@ -0,0 +1,13 @@
+"use client"
+
+import { useParams } from "next/navigation"
+
+// Id of the event in the current route (/e/[event]/...), or "" outside of one
+export function useEventId(): string {
+  const params = useParams<{ event?: string }>()
+  return params?.event ? decodeURIComponent(params.event) : ""
+}
+
+export function eventHref(eventId: string, path = ""): string {
+  return `/e/${encodeURIComponent(eventId)}${path}`
+}
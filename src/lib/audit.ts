@@ -0,0 +1,39 @@
+// src/lib/audit.ts
+import { getStorage } from './storage';
+
+// Registro de segurança da instalação: acesso e contas, fora dos eventos (o log de cada evento registra
+// as alterações nos dados). Só se acrescenta no fim.
+export const AUDIT_LOG_KEY = 'ftv:data:audit';
+
+export type AuditEventType =
+  | 'setup.completed'
+  | 'login.locked'
+  | 'user.created'
+  | 'user.updated'
+  | 'user.disabled'
+  | 'user.enabled'
+  | 'user.password-reset';
+
+export type AuditEntry = {
+  seq: number; // posição no registro
+  type: AuditEventType;
+  at: string; // ISO 8601
+  actor: string; // quem fez; 'sistema' para bloqueios automáticos
+  subject: string; // sobre o quê: a conta ou o cliente (ip:...)
+  detail?: string;
+};
+
+// Um registro que falha não pode desfazer o que já aconteceu, então o erro só é logado
+export async function recordAudit(type: AuditEventType, actor: string, subject: string, detail?: string): Promise<void> {
+  try {
+    await getStorage().append(AUDIT_LOG_KEY, [{ type, at: new Date().toISOString(), actor, subject, detail }]);
+  } catch (e) {
+    console.error('Falha ao gravar o registro de segurança:', e);
+  }
+}
+
+// Mais recentes primeiro
+export async function readAudit(limit = 200): Promise<AuditEntry[]> {
+  const stored = await getStorage().list<Omit<AuditEntry, 'seq'>>(AUDIT_LOG_KEY);
+  return stored.map((entry, seq) => ({ ...entry, seq })).reverse().slice(0, limit);
+}
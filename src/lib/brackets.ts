@@ -0,0 +1,37 @@
+// src/lib/brackets.ts
+import type { CategoryData, PlayoffBracket, PlayoffMatch, TournamentType } from './types';
+
+export const DOUBLE_ELIMINATION_PARTS = ['upper', 'lower', 'playoffs'] as const;
+export const SWISS_PARTS = ['swiss', 'playoffs'] as const;
+export const GROUPS_PARTS = ['playoffs', 'consolation'] as const;
+
+export type DoubleEliminationBrackets = Partial<Record<typeof DOUBLE_ELIMINATION_PARTS[number], PlayoffBracket>>;
+export type SwissBrackets = Partial<Record<typeof SWISS_PARTS[number], PlayoffBracket>>;
+export type GroupBrackets = Partial<Record<typeof GROUPS_PARTS[number], PlayoffBracket>>;
+
+// Formats stored as several named brackets, in play order. Every other format stores a single bracket.
+const BRACKET_PARTS: Partial<Record<TournamentType, readonly string[]>> = {
+  doubleElimination: DOUBLE_ELIMINATION_PARTS,
+  swiss: SWISS_PARTS,
+  groups: GROUPS_PARTS,
+};
+
+export const bracketParts = (tournamentType: TournamentType): readonly string[] | undefined => BRACKET_PARTS[tournamentType];
+
+// The category's brackets, in play order: upper, lower and final playoffs for double elimination,
+// Swiss rounds and the knockout of the cut for the Swiss system, the knockout and the consolation
+// bracket (Taça Prata) for groups, or the single bracket of every other format. The stored shape follows
+// the tournament type (guaranteed by the migrations), so there is nothing to guess here.
+export function playoffBrackets(category: Pick<CategoryData, 'playoffs' | 'formValues'>): PlayoffBracket[] {
+  if (!category.playoffs) return [];
+  const parts = bracketParts(category.formValues.tournamentType);
+  if (parts) {
+    const brackets = category.playoffs as Record<string, PlayoffBracket | undefined>;
+    return parts.map(part => brackets[part]).filter((bracket): bracket is PlayoffBracket => !!bracket);
+  }
+  return [category.playoffs as PlayoffBracket];
+}
+
+export function playoffMatches(category: Pick<CategoryData, 'playoffs' | 'formValues'>): PlayoffMatch[] {
+  return playoffBrackets(category).flatMap(bracket => Object.values(bracket).flat());
+}
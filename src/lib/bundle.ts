@@ -0,0 +1,120 @@
+// src/lib/bundle.ts
+import { z, type ZodError } from 'zod';
+import {
+  categoryDataSchema,
+  eventFormSchema,
+  globalSettingsSchema,
+  isCategoryKey,
+  registrySchema,
+  type CategoryData,
+  type EventFormValues,
+  type GlobalSettings,
+  type Registry,
+  type TournamentsState,
+} from './types';
+import { CURRENT_SCHEMA_VERSION, migrateCategory } from './migrations';
+import { syncRegistry } from './registry';
+import { errorMessage } from './utils';
+
+// Pacote de exportação de um evento: um JSON autossuficiente para levar o evento para outra
+// instalação ou guardar como arquivo. Categorias de versões antigas são migradas na importação.
+export const EVENT_BUNDLE_FORMAT = 'ftv-event';
+export const EVENT_BUNDLE_VERSION = 1;
+
+export type EventBundle = {
+  format: typeof EVENT_BUNDLE_FORMAT;
+  version: number; // versão do pacote
+  schemaVersion: number; // versão das categorias (src/lib/migrations.ts)
+  exportedAt: string; // ISO 8601
+  event: EventFormValues;
+  settings: GlobalSettings;
+  registry?: Registry; // jogadores e duplas; ausente em pacotes de antes do cadastro
+  categories: Record<string, CategoryData>; // duplas, jogos, placares e chaves de cada categoria
+};
+
+export type BundleIssue = { path: string; message: string };
+
+const envelopeSchema = z.object({
+  format: z.literal(EVENT_BUNDLE_FORMAT, { errorMap: () => ({ message: 'Não é um arquivo de evento exportado por este sistema.' }) }),
+  version: z.number().int().max(EVENT_BUNDLE_VERSION, 'Pacote gerado por uma versão mais nova do sistema.'),
+  schemaVersion: z.number().int(),
+  exportedAt: z.string(),
+  event: eventFormSchema,
+  settings: z.unknown(),
+  registry: z.unknown(),
+  categories: z.record(z.unknown()),
+});
+
+const toIssues = (error: ZodError, prefix: (string | number)[] = []): BundleIssue[] =>
+  error.issues.map(issue => ({ path: [...prefix, ...issue.path].join('.') || '(raiz)', message: issue.message }));
+
+export function buildEventBundle(event: EventFormValues, state: TournamentsState): EventBundle {
+  const categories: Record<string, CategoryData> = {};
+  for (const name in state) {
+    if (!isCategoryKey(name)) continue;
+    // A revisão só faz sentido na instalação de origem
+    const { revision, ...category } = state[name] as CategoryData;
+    categories[name] = category;
+  }
+  const { name, date, venue, logo } = event;
+  return {
+    format: EVENT_BUNDLE_FORMAT,
+    version: EVENT_BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    event: { name, date, venue, logo },
+    settings: state._globalSettings,
+    registry: state._registry,
+    categories,
+  };
+}
+
+// Valida o pacote inteiro e devolve todos os problemas encontrados (não só o primeiro), cada um
+// com o caminho até o valor. O pacote só é devolvido se não houver nenhum problema.
+export function parseEventBundle(raw: unknown): { bundle?: EventBundle; issues: BundleIssue[] } {
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success) return { issues: toIssues(envelope.error) };
+  const { settings, registry, categories, ...rest } = envelope.data;
+  const issues: BundleIssue[] = [];
+
+  const parsedSettings = globalSettingsSchema.safeParse(settings);
+  if (!parsedSettings.success) issues.push(...toIssues(parsedSettings.error, ['settings']));
+  const parsedRegistry = registrySchema.optional().safeParse(registry);
+  if (!parsedRegistry.success) issues.push(...toIssues(parsedRegistry.error, ['registry']));
+
+  const migrated: Record<string, CategoryData> = {};
+  for (const [name, rawCategory] of Object.entries(categories)) {
+    const path = ['categories', name];
+    if (!rawCategory || typeof rawCategory !== 'object') {
+      issues.push({ path: path.join('.'), message: 'A categoria deve ser um objeto.' });
+      continue;
+    }
+    try {
+      // Categorias sem versão própria estão na versão do pacote
+      const { category } = migrateCategory({ schemaVersion: rest.schemaVersion, ...rawCategory });
+      const result = categoryDataSchema.safeParse(category);
+      if (!result.success) {
+        issues.push(...toIssues(result.error, path));
+      } else if (category.formValues.category !== name) {
+        issues.push({ path: [...path, 'formValues', 'category'].join('.'), message: `Deveria ser "${name}", o nome da categoria.` });
+      } else {
+        migrated[name] = category;
+      }
+    } catch (e) {
+      issues.push({ path: path.join('.'), message: errorMessage(e, String(e)) });
+    }
+  }
+
+  if (!parsedSettings.success || !parsedRegistry.success || issues.length > 0) return { issues };
+  return {
+    bundle: { ...rest, format: EVENT_BUNDLE_FORMAT, settings: parsedSettings.data, registry: parsedRegistry.data, categories: migrated },
+    issues,
+  };
+}
+
+export function bundleToState(bundle: EventBundle): TournamentsState {
+  const state = { ...bundle.categories, _globalSettings: bundle.settings, _registry: bundle.registry } as TournamentsState;
+  // Duplas sem id (ou com ids fora do cadastro) são cadastradas pelo nome
+  syncRegistry(state);
+  return state;
+}
@@ -0,0 +1,200 @@
+// src/lib/db.ts
+import { getStorage, type StorageWrite, type Versioned } from './storage';
+import { isCategoryKey, type CategoryData, type GlobalSettings, type Registry, type TournamentsState } from './types';
+import { upgradeStoredCategory } from './migrations';
+import { emptyRegistry } from './registry';
+
+// Formato antigo: o evento inteiro em um único valor. Depois da migração fica intacto, como backup.
+export const LEGACY_DB_KEY = 'ftv:db';
+
+// Prefixo do primeiro evento, criado antes de existirem vários; os eventos novos usam `ftv:data:e:<id>`
+export const LEGACY_PREFIX = 'ftv:data';
+export const eventPrefix = (eventId: string) => `${LEGACY_PREFIX}:e:${eventId}`;
+
+// Formato atual: configurações, índice e cada categoria em sua própria chave, sob o prefixo do evento,
+// para que leituras e gravações toquem apenas o que precisam. O log e os snapshots ficam no mesmo prefixo.
+export type EventKeys = {
+  prefix: string;
+  settings: string;
+  registry: string; // cadastro de jogadores e duplas (src/lib/registry.ts)
+  scorekeepers: string; // mesários e suas quadras (src/lib/scorekeepers.ts); fica fora do estado, dos snapshots e das exportações
+  categories: string; // nomes das categorias, em ordem
+  category: (name: string) => string;
+  log: string;
+  snapshots: string;
+  snapshot: (id: string) => string;
+  legacy?: string; // blob antigo a migrar, só no primeiro evento
+};
+
+export const eventKeys = (prefix: string): EventKeys => ({
+  prefix,
+  settings: `${prefix}:settings`,
+  registry: `${prefix}:registry`,
+  scorekeepers: `${prefix}:scorekeepers`,
+  categories: `${prefix}:categories`,
+  category: name => `${prefix}:category:${name}`,
+  log: `${prefix}:log`,
+  snapshots: `${prefix}:snapshots`,
+  snapshot: id => `${prefix}:snapshot:${id}`,
+  legacy: prefix === LEGACY_PREFIX ? LEGACY_DB_KEY : undefined,
+});
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+// O evento montado a partir das chaves (com as categorias já migradas para a versão atual), junto com
+// a revisão e o conteúdo lido de cada uma. Na gravação, só as chaves cujo conteúdo mudou são regravadas
+// (e conferidas); uma categoria migrada na leitura é, portanto, gravada no formato novo na próxima gravação.
+export type DBSnapshot = {
+  value: TournamentsState | null;
+  entries: Record<string, { revision: number; json: string | null }>;
+};
+
+const toJson = (value: unknown) => (value == null ? null : JSON.stringify(value));
+
+// Divide o evento nas chaves do formato atual
+function splitState(keys: EventKeys, state: TournamentsState): Map<string, unknown> {
+  const names = Object.keys(state).filter(isCategoryKey);
+  const entries = new Map<string, unknown>();
+  entries.set(keys.settings, state._globalSettings ?? null);
+  entries.set(keys.registry, state._registry ?? null);
+  entries.set(keys.categories, names);
+  for (const name of names) entries.set(keys.category(name), state[name]);
+  return entries;
+}
+
+async function readSnapshot(keys: EventKeys): Promise<DBSnapshot> {
+  const storage = getStorage();
+  const [index, settings, registry] = (await storage.getManyVersioned([keys.categories, keys.settings, keys.registry])) as [
+    Versioned<string[]>,
+    Versioned<GlobalSettings>,
+    Versioned<Registry>,
+  ];
+  const entries: DBSnapshot['entries'] = {
+    [keys.categories]: { revision: index.revision, json: toJson(index.value) },
+    [keys.settings]: { revision: settings.revision, json: toJson(settings.value) },
+    [keys.registry]: { revision: registry.revision, json: toJson(registry.value) },
+  };
+  if (index.value == null && settings.value == null) return { value: null, entries };
+
+  const names: string[] = Array.isArray(index.value) ? index.value : [];
+  const categories = await storage.getManyVersioned<CategoryData>(names.map(keys.category));
+  // Eventos de antes do cadastro começam vazios; as duplas são cadastradas na próxima gravação
+  const value = { _globalSettings: settings.value, _registry: registry.value ?? emptyRegistry() } as TournamentsState;
+  names.forEach((name, i) => {
+    const { value: category, revision } = categories[i];
+    entries[keys.category(name)] = { revision, json: toJson(category) };
+    if (category) value[name] = upgradeStoredCategory(name, category);
+  });
+  return { value, entries };
+}
+
+// Move o blob antigo para as chaves separadas. Retorna true se o formato atual tem dados.
+export async function migrateLegacyDB(keys: EventKeys): Promise<boolean> {
+  if (!keys.legacy) return false;
+  const legacy = await getStorage().get<TournamentsState>(keys.legacy);
+  if (!legacy || !legacy._globalSettings) return false;
+  const snapshot = await readSnapshot(keys);
+  if (snapshot.value) return true; // outra instância já migrou
+  const migrated = { ...legacy };
+  for (const name in migrated) {
+    if (isCategoryKey(name)) migrated[name] = upgradeStoredCategory(name, migrated[name]);
+  }
+  await writeDBIfUnchanged(keys, snapshot, migrated);
+  return true;
+}
+
+// Lê o evento inteiro junto com as revisões (para gravações condicionais)
+export async function readDBVersioned(keys: EventKeys): Promise<DBSnapshot> {
+  const snapshot = await readSnapshot(keys);
+  if (!snapshot.value && (await migrateLegacyDB(keys))) return readSnapshot(keys);
+  return snapshot;
+}
+
+// Lê o evento inteiro do backend configurado (KV ou arquivo local)
+export async function readDB(keys: EventKeys): Promise<TournamentsState | null> {
+  return (await readDBVersioned(keys)).value;
+}
+
+// Lê uma única categoria, sem baixar o restante do evento
+export async function readCategory(keys: EventKeys, name: string): Promise<CategoryData | null> {
+  const storage = getStorage();
+  let category = await storage.get<CategoryData>(keys.category(name));
+  // Ainda no formato antigo? Migra e tenta de novo
+  if (!category && (await storage.get(keys.categories)) == null && (await migrateLegacyDB(keys))) {
+    category = await storage.get<CategoryData>(keys.category(name));
+  }
+  return category ? upgradeStoredCategory(name, category) : null;
+}
+
+// Grava apenas as chaves que mudaram desde a leitura, e somente se nenhuma delas foi
+// alterada por outra pessoa nesse meio tempo. Retorna false em caso de conflito.
+export async function writeDBIfUnchanged(keys: EventKeys, snapshot: DBSnapshot, data: TournamentsState): Promise<boolean> {
+  const next = splitState(keys, data);
+  const writes: StorageWrite[] = [];
+  const newKeys: StorageWrite[] = [];
+
+  for (const [key, value] of next) {
+    const previous = snapshot.entries[key];
+    if (previous && previous.json === toJson(value)) continue;
+    const write = { key, value, expectedRevision: previous?.revision ?? 0 };
+    writes.push(write);
+    if (!previous) newKeys.push(write);
+  }
+  for (const [key, previous] of Object.entries(snapshot.entries)) {
+    if (!next.has(key) && previous.json !== null) {
+      writes.push({ key, value: null, expectedRevision: previous.revision });
+    }
+  }
+
+  // Categorias novas (ou recriadas) não foram lidas; quem garante que ninguém criou
+  // a mesma categoria ao mesmo tempo é a revisão do índice, que também muda.
+  if (newKeys.length > 0) {
+    const current = await getStorage().getManyVersioned(newKeys.map(w => w.key));
+    newKeys.forEach((w, i) => { w.expectedRevision = current[i].revision; });
+  }
+  return getStorage().commit(writes);
+}
+
+// Salva o evento inteiro (substitui o conteúdo atual)
+export async function writeDB(keys: EventKeys, data: TournamentsState): Promise<'OK'> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    if (await writeDBIfUnchanged(keys, await readDBVersioned(keys), data)) return 'OK';
+  }
+  throw new Error('Não foi possível salvar: os dados foram alterados durante a gravação.');
+}
+
+// Substitui o evento inteiro no lugar. As revisões das categorias continuam a contar a partir das atuais,
+// para que telas ainda com os dados substituídos recebam um conflito em vez de sobrescrevê-los.
+export function replaceState(db: TournamentsState, next: TournamentsState) {
+  const revisions: Record<string, number> = {};
+  for (const name in db) {
+    if (isCategoryKey(name)) revisions[name] = (db[name] as CategoryData).revision ?? 0;
+  }
+  Object.keys(db).forEach(key => delete db[key]);
+  Object.assign(db, structuredClone(next));
+  for (const name in db) {
+    if (!isCategoryKey(name)) continue;
+    const category = db[name] as CategoryData;
+    category.revision = Math.max(category.revision ?? 0, revisions[name] ?? 0) + 1;
+  }
+}
+
+// Grava `data` no lugar do evento atual (veja replaceState). Retorna o evento anterior (null se vazio)
+// e o gravado, com as revisões novas.
+export async function replaceDB(keys: EventKeys, data: TournamentsState): Promise<{ before: TournamentsState | null; after: TournamentsState }> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const snapshot = await readDBVersioned(keys);
+    const after = structuredClone(snapshot.value ?? data);
+    replaceState(after, data);
+    if (await writeDBIfUnchanged(keys, snapshot, after)) return { before: snapshot.value, after };
+  }
+  throw new Error('Não foi possível salvar: os dados foram alterados durante a gravação.');
+}
+
+// Inicializa caso ainda não exista
+export async function ensureDB(keys: EventKeys, seed: TournamentsState): Promise<TournamentsState> {
+  const current = await readDB(keys);
+  if (current) return current;
+  await writeDB(keys, seed);
+  return seed;
+}
@@ -0,0 +1,140 @@
+// src/lib/event-log.ts
+import { getStorage } from './storage';
+import { isCategoryKey, type TournamentsState } from './types';
+import type { EventKeys } from './db';
+
+export type TournamentEventType =
+  | 'baseline'
+  | 'settings.updated'
+  | 'category.saved'
+  | 'category.generated'
+  | 'category.renamed'
+  | 'category.deleted'
+  | 'team.updated'
+  | 'match.scheduled'
+  | 'match.scored'
+  | 'schedule.generated'
+  | 'schedule.imported'
+  | 'schedule.cleared'
+  | 'db.replaced'
+  | 'log.replayed'
+  | 'snapshot.restored'
+  | 'event.cloned'
+  | 'event.imported';
+
+// Uma alteração pontual no estado. O caminho parte da raiz (["Misto Avançado", "playoffs", ...]).
+// Sem "before" o valor foi criado; sem "after" foi removido.
+export type StateChange = {
+  path: (string | number)[];
+  before?: unknown;
+  after?: unknown;
+  matchId?: string; // jogo que contém o valor alterado, se houver
+};
+
+export type TournamentEvent = {
+  seq: number; // posição no log
+  type: TournamentEventType;
+  at: string; // ISO 8601
+  actor: string;
+  categories: string[];
+  matchIds: string[];
+  changes: StateChange[];
+  state?: TournamentsState; // só no "baseline": o estado completo quando o log começou
+};
+
+type StoredEvent = Omit<TournamentEvent, 'seq'>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Desce pelos objetos até as folhas que mudaram. Arrays de mesmo tamanho são comparados
+// posição a posição; se o tamanho mudou, o array inteiro vira uma única alteração.
+function collectChanges(before: unknown, after: unknown, path: (string | number)[], matchId: string | undefined, out: StateChange[]) {
+  if (isSame(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const isMatch = typeof after.id === 'string' && ('team1' in after || 'team1Placeholder' in after);
+    const currentMatchId = isMatch ? (after.id as string) : matchId;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => collectChanges(before[key], after[key], [...path, key], currentMatchId, out));
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, i) => collectChanges(item, after[i], [...path, i], matchId, out));
+    return;
+  }
+
+  const change: StateChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  if (matchId) change.matchId = matchId;
+  out.push(change);
+}
+
+export function diffState(before: TournamentsState, after: TournamentsState): StateChange[] {
+  const changes: StateChange[] = [];
+  collectChanges(before, after, [], undefined, changes);
+  return changes;
+}
+
+// Aplica as alterações (na ordem) sobre o estado, modificando-o
+export function applyChanges(state: TournamentsState, changes: StateChange[]): TournamentsState {
+  for (const change of changes) {
+    if (change.path.length === 0) continue;
+    let target: any = state;
+    for (const key of change.path.slice(0, -1)) {
+      if (target[key] == null) target[key] = {};
+      target = target[key];
+    }
+    const last = change.path[change.path.length - 1];
+    if ('after' in change) {
+      target[last] = structuredClone(change.after);
+    } else {
+      delete target[last];
+    }
+  }
+  return state;
+}
+
+// Registra uma mutação já gravada. O primeiro evento do log é sempre um "baseline" com o estado
+// anterior completo, para que o log sozinho seja suficiente para reconstruir o evento.
+export async function recordEvent(keys: EventKeys, type: TournamentEventType, before: TournamentsState, after: TournamentsState, actor: string): Promise<void> {
+  const changes = diffState(before, after);
+  if (changes.length === 0) return;
+
+  const at = new Date().toISOString();
+  const event: StoredEvent = {
+    type,
+    at,
+    actor,
+    categories: [...new Set(changes.map(c => String(c.path[0])))].filter(isCategoryKey),
+    matchIds: [...new Set(changes.map(c => c.matchId).filter((id): id is string => !!id))],
+    changes,
+  };
+  // O baseline só entra se o log estiver vazio, conferido na própria gravação: duas primeiras alterações
+  // ao mesmo tempo não gravam dois baselines
+  const baseline: StoredEvent = { type: 'baseline', at, actor, categories: [], matchIds: [], changes: [], state: before };
+  await getStorage().append(keys.log, [event], [baseline]);
+}
+
+export async function readEvents(keys: EventKeys): Promise<TournamentEvent[]> {
+  const stored = await getStorage().list<StoredEvent>(keys.log);
+  return stored.map((event, seq) => ({ ...event, seq }));
+}
+
+// Reconstrói o estado a partir do último "baseline" até o evento `uptoSeq` (inclusive; padrão: o fim do log).
+// Retorna null se não houver baseline até esse ponto.
+export function replayEvents(events: TournamentEvent[], uptoSeq = Infinity): TournamentsState | null {
+  const upto = events.filter(e => e.seq <= uptoSeq);
+  const baselineIndex = upto.map(e => e.type).lastIndexOf('baseline');
+  if (baselineIndex === -1 || !upto[baselineIndex].state) return null;
+
+  const state = structuredClone(upto[baselineIndex].state!);
+  for (const event of upto.slice(baselineIndex + 1)) {
+    applyChanges(state, event.changes);
+  }
+  return state;
+}
@@ -0,0 +1,100 @@
+// src/lib/events.ts
+import { getStorage } from './storage';
+import type { EventFormValues } from './types';
+import { eventKeys, eventPrefix, LEGACY_PREFIX, type EventKeys } from './db';
+
+// Lista de eventos (etapas) da instalação. Cada evento guarda seus dados sob o próprio prefixo.
+export const EVENT_INDEX_KEY = 'ftv:data:events';
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+export type EventMeta = EventFormValues & {
+  id: string; // usado nas rotas: /e/<id>/...
+  archived: boolean; // arquivados somem do seletor e não aceitam alterações
+  createdAt: string; // ISO 8601
+  keyPrefix: string;
+};
+
+export type ScopedEvent = EventMeta & { keys: EventKeys };
+
+// O evento que existia antes de haver vários: aponta para as chaves onde os dados já estavam
+const DEFAULT_EVENT: Omit<EventMeta, 'createdAt'> = {
+  id: 'amigos-do-peri',
+  name: 'Campeonato de Futevôlei Amigos do Peri',
+  date: '',
+  venue: '',
+  logo: '/logo.png',
+  archived: false,
+  keyPrefix: LEGACY_PREFIX,
+};
+
+const slugify = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'evento';
+
+// Altera a lista com controle de concorrência e devolve a lista gravada
+async function updateIndex(update: (index: EventMeta[]) => EventMeta[]): Promise<EventMeta[]> {
+  const storage = getStorage();
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const { value, revision } = await storage.getVersioned<EventMeta[]>(EVENT_INDEX_KEY);
+    const after = update([...(value ?? [])]);
+    if (await storage.commit([{ key: EVENT_INDEX_KEY, value: after, expectedRevision: revision }])) return after;
+  }
+  throw new Error('Não foi possível atualizar a lista de eventos: ela foi alterada durante a gravação.');
+}
+
+// Mais recentes primeiro; eventos sem data vão para o fim
+export async function listEvents(): Promise<EventMeta[]> {
+  let index = await getStorage().get<EventMeta[]>(EVENT_INDEX_KEY);
+  if (!index || index.length === 0) {
+    index = await updateIndex(current =>
+      current.length > 0 ? current : [{ ...DEFAULT_EVENT, createdAt: new Date().toISOString() }],
+    );
+  }
+  return index.slice().sort((a, b) => (b.date || '').localeCompare(a.date || '') || b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getEvent(id: string): Promise<EventMeta | null> {
+  return (await listEvents()).find(e => e.id === id) ?? null;
+}
+
+export async function requireEvent(id: string): Promise<ScopedEvent> {
+  const event = await getEvent(id);
+  if (!event) throw new Error(`Evento "${id}" não encontrado.`);
+  return { ...event, keys: eventKeys(event.keyPrefix) };
+}
+
+// Para onde vão as rotas antigas (sem evento): o evento ativo mais recente
+export async function getDefaultEvent(): Promise<EventMeta> {
+  const events = await listEvents();
+  return events.find(e => !e.archived) ?? events[0];
+}
+
+export async function createEvent(values: EventFormValues): Promise<EventMeta> {
+  let created: EventMeta | undefined;
+  await updateIndex(index => {
+    const base = slugify(values.name);
+    let id = base;
+    for (let n = 2; index.some(e => e.id === id); n++) id = `${base}-${n}`;
+    created = { ...values, id, archived: false, createdAt: new Date().toISOString(), keyPrefix: eventPrefix(id) };
+    return [...index, created];
+  });
+  return created!;
+}
+
+export async function updateEvent(id: string, changes: Partial<EventFormValues & { archived: boolean }>): Promise<EventMeta> {
+  let updated: EventMeta | undefined;
+  await updateIndex(index =>
+    index.map(e => {
+      if (e.id !== id) return e;
+      updated = { ...e, ...changes };
+      return updated;
+    }),
+  );
+  if (!updated) throw new Error(`Evento "${id}" não encontrado.`);
+  return updated;
+}
@@ -0,0 +1,20 @@
+// src/lib/group-generation.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateGroups } from './group-generation';
+
+const teams = Array.from({ length: 10 }, (_, i) => ({ player1: `A${i + 1}`, player2: `B${i + 1}` }));
+
+test('group fixtures come back ordered in rounds', async () => {
+  const result = await generateGroups({ category: 'Teste', tournamentType: 'groups', numberOfTeams: 10, numberOfGroups: 2, groupFormationStrategy: 'order', teams, legs: 2 });
+  assert.ok(result.success, result.error);
+  for (const group of result.data!.groups) {
+    // 5 teams: a bye each round, so 5 rounds of 2 matches per leg
+    const rounds = group.matches.map(match => match.round);
+    assert.deepEqual(rounds, [1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10]);
+    for (const round of new Set(rounds)) {
+      const players = group.matches.filter(match => match.round === round).flatMap(match => [match.team1.player1, match.team2.player1]);
+      assert.equal(new Set(players).size, players.length, `a team plays twice in round ${round}`);
+    }
+  }
+});
@@ -0,0 +1,106 @@
+// src/lib/group-generation.ts
+import { drawGroups, drawOrder, firstRoundPairs } from "./seeding";
+import { errorMessage } from "./utils";
+import { AlgorithmicGenerateTournamentGroupsOutputSchema, type GenerateTournamentGroupsInput, type GenerateTournamentGroupsOutput, type Team } from "./types";
+
+// Algorithmic group and match generation
+function generateGroupsAlgorithmically(input: GenerateTournamentGroupsInput): GenerateTournamentGroupsOutput {
+    const { teams, numberOfGroups, groupFormationStrategy } = input;
+    
+    if (!numberOfGroups) {
+      throw new Error("Número de grupos não fornecido.");
+    }
+
+    // Serpentine, shuffled or pot draw, keeping apart the teams that must not meet (see drawGroups)
+    const drawn = drawGroups(groupFormationStrategy === 'pots' && input.pots ? input.pots : [teams], numberOfGroups, groupFormationStrategy, input.drawSeed, input.separations);
+
+    const groupsData: { name: string; teams: Team[]; matches: { team1: Team; team2: Team }[] }[] = drawn.map((groupTeams, i) => ({
+        name: `Group ${String.fromCharCode(65 + i)}`,
+        teams: groupTeams,
+        matches: []
+    }));
+
+    // Generate round-robin matches for each group, once per leg
+    groupsData.forEach(group => {
+        group.matches = roundRobinMatches(group.teams, input.legs ?? 1);
+    });
+
+    return AlgorithmicGenerateTournamentGroupsOutputSchema.parse({ groups: groupsData, playoffMatches: [] });
+}
+
+
+// Every pair of teams plays once per leg, in rounds built with the circle (Berger) method: the first team
+// stays put and the others rotate one seat per round, so everyone plays once per round (one team rests
+// each round when the count is odd). Legs follow each other, numbering their rounds on; even legs swap
+// the sides.
+function roundRobinMatches(teams: Team[], legs: number): { team1: Team; team2: Team; round: number }[] {
+    const seats: (Team | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+    const roundsPerLeg = seats.length - 1;
+    const matches: { team1: Team; team2: Team; round: number }[] = [];
+    for (let leg = 0; leg < legs; leg++) {
+        for (let r = 0; r < roundsPerLeg; r++) {
+            const others = seats.slice(1);
+            const rotated = [seats[0], ...others.slice(others.length - r), ...others.slice(0, others.length - r)];
+            for (let i = 0; i < rotated.length / 2; i++) {
+                let [team1, team2] = [rotated[i], rotated[rotated.length - 1 - i]];
+                if (!team1 || !team2) continue;
+                // The fixed team alternates sides from round to round
+                if ((i === 0 && r % 2 === 1) !== (leg % 2 === 1)) [team1, team2] = [team2, team1];
+                matches.push({ team1, team2, round: leg * roundsPerLeg + r + 1 });
+            }
+        }
+    }
+    return matches;
+}
+
+// League: a single table with every team
+export function generateLeagueAlgorithmically(teams: Team[], legs: number): GenerateTournamentGroupsOutput {
+    return AlgorithmicGenerateTournamentGroupsOutputSchema.parse({ groups: [{ name: 'Liga', teams, matches: roundRobinMatches(teams, legs) }], playoffMatches: [] });
+}
+
+
+// Elimination: the first round of the seeded list, 1st x last, 2nd x second to last...
+function generateEliminationAlgorithmically(input: GenerateTournamentGroupsInput): GenerateTournamentGroupsOutput {
+    const seeds = drawOrder(input.teams, input.groupFormationStrategy, input.drawSeed);
+    const playoffMatches = firstRoundPairs(seeds).map(([team1, team2]) => ({ team1, team2 }));
+    return AlgorithmicGenerateTournamentGroupsOutputSchema.parse({ groups: [], playoffMatches });
+}
+
+// Groups (or the first knockout round) of a category from its team list
+export async function generateGroups(
+  input: GenerateTournamentGroupsInput
+): Promise<{
+  success: boolean
+  data?: GenerateTournamentGroupsOutput
+  error?: string
+}> {
+  try {
+    let output: GenerateTournamentGroupsOutput;
+
+    if (input.tournamentType === 'groups') {
+        output = generateGroupsAlgorithmically(input);
+    } else if (process.env.AI_SEEDING === 'gemini' && (input.tournamentType === 'singleElimination' || input.tournamentType === 'doubleElimination')) {
+        // Optional: seeding by the Gemini flow (needs network and a Google AI key; not reproducible)
+        const { generateTournamentGroups } = await import("@/ai/flows/generate-tournament-groups");
+        // Pots only apply to groups: elsewhere they draw like 'random'
+        output = await generateTournamentGroups({ ...input, tournamentType: input.tournamentType, groupFormationStrategy: input.groupFormationStrategy === 'order' ? 'order' : 'random' });
+    } else {
+        output = generateEliminationAlgorithmically(input);
+    }
+    
+    if (input.tournamentType === 'groups') {
+      if (!output.groups || output.groups.length === 0) {
+        return { success: false, error: "Não foi possível gerar os grupos. Verifique os parâmetros." };
+      }
+    } else if (input.tournamentType === 'singleElimination' || input.tournamentType === 'doubleElimination') {
+      if (!output.playoffMatches || output.playoffMatches.length === 0) {
+        return { success: false, error: "Não foi possível gerar o chaveamento. Verifique a lista de duplas." };
+      }
+    }
+
+    return { success: true, data: output };
+  } catch (e) {
+    console.error(e);
+    return { success: false, error: errorMessage(e, "Ocorreu um erro desconhecido.") };
+  }
+}
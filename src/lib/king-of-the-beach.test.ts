@@ -0,0 +1,64 @@
+// src/lib/king-of-the-beach.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePlayerStandings, restingPlayers } from './king-of-the-beach';
+import { initializeKingOfTheBeach } from './regeneration';
+import type { PlayoffBracket, PlayoffMatch, TournamentFormValues } from './types';
+
+const playerLines = (count: number) => Array.from({ length: count }, (_, i) => `Jogador ${i + 1}`).join('\n');
+
+const formValues = (players: number) =>
+  ({ category: 'Rei da Praia', tournamentType: 'kingOfTheBeach', teams: playerLines(players), groupFormationStrategy: 'order' }) as TournamentFormValues;
+
+const partnersOf = (match: PlayoffMatch) =>
+  [match.team1!, match.team2!].map(team => [team.player1, team.player2].sort().join(' + '));
+
+test('with 8 players the circle method partners everyone with everyone else exactly once', async () => {
+  const bracket = await initializeKingOfTheBeach(formValues(8), 'Rei da Praia');
+  const rounds = Object.values(bracket);
+  assert.equal(rounds.length, 7);
+  for (const round of rounds) {
+    assert.equal(round.length, 2);
+    const players = round.flatMap(match => [match.team1!, match.team2!]).flatMap(team => [team.player1, team.player2]);
+    assert.equal(new Set(players).size, 8);
+  }
+  const partnerships = rounds.flat().flatMap(partnersOf);
+  assert.equal(partnerships.length, 28);
+  assert.equal(new Set(partnerships).size, 28);
+});
+
+test('with an odd number of players everyone rests once over the rounds', async () => {
+  for (const players of [5, 9]) {
+    const values = formValues(players);
+    const rounds = Object.values(await initializeKingOfTheBeach(values, 'Rei da Praia'));
+    assert.equal(rounds.length, players);
+    // The empty seat of the circle sends one player to rest each round, a different one every time
+    const resting = rounds.map(round => restingPlayers({ formValues: values }, round));
+    assert.ok(resting.every(round => round.length === 1), JSON.stringify(resting));
+    assert.equal(new Set(resting.flat()).size, players);
+  }
+});
+
+test('players are ranked by wins, point difference, points won, then name', () => {
+  const match = (id: string, [a, b]: string[], [c, d]: string[], score1: number, score2: number): PlayoffMatch =>
+    ({ id, name: id, team1: { player1: a, player2: b }, team2: { player1: c, player2: d }, score1, score2, time: '', court: '', roundOrder: 1 });
+  const playoffs: PlayoffBracket = {
+    'Rodada 1': [match('R1', ['Ana', 'Bia'], ['Cai', 'Duda'], 21, 15)],
+    'Rodada 2': [match('R2', ['Ana', 'Cai'], ['Bia', 'Duda'], 21, 19)],
+    'Rodada 3': [match('R3', ['Ana', 'Duda'], ['Bia', 'Cai'], 18, 21)],
+    // A tie, only to give Edu and Eva points without a difference
+    'Rodada 4': [match('R4', ['Edu', 'Eva'], ['Ana', 'Bia'], 20, 20)],
+  };
+  const teams = 'Abel\nAna\nBia\nCai\nDuda\nEdu\nEva';
+
+  const standings = calculatePlayerStandings({ formValues: { ...formValues(0), teams }, playoffs });
+  assert.deepEqual(standings.map(s => [s.player, s.wins, s.pointDifference, s.pointsWon]), [
+    ['Bia', 2, 7, 81],
+    ['Ana', 2, 5, 80],
+    ['Cai', 2, -1, 57],
+    ['Edu', 0, 0, 20],
+    ['Eva', 0, 0, 20],
+    ['Abel', 0, 0, 0],
+    ['Duda', 0, -11, 52],
+  ]);
+});
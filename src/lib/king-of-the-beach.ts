@@ -0,0 +1,109 @@
+// src/lib/king-of-the-beach.ts
+import { playoffMatches } from './brackets';
+import { nameKey, normalizeName, teamLabel } from './registry';
+import type { CategoryData, PlayerStanding, PlayoffBracket, PlayoffMatch, Team } from './types';
+
+// "Rei/Rainha da Praia": players enter alone and get a new partner every round. The partners of each round
+// come from the circle method (everyone partners everyone else once over `players - 1` rounds, or `players`
+// with an odd number of players), and the pairs of a round meet the pairs they have faced the least so far.
+// Players left without a partner or a match rest that round. The rotating pairs are ordinary teams in
+// ordinary bracket matches, so scoring, scheduling (which avoids putting a player on two courts at once)
+// and scorekeepers work unchanged. Individuals are ranked by wins, point difference, then points won.
+
+export const kingOfTheBeachRoundName = (round: number) => `Rodada ${round}`;
+
+// The form's list holds one player per line
+export const parsePlayerLines = (text: string) => text.split('\n').map(normalizeName).filter(Boolean);
+
+// Rounds in which nobody partners the same player twice
+export const maxKingOfTheBeachRounds = (players: number) => (players % 2 === 0 ? players - 1 : players);
+
+// All rounds of a category, in play order
+export function createKingOfTheBeachRounds(players: string[], rounds: number, categoryName: string): PlayoffBracket {
+  const categoryPrefix = categoryName.replace(/\s/g, '');
+  const circle: (string | null)[] = players.length % 2 === 0 ? [...players] : [...players, null];
+  const rests = new Map(players.map(p => [p, 0]));
+  const faced = new Map<string, number>(); // "a|b" -> times a and b played against each other
+  const facedKey = (a: string, b: string) => [a, b].sort().join('|');
+  const timesFaced = (a: [string, string], b: [string, string]) =>
+    a.reduce((sum, x) => sum + b.reduce((s, y) => s + (faced.get(facedKey(x, y)) ?? 0), 0), 0);
+  const bracket: PlayoffBracket = {};
+
+  for (let round = 1; round <= rounds; round++) {
+    // Circle method: the first player stays put, the others rotate one seat per round
+    const others = circle.slice(1);
+    const shift = (round - 1) % others.length;
+    const seats = [circle[0], ...others.slice(others.length - shift), ...others.slice(0, others.length - shift)];
+    let pairs = Array.from({ length: seats.length / 2 }, (_, i): [string | null, string | null] => [seats[i], seats[seats.length - 1 - i]])
+      .filter((pair): pair is [string, string] => pair[0] !== null && pair[1] !== null);
+    const resting = new Set(seats.filter(p => p !== null && !pairs.some(pair => pair.includes(p))) as string[]);
+
+    // An odd pair out rests too: the one whose players have rested the least
+    if (pairs.length % 2 === 1) {
+      const restsOf = (pair: [string, string]) => rests.get(pair[0])! + rests.get(pair[1])!;
+      const out = pairs.reduce((best, pair) => (restsOf(pair) < restsOf(best) ? pair : best), pairs[pairs.length - 1]);
+      out.forEach(p => resting.add(p));
+      pairs = pairs.filter(pair => pair !== out);
+    }
+    resting.forEach(p => rests.set(p, rests.get(p)! + 1));
+
+    // Each pair meets the remaining pair it has faced the least
+    const matches: PlayoffMatch[] = [];
+    while (pairs.length > 0) {
+      const [first, ...rest] = pairs;
+      const opponent = rest.reduce((best, pair) => (timesFaced(first, pair) < timesFaced(first, best) ? pair : best), rest[0]);
+      pairs = rest.filter(pair => pair !== opponent);
+      first.forEach(a => opponent.forEach(b => faced.set(facedKey(a, b), (faced.get(facedKey(a, b)) ?? 0) + 1)));
+
+      const [team1, team2] = [first, opponent].map(([player1, player2]): Team => ({ player1, player2 }));
+      matches.push({
+        id: `${categoryPrefix}-Rodada${round}-Jogo${matches.length + 1}`,
+        name: `${kingOfTheBeachRoundName(round)} - Jogo ${matches.length + 1}`,
+        team1,
+        team2,
+        team1Placeholder: teamLabel(team1),
+        team2Placeholder: teamLabel(team2),
+        time: '',
+        court: '',
+        roundOrder: rounds - round + 1,
+      });
+    }
+    bracket[kingOfTheBeachRoundName(round)] = matches;
+  }
+  return bracket;
+}
+
+// Players of the list who sit out a round
+export function restingPlayers(category: Pick<CategoryData, 'formValues'>, round: PlayoffMatch[]): string[] {
+  const playing = new Set(round.flatMap(m => [m.team1, m.team2]).flatMap(team => (team ? [nameKey(team.player1), nameKey(team.player2)] : [])));
+  return parsePlayerLines(category.formValues.teams).filter(player => !playing.has(nameKey(player)));
+}
+
+// Individual leaderboard from the scores of the rounds, best first
+export function calculatePlayerStandings(category: Pick<CategoryData, 'formValues' | 'playoffs'>): PlayerStanding[] {
+  const rows = new Map<string, PlayerStanding>(parsePlayerLines(category.formValues.teams).map(player => [
+    nameKey(player),
+    { player, played: 0, wins: 0, pointsWon: 0, pointDifference: 0 },
+  ]));
+
+  for (const match of playoffMatches(category)) {
+    if (!match.team1 || !match.team2 || typeof match.score1 !== 'number' || typeof match.score2 !== 'number') continue;
+    const sides: [Team, number, number][] = [[match.team1, match.score1, match.score2], [match.team2, match.score2, match.score1]];
+    for (const [team, won, lost] of sides) {
+      for (const player of [team.player1, team.player2]) {
+        const row = rows.get(nameKey(player));
+        if (!row) continue;
+        row.played++;
+        if (won > lost) row.wins++;
+        row.pointsWon += won;
+        row.pointDifference += won - lost;
+      }
+    }
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    b.wins - a.wins ||
+    b.pointDifference - a.pointDifference ||
+    b.pointsWon - a.pointsWon ||
+    a.player.localeCompare(b.player, 'pt-BR'));
+}
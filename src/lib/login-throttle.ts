@@ -0,0 +1,107 @@
+// src/lib/login-throttle.ts
+import { getStorage } from './storage';
+import { recordAudit } from './audit';
+
+// Proteção dos logins (administradores e mesários) contra tentativa e erro. As falhas são contadas por
+// cliente (`ip:<ip>`) e por conta (`user:<usuário>`, `scorekeeper:<evento>`). Depois de FREE_ATTEMPTS falhas,
+// cada nova tentativa precisa esperar o dobro da anterior (1 s, 2 s, 4 s...); na LOCKOUT_THRESHOLD-ésima,
+// o cliente ou a conta fica bloqueado por LOCKOUT_MS, e o bloqueio vai para o registro de segurança.
+// Cada tentativa é contada como falha antes de a senha ser conferida, na mesma gravação condicional que
+// verifica a espera, para que pedidos em paralelo não passem todos pela verificação antes de algum ser
+// contado. Um login certo zera os contadores; falhas mais antigas que FORGET_AFTER_MS deixam de contar.
+export const LOGIN_ATTEMPTS_KEY = 'ftv:data:login-attempts';
+
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const FORGET_AFTER_MS = 60 * 60 * 1000;
+const MAX_WRITE_ATTEMPTS = 5;
+
+type Attempt = {
+  failures: number;
+  lastFailureAt: number; // ms desde a época
+  lockedUntil?: number;
+};
+
+export type LoginCheck = { allowed: true } | { allowed: false; locked: boolean; retryAfterMs: number };
+
+const isStale = (attempt: Attempt, now: number) =>
+  now - attempt.lastFailureAt > FORGET_AFTER_MS && (attempt.lockedUntil ?? 0) <= now;
+
+const backoffMs = (failures: number) =>
+  failures < FREE_ATTEMPTS ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+
+// Aplica `update` e grava, se ninguém gravou desde a leitura (senão, tenta de novo com os dados novos).
+// Quando `update` retorna false, nada é gravado.
+async function updateAttempts(update: (attempts: Record<string, Attempt>, now: number) => boolean | void): Promise<void> {
+  const storage = getStorage();
+  for (let i = 0; i < MAX_WRITE_ATTEMPTS; i++) {
+    const { value, revision } = await storage.getVersioned<Record<string, Attempt>>(LOGIN_ATTEMPTS_KEY);
+    const attempts = value ?? {};
+    const now = Date.now();
+    for (const [subject, attempt] of Object.entries(attempts)) {
+      if (isStale(attempt, now)) delete attempts[subject];
+    }
+    if (update(attempts, now) === false) return;
+    if (await storage.commit([{ key: LOGIN_ATTEMPTS_KEY, value: attempts, expectedRevision: revision }])) return;
+  }
+  throw new Error('Não foi possível registrar a tentativa de login.');
+}
+
+// Se os sujeitos podem tentar agora; senão, quanto falta
+function checkAttempts(attempts: Record<string, Attempt>, subjects: string[], now: number): LoginCheck {
+  let result: LoginCheck = { allowed: true };
+  for (const subject of subjects) {
+    const attempt = attempts[subject];
+    if (!attempt || isStale(attempt, now)) continue;
+    const locked = (attempt.lockedUntil ?? 0) > now;
+    const retryAfterMs = locked ? attempt.lockedUntil! - now : attempt.lastFailureAt + backoffMs(attempt.failures) - now;
+    if (retryAfterMs > 0 && (result.allowed || retryAfterMs > result.retryAfterMs)) {
+      result = { allowed: false, locked, retryAfterMs };
+    }
+  }
+  return result;
+}
+
+// Verifica a espera e, se a tentativa for permitida, já a conta como falha (veja o topo do arquivo);
+// quem tiver sucesso chama clearLoginFailures em seguida.
+export async function claimLoginAttempt(subjects: string[]): Promise<LoginCheck> {
+  let check: LoginCheck = { allowed: true };
+  const locked: { subject: string; failures: number; until: number }[] = [];
+  await updateAttempts((attempts, now) => {
+    locked.length = 0;
+    check = checkAttempts(attempts, subjects, now);
+    if (!check.allowed) return false;
+    for (const subject of subjects) {
+      const attempt = (attempts[subject] ??= { failures: 0, lastFailureAt: now });
+      attempt.failures++;
+      attempt.lastFailureAt = now;
+      if (attempt.failures >= LOCKOUT_THRESHOLD && (attempt.lockedUntil ?? 0) <= now) {
+        attempt.lockedUntil = now + LOCKOUT_MS;
+        locked.push({ subject, failures: attempt.failures, until: attempt.lockedUntil });
+      }
+    }
+  });
+  for (const { subject, failures, until } of locked) {
+    await recordAudit('login.locked', 'sistema', subject, `${failures} tentativas erradas; bloqueado até ${new Date(until).toISOString()}`);
+  }
+  return check;
+}
+
+export async function clearLoginFailures(subjects: string[]): Promise<void> {
+  const attempts = (await getStorage().get<Record<string, Attempt>>(LOGIN_ATTEMPTS_KEY)) ?? {};
+  if (!subjects.some(subject => attempts[subject])) return;
+  await updateAttempts(current => {
+    for (const subject of subjects) delete current[subject];
+  });
+}
+
+// Mensagem para quem precisa esperar
+export function throttleMessage(check: Extract<LoginCheck, { allowed: false }>): string {
+  if (check.locked) {
+    return `Acesso bloqueado por excesso de tentativas. Tente novamente em ${Math.ceil(check.retryAfterMs / 60000)} minuto(s).`;
+  }
+  return `Muitas tentativas erradas. Aguarde ${Math.ceil(check.retryAfterMs / 1000)} segundo(s) e tente novamente.`;
+}
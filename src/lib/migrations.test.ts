@@ -0,0 +1,47 @@
+// src/lib/migrations.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { CURRENT_SCHEMA_VERSION, migrateCategory, migrateState } from './migrations';
+import { categoryDataSchema, type PlayoffBracket } from './types';
+
+// The db.json of the first versions: no schemaVersion, group playoffs stored as a single bracket
+const legacyDb = () => JSON.parse(readFileSync(path.join(__dirname, '../../db.json'), 'utf-8'));
+
+test('a category from the original db.json migrates to the current version and validates', () => {
+  const raw = legacyDb()['Masculino Avançado'];
+  assert.equal(raw.schemaVersion, undefined);
+
+  const { category, migrated } = migrateCategory(raw);
+  assert.ok(migrated);
+  assert.equal(category.schemaVersion, CURRENT_SCHEMA_VERSION);
+  const parsed = categoryDataSchema.safeParse(category);
+  assert.ok(parsed.success, parsed.success ? '' : JSON.stringify(parsed.error.issues.slice(0, 3)));
+
+  // v4: the knockout of a groups category moves under `playoffs`, next to the (empty) Taça Prata
+  const playoffs = category.playoffs as { playoffs?: PlayoffBracket; consolation?: PlayoffBracket };
+  assert.deepEqual(Object.keys(playoffs), ['playoffs']);
+  assert.deepEqual(Object.keys(playoffs.playoffs!), Object.keys(raw.playoffs));
+  assert.deepEqual(migrateCategory(category), { category, migrated: false });
+});
+
+test('the whole original db.json migrates, with the registry built from the team names', () => {
+  const state = migrateState(legacyDb());
+  assert.ok(Object.keys(state._registry.teams).length > 0);
+  for (const name of ['Masculino Avançado', 'Misto Iniciante', 'Misto Avançado']) {
+    assert.ok(categoryDataSchema.safeParse(state[name]).success, name);
+  }
+});
+
+test('older shapes are normalized step by step', () => {
+  const { category } = migrateCategory({
+    formValues: { tournamentType: 'singleElimination' },
+    tournamentData: { groups: { a: { name: 'Grupo A' } } },
+    playoffs: { upper: { Final: [] }, lower: {}, playoffs: { 'Disputa de 3º Lugar': [] } },
+  });
+  assert.deepEqual(category.tournamentData!.groups, [{ name: 'Grupo A', teams: [], matches: [], standings: [] }]);
+  assert.deepEqual(category.playoffs, { Final: [], 'Disputa de 3º Lugar': [] });
+  assert.equal(category.formValues.groupFormationStrategy, 'order');
+  assert.equal(category.formValues.includeThirdPlace, true);
+});
@@ -0,0 +1,156 @@
+// src/lib/migrations.ts
+import { categoryDataSchema, globalSettingsSchema, registrySchema, type CategoryData, type TournamentsState } from './types';
+import { DOUBLE_ELIMINATION_PARTS } from './brackets';
+import { syncRegistry } from './registry';
+import type { ZodError } from 'zod';
+
+// Uma categoria salva em qualquer versão anterior: só os campos que as migrações mexem, todos opcionais,
+// já que dados antigos podem não tê-los. O resultado da última migração é validado com categoryDataSchema.
+type StoredGroup = { teams?: unknown[]; matches?: unknown[]; standings?: unknown[] };
+type StoredBracket = Record<string, unknown>;
+
+type StoredCategory = {
+  tournamentData?: { groups?: StoredGroup[] | Record<string, StoredGroup> } | null;
+  playoffs?: StoredBracket | null;
+  formValues?: {
+    tournamentType?: string;
+    groupFormationStrategy?: string;
+    includeThirdPlace?: boolean;
+  };
+  schemaVersion?: number;
+};
+
+type Migration = {
+  version: number;
+  description: string;
+  up: (category: StoredCategory) => void; // altera a categoria no lugar
+};
+
+// Migrações das categorias salvas, em ordem. Cada uma leva a categoria da versão anterior para `version`.
+// Para mudar o formato salvo, acrescente uma migração no fim da lista (e ajuste categoryDataSchema).
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'tournamentData.groups sempre como array, com teams/matches/standings em cada grupo',
+    up: category => {
+      const tournamentData = category.tournamentData;
+      if (!tournamentData) return;
+      if (!tournamentData.groups) {
+        category.tournamentData = null;
+        return;
+      }
+      if (!Array.isArray(tournamentData.groups)) {
+        tournamentData.groups = Object.values(tournamentData.groups);
+      }
+      tournamentData.groups.forEach(group => {
+        group.teams ??= [];
+        group.matches ??= [];
+        group.standings ??= [];
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'playoffs no formato do tipo de torneio: { upper, lower, playoffs } na dupla eliminação, um único chaveamento nos demais',
+    up: category => {
+      const playoffs = category.playoffs;
+      if (!playoffs || Object.keys(playoffs).length === 0) {
+        category.playoffs = null;
+        return;
+      }
+      const keys = Object.keys(playoffs);
+      const isBracketSet = keys.every(key => (DOUBLE_ELIMINATION_PARTS as readonly string[]).includes(key));
+      const isDoubleElimination = category.formValues?.tournamentType === 'doubleElimination';
+
+      if (isDoubleElimination && !isBracketSet) {
+        category.playoffs = { playoffs };
+      } else if (!isDoubleElimination && isBracketSet) {
+        category.playoffs = Object.assign({}, ...DOUBLE_ELIMINATION_PARTS.map(part => (playoffs[part] ?? {}) as StoredBracket));
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'formValues com os padrões dos campos criados depois das primeiras versões',
+    up: category => {
+      const formValues = category.formValues ?? {};
+      formValues.groupFormationStrategy ??= 'order';
+      formValues.includeThirdPlace ??= true;
+      category.formValues = formValues;
+    },
+  },
+  {
+    version: 4,
+    description: 'playoffs dos grupos como { playoffs, consolation }, para caber a Taça Prata',
+    up: category => {
+      if (category.formValues?.tournamentType !== 'groups' || !category.playoffs) return;
+      category.playoffs = { playoffs: category.playoffs };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const formatIssues = (error: ZodError) =>
+  error.issues.slice(0, 5).map(issue => `${issue.path.join('.') || '(raiz)'}: ${issue.message}`).join('; ');
+
+// Leva uma categoria salva em qualquer versão para a versão atual
+export function migrateCategory(raw: unknown): { category: CategoryData; migrated: boolean } {
+  const from = Number((raw as CategoryData | null)?.schemaVersion ?? 0);
+  if (from === CURRENT_SCHEMA_VERSION) return { category: raw as CategoryData, migrated: false };
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Dados salvos na versão ${from}, mais nova que a suportada por esta aplicação (${CURRENT_SCHEMA_VERSION}).`);
+  }
+
+  if (!raw || typeof raw !== 'object') throw new Error('Categoria salva sem dados.');
+  const category: StoredCategory = structuredClone(raw);
+  MIGRATIONS.filter(migration => migration.version > from).forEach(migration => migration.up(category));
+  category.schemaVersion = CURRENT_SCHEMA_VERSION;
+  // Conferida por validateCategory em quem chama (upgradeStoredCategory e migrateState)
+  return { category: category as CategoryData, migrated: true };
+}
+
+// Retorna a descrição dos problemas, ou null se a categoria é válida
+export function validateCategory(category: CategoryData): string | null {
+  const result = categoryDataSchema.safeParse(category);
+  return result.success ? null : formatIssues(result.error);
+}
+
+// Migra e valida uma categoria lida do armazenamento. Dados inválidos são avisados no log, mas
+// continuam sendo servidos: uma categoria com problema não pode derrubar o evento inteiro.
+export function upgradeStoredCategory(name: string, raw: unknown): CategoryData {
+  const { category, migrated } = migrateCategory(raw);
+  if (migrated) {
+    const issues = validateCategory(category);
+    if (issues) console.warn(`Categoria "${name}" migrada, mas inválida: ${issues}`);
+  }
+  return category;
+}
+
+// Migra e valida um estado completo (ex.: um db.json exportado). Lança um erro se algo for inválido.
+export function migrateState(raw: unknown): TournamentsState {
+  if (!raw || typeof raw !== 'object' || !('_globalSettings' in raw)) {
+    throw new Error('Os dados não têm o formato esperado (faltam as configurações globais).');
+  }
+  const { _globalSettings, _registry, ...categories } = raw as Record<string, unknown>;
+
+  const settings = globalSettingsSchema.safeParse(_globalSettings);
+  if (!settings.success) {
+    throw new Error(`Configurações globais inválidas: ${formatIssues(settings.error)}`);
+  }
+  const registry = registrySchema.optional().safeParse(_registry);
+  if (!registry.success) {
+    throw new Error(`Cadastro de jogadores e duplas inválido: ${formatIssues(registry.error)}`);
+  }
+
+  const state = { _globalSettings, _registry } as TournamentsState;
+  for (const [name, rawCategory] of Object.entries(categories)) {
+    const { category } = migrateCategory(rawCategory);
+    const issues = validateCategory(category);
+    if (issues) throw new Error(`Categoria "${name}" inválida: ${issues}`);
+    state[name] = category;
+  }
+  // Dados de antes do cadastro de duplas: cadastra a partir dos nomes
+  if (!state._registry) syncRegistry(state);
+  return state;
+}
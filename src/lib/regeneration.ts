@@ -1,9 +1,11 @@
-
-
-'use server';
-
-import { useCallback } from "react";
-import type { TournamentFormValues, PlayoffBracketSet, GenerateTournamentGroupsOutput, PlayoffBracket, Team, MatchWithScore, GroupWithScores, TeamStanding, PlayoffMatch } from "./types";
+// src/lib/regeneration.ts
+import { playoffMatches, type GroupBrackets, type SwissBrackets } from "./brackets";
+import { parseTeamLine, teamLabel } from "./registry";
+import { createKingOfTheBeachRounds, maxKingOfTheBeachRounds, parsePlayerLines } from "./king-of-the-beach";
+import { defaultGroupPairings, drawOrder, parseGroupPairings, type GroupSlot } from "./seeding";
+import { nextPowerOfTwo, overallQualifierPlaceholder, separateGroups } from "./standings";
+import { createSwissRounds, initialSwissStandings, swissQualifierPlaceholder } from "./swiss";
+import type { CategoryData, TournamentFormValues, PlayoffBracketSet, GenerateTournamentGroupsOutput, PlayoffBracket, Team, MatchWithScore, GroupWithScores, TeamStanding, PlayoffMatch } from "./types";
 
 const teamToKey = (team?: Team) => {
     if (!team || !team.player1 || !team.player2) return '';
@@ -14,25 +16,11 @@ export async function calculateTotalMatches(categoryData: { formValues: Tourname
     let count = 0;
     const { formValues, tournamentData, playoffs } = categoryData;
     
-    if (formValues.tournamentType === 'groups' && tournamentData) {
+    if (tournamentData) {
         count += tournamentData.groups.reduce((acc, group) => acc + group.matches.length, 0);
     }
 
-    const countMatchesInBracket = (bracket: PlayoffBracket | undefined): number => {
-        if (!bracket) return 0;
-        return Object.values(bracket).reduce((total, round) => total + round.length, 0);
-    };
-
-    if (playoffs) {
-        if (formValues.tournamentType === 'doubleElimination' && ('upper' in playoffs || 'lower' in playoffs || 'playoffs' in playoffs)) {
-            const bracketSet = playoffs as PlayoffBracketSet;
-            count += countMatchesInBracket(bracketSet.upper);
-            count += countMatchesInBracket(bracketSet.lower);
-            count += countMatchesInBracket(bracketSet.playoffs);
-        } else {
-            count += countMatchesInBracket(playoffs as PlayoffBracket);
-        }
-    }
+    count += playoffMatches({ formValues, playoffs }).length;
     return count;
 };
 
@@ -75,10 +63,7 @@ export async function initializeDoubleEliminationBracket(values: TournamentFormV
     const numTeams = allTeamsList.length;
     if (numTeams < 2) return null;
 
-    let teams = [...allTeamsList];
-    if (values.groupFormationStrategy === 'random') {
-        teams.sort(() => Math.random() - 0.5);
-    }
+    const teams = drawOrder(allTeamsList, values.groupFormationStrategy, values.drawSeed);
     
     const bracketSize = Math.pow(2, Math.ceil(Math.log2(numTeams)));
     const byes = bracketSize - numTeams;
@@ -248,202 +233,280 @@ export async function initializeDoubleEliminationBracket(values: TournamentFormV
     return { upper: upperBracket, lower: lowerBracket, playoffs: finalPlayoffs };
 };
 
-export async function initializePlayoffs(values: TournamentFormValues, categoryName: string, aiResult?: GenerateTournamentGroupsOutput): Promise<PlayoffBracketSet | null> {
-        const categoryPrefix = categoryName.replace(/\s/g, '');
-
-        if (values.tournamentType === 'doubleElimination') {
-          return initializeDoubleEliminationBracket(values, categoryName);
-        }
-        if (values.tournamentType === 'singleElimination') {
-            if (!aiResult?.playoffMatches) return null;
+// Without team2Placeholder, team 1 has a bye: no match is created and it goes straight to the next round
+type KnockoutMatchup = { team1Placeholder: string; team2Placeholder?: string };
+
+// A knockout played apart from the main one (the Taça Prata): its name prefixes the match names, its id
+// the match ids, and it has no phase start times of its own
+type KnockoutStage = { id: string; name: string };
+
+const CONSOLATION_STAGE: KnockoutStage = { id: 'Prata', name: 'Taça Prata' };
+
+// A team reaching a placement round: its placeholder and the match it comes from
+type PlacementEntrant = { placeholder: string; match: PlayoffMatch; outcome: 'winner' | 'loser' };
+
+// Classification rounds for the places `firstPlace` onwards among the entrants: two entrants play for the
+// place ("Disputa de 5º Lugar"); more play a round ("Classificação 5º a 8º") whose winners play on for the
+// best of those places and whose losers for the rest, an odd entrant out going with the winners. A lone
+// entrant takes the place without playing, recorded on the match it comes from.
+function addPlacementRounds(bracket: PlayoffBracket, entrants: PlacementEntrant[], firstPlace: number, idPrefix: string, namePrefix: string, phaseStartTime: string) {
+    if (entrants.length === 0) return;
+    if (entrants.length === 1) {
+        const [{ match, outcome }] = entrants;
+        if (outcome === 'winner') match.winnerPlace = firstPlace;
+        else match.loserPlace = firstPlace;
+        return;
+    }
+    const roundName = entrants.length === 2
+        ? `Disputa de ${firstPlace}º Lugar`
+        : `Classificação ${firstPlace}º a ${firstPlace + entrants.length - 1}º`;
+    const roundNameKey = entrants.length === 2 ? `Disputa${firstPlace}Lugar` : `Classificacao${firstPlace}a${firstPlace + entrants.length - 1}`;
+    const pairs = Math.floor(entrants.length / 2);
+    bracket[roundName] = Array.from({ length: pairs }, (_, i): PlayoffMatch => ({
+        id: `${idPrefix}-${roundNameKey}-Jogo${i + 1}`,
+        name: entrants.length === 2 ? `${namePrefix}${roundName}` : `${namePrefix}${roundName} ${i + 1}`,
+        team1Placeholder: entrants[i].placeholder,
+        team2Placeholder: entrants[entrants.length - 1 - i].placeholder,
+        time: '',
+        court: '',
+        roundOrder: 0,
+        phaseStartTime,
+    }));
+    if (entrants.length === 2) {
+        Object.assign(bracket[roundName][0], { winnerPlace: firstPlace, loserPlace: firstPlace + 1 });
+        return;
+    }
 
-            const totalQualifiers = values.numberOfTeams;
-            if (totalQualifiers < 2) return null;
-            
-            let bracket: PlayoffBracket = {};
-            
-            const numTeams = totalQualifiers;
-            const isPowerOfTwo = numTeams > 1 && (numTeams & (numTeams - 1)) === 0;
-            if (!isPowerOfTwo) {
-                return null;
+    const winners: PlacementEntrant[] = bracket[roundName].map(match => ({ placeholder: `Vencedor ${match.id}`, match, outcome: 'winner' }));
+    const losers: PlacementEntrant[] = bracket[roundName].map(match => ({ placeholder: `Perdedor ${match.id}`, match, outcome: 'loser' }));
+    if (entrants.length % 2 === 1) winners.push(entrants[pairs]);
+    addPlacementRounds(bracket, winners, firstPlace, idPrefix, namePrefix, '');
+    addPlacementRounds(bracket, losers, firstPlace + winners.length, idPrefix, namePrefix, '');
+}
+
+// Knockout rounds from the first-round matchups of qualifier placeholders, up to the final (and the
+// third-place match, if enabled, or classification rounds for every place, if `placementMatches` is on).
+// The number of matchups (byes included) must be a power of 2.
+function buildKnockoutRounds(values: TournamentFormValues, categoryPrefix: string, firstRoundMatchups: KnockoutMatchup[], stage?: KnockoutStage): PlayoffBracket {
+    const idPrefix = stage ? `${categoryPrefix}-${stage.id}` : categoryPrefix;
+    const namePrefix = stage ? `${stage.name} - ` : '';
+    const totalQualifiers = firstRoundMatchups.length * 2;
+    let bracket: PlayoffBracket = {};
+
+    let teamsInRound = totalQualifiers;
+    let roundOrder = Math.log2(teamsInRound);
+    let currentMatchups = firstRoundMatchups;
+    let roundCounter = 1;
+    const rounds: { teamsInRound: number; matches: PlayoffMatch[] }[] = [];
+
+    while (teamsInRound >= 2) {
+        const roundName = teamsInRound === 2 ? 'Final' : (teamsInRound === 4 ? 'Semifinal' : (teamsInRound === 8 ? 'Quartas de Final' : (teamsInRound === 16 ? 'Oitavas de Final' : `Rodada ${roundCounter}`)));
+        const roundNameKey = roundName.replace(/\s/g, '');
+        bracket[roundName] = [];
+        const nextRoundPlaceholders = [];
+
+        for (let i = 0; i < currentMatchups.length; i++) {
+            const match = currentMatchups[i];
+            if (!match.team2Placeholder) {
+                nextRoundPlaceholders.push(match.team1Placeholder);
+                continue;
             }
+            const matchNumber = bracket[roundName].length + 1;
+            const matchName = `${namePrefix}${roundName} ${matchNumber}`;
+            const matchId = `${idPrefix}-${roundNameKey}-Jogo${matchNumber}`;
+
+            let phaseStartTime = '';
+            if (!stage && roundName === 'Quartas de Final') phaseStartTime = values.quarterFinalsStartTime || '';
+            if (!stage && roundName === 'Semifinal') phaseStartTime = values.semiFinalsStartTime || '';
+            if (!stage && roundName === 'Final') phaseStartTime = values.finalStartTime || '';
             
-            let teamsInRound = totalQualifiers;
-            let roundOrder = Math.log2(teamsInRound);
-            
-            let currentRoundMatches: PlayoffMatch[] = aiResult.playoffMatches.map((match, i) => ({
-                id: `${categoryPrefix}-Rodada1-Jogo${i + 1}`,
-                name: `Jogo ${i + 1}`,
-                team1: match.team1,
-                team2: match.team2,
-                team1Placeholder: teamToKey(match.team1),
-                team2Placeholder: teamToKey(match.team2),
+             bracket[roundName].push({
+                id: matchId,
+                name: matchName,
+                team1Placeholder: match.team1Placeholder,
+                team2Placeholder: match.team2Placeholder,
                 time: '',
                 court: '',
-                roundOrder: roundOrder
-            }));
+                roundOrder,
+                phaseStartTime,
+            });
+            nextRoundPlaceholders.push(`Vencedor ${matchId}`);
+        }
 
-            bracket[`Rodada 1`] = currentRoundMatches;
-            
-            teamsInRound /= 2;
-            roundOrder--;
-            let upperRound = 2;
-
-            while (teamsInRound >= 2) { 
-                const roundNameKey = teamsInRound === 4 ? 'Semifinal' : (teamsInRound === 2 ? 'Final' : `Quartas de Final`);
-                const roundName = teamsInRound === 4 ? 'Semifinal' : (teamsInRound === 2 ? 'Final' : `Quartas de Final`);
-                const nextRoundPlaceholders = [];
-                for (let i = 0; i < currentRoundMatches.length; i++) {
-                     nextRoundPlaceholders.push(`Vencedor ${currentRoundMatches[i].id}`);
-                }
-                
-                const nextRoundMatches: PlayoffMatch[] = [];
-                for (let i = 0; i < nextRoundPlaceholders.length / 2; i++) {
-                    const matchName = `${roundName} ${i + 1}`;
-                    const matchId = `${categoryPrefix}-${roundNameKey.replace(/\s/g, '')}-Jogo${i + 1}`;
-                    nextRoundMatches.push({
-                        id: matchId,
-                        name: matchName,
-                        team1Placeholder: nextRoundPlaceholders[i*2],
-                        team2Placeholder: nextRoundPlaceholders[i*2 + 1],
-                        time: '',
-                        court: '',
-                        roundOrder
-                    });
-                }
-
-                currentRoundMatches = nextRoundMatches;
-                bracket[roundNameKey] = currentRoundMatches;
-                
-                if(teamsInRound === 2) break;
-
-                teamsInRound /= 2;
-                roundOrder--;
-                upperRound++;
-            }
-            
-            if (values.includeThirdPlace && bracket['Semifinal']) {
-                const semiFinalLosers = bracket['Semifinal'].map(m => `Perdedor ${m.id}`);
-                
-                bracket['Disputa de 3º Lugar'] = [
-                    { id: `${categoryPrefix}-Disputa3Lugar-Jogo1`, name: 'Disputa de 3º Lugar', team1Placeholder: semiFinalLosers[0], team2Placeholder: semiFinalLosers[1], time: '', court: '', roundOrder: 0 }
-                ];
+        rounds.push({ teamsInRound, matches: bracket[roundName] });
+        if(nextRoundPlaceholders.length < 2) break;
+
+        const nextMatchups = [];
+        if (roundName === 'Quartas de Final') {
+            // Specific pairing for semifinals from QF winners
+            nextMatchups.push({
+                team1Placeholder: nextRoundPlaceholders[0], // Vencedor QF 1
+                team2Placeholder: nextRoundPlaceholders[3]  // Vencedor QF 4
+            });
+             nextMatchups.push({
+                team1Placeholder: nextRoundPlaceholders[2], // Vencedor QF 3
+                team2Placeholder: nextRoundPlaceholders[1]  // Vencedor QF 2
+            });
+        } else {
+            for(let i=0; i < nextRoundPlaceholders.length / 2; i++) {
+                nextMatchups.push({
+                    team1Placeholder: nextRoundPlaceholders[i],
+                    team2Placeholder: nextRoundPlaceholders[nextRoundPlaceholders.length - 1 - i],
+                });
             }
-            
-            return bracket;
+        }
+        currentMatchups = nextMatchups;
+        teamsInRound /= 2;
+        roundOrder--;
+        roundCounter++;
+    }
+    
+    bracket['Final']?.forEach(match => Object.assign(match, { winnerPlace: 1, loserPlace: 2 }));
+
+    // The losers of each round play for the places below the teams left in the next one: every round with
+    // placementMatches, only the semifinals (the third-place match) otherwise
+    const placementRounds = rounds.filter(round => round.teamsInRound > 2 && (values.placementMatches || (values.includeThirdPlace && round.teamsInRound === 4))).reverse();
+    for (const { teamsInRound: roundSize, matches } of placementRounds) {
+        const losers = matches.map((match): PlacementEntrant => ({ placeholder: `Perdedor ${match.id}`, match, outcome: 'loser' }));
+        addPlacementRounds(bracket, losers, roundSize / 2 + 1, idPrefix, namePrefix, !stage && roundSize === 4 ? values.finalStartTime || '' : '');
+    }
 
-        } else if (values.tournamentType === 'groups') {
-            const getTeamPlaceholder = (groupIndex: number, position: number) => {
-                const groupNameId = `Group${String.fromCharCode(65 + groupIndex)}`;
-                return `${position}º do ${categoryPrefix}-${groupNameId}`;
-            };
+    return bracket;
+}
 
-            const { numberOfGroups, teamsPerGroupToAdvance, includeThirdPlace } = values;
-            const totalQualifiers = numberOfGroups! * teamsPerGroupToAdvance!;
+// Placeholder of a group position, filled once the group is finished
+const groupPositionPlaceholder = (categoryPrefix: string, groupIndex: number, position: number) =>
+    `${position}º do ${categoryPrefix}-Group${String.fromCharCode(65 + groupIndex)}`;
 
-            if (totalQualifiers < 2 || (totalQualifiers & (totalQualifiers - 1)) !== 0) {
-                return null
-            }
+// Knockout of the group qualifiers: the admin's pairing matrix if there is one; otherwise, with a power of
+// 2 qualifiers, the default layout keeping teams of the same group apart (see defaultGroupPairings), and
+// with any other count, seeds across groups decided once every group is finished
+function buildGroupsKnockout(values: TournamentFormValues, categoryName: string): PlayoffBracket | null {
+    const categoryPrefix = categoryName.replace(/\s/g, '');
+    const { numberOfGroups, teamsPerGroupToAdvance } = values;
+    const totalQualifiers = numberOfGroups! * teamsPerGroupToAdvance!;
 
-            let bracket: PlayoffBracket = {};
-            const teamPlaceholders = [];
-            for (let i = 0; i < numberOfGroups!; i++) {
-                for (let j = 1; j <= teamsPerGroupToAdvance!; j++) {
-                    teamPlaceholders.push(getTeamPlaceholder(i, j));
-                }
-            }
-            
-            const firstRoundMatchups = [];
-            
-            if (totalQualifiers === 8 && numberOfGroups === 4 && teamsPerGroupToAdvance === 2) {
-                // Specific pairing for 8 qualifiers from 4 groups
-                firstRoundMatchups.push(
-                    { team1Placeholder: getTeamPlaceholder(0, 1), team2Placeholder: getTeamPlaceholder(3, 2) }, // 1A vs 2D
-                    { team1Placeholder: getTeamPlaceholder(1, 2), team2Placeholder: getTeamPlaceholder(2, 1) }, // 2B vs 1C
-                    { team1Placeholder: getTeamPlaceholder(1, 1), team2Placeholder: getTeamPlaceholder(2, 2) }, // 1B vs 2C
-                    { team1Placeholder: getTeamPlaceholder(0, 2), team2Placeholder: getTeamPlaceholder(3, 1) }  // 2A vs 1D
-                );
-            } else {
-                 const half = teamPlaceholders.length / 2;
-                for (let i = 0; i < half; i++) {
-                    firstRoundMatchups.push({
-                        team1Placeholder: teamPlaceholders[i],
-                        team2Placeholder: teamPlaceholders[teamPlaceholders.length - 1 - i],
-                    });
-                }
-            }
+    if (totalQualifiers < 2) {
+        return null
+    }
 
+    if (!values.pairings?.trim() && (totalQualifiers & (totalQualifiers - 1)) !== 0) {
+        // Seeds across groups, padded to the next power of 2: seed i plays seed size + 1 - i,
+        // and the best seeds, whose opponent would not exist, get a bye
+        const bracketSize = nextPowerOfTwo(totalQualifiers);
+        const seededMatchups = Array.from({ length: bracketSize / 2 }, (_, i): KnockoutMatchup => ({
+            team1Placeholder: overallQualifierPlaceholder(categoryName, i + 1),
+            team2Placeholder: bracketSize - i <= totalQualifiers ? overallQualifierPlaceholder(categoryName, bracketSize - i) : undefined,
+        }));
+        return buildKnockoutRounds(values, categoryPrefix, seededMatchups);
+    }
 
-            let teamsInRound = totalQualifiers;
-            let roundOrder = Math.log2(teamsInRound);
-            let currentMatchups = firstRoundMatchups;
-            let roundCounter = 1;
-
-            while (teamsInRound >= 2) {
-                const roundName = teamsInRound === 2 ? 'Final' : (teamsInRound === 4 ? 'Semifinal' : (teamsInRound === 8 ? 'Quartas de Final' : `Rodada ${roundCounter}`));
-                const roundNameKey = roundName.replace(/\s/g, '');
-                bracket[roundName] = [];
-                const nextRoundPlaceholders = [];
-
-                for (let i = 0; i < currentMatchups.length; i++) {
-                    const match = currentMatchups[i];
-                    const matchName = `${roundName} ${i + 1}`;
-                    const matchId = `${categoryPrefix}-${roundNameKey}-Jogo${i + 1}`;
-
-                    let phaseStartTime = '';
-                    if (roundName === 'Quartas de Final') phaseStartTime = values.quarterFinalsStartTime || '';
-                    if (roundName === 'Semifinal') phaseStartTime = values.semiFinalsStartTime || '';
-                    if (roundName === 'Final') phaseStartTime = values.finalStartTime || '';
-                    
-                     bracket[roundName].push({
-                        id: matchId,
-                        name: matchName,
-                        team1Placeholder: match.team1Placeholder,
-                        team2Placeholder: match.team2Placeholder,
-                        time: '',
-                        court: '',
-                        roundOrder,
-                        phaseStartTime,
-                    });
-                    nextRoundPlaceholders.push(`Vencedor ${matchId}`);
-                }
-
-                if(nextRoundPlaceholders.length < 2) break;
-
-                const nextMatchups = [];
-                if (roundName === 'Quartas de Final') {
-                    // Specific pairing for semifinals from QF winners
-                    nextMatchups.push({
-                        team1Placeholder: nextRoundPlaceholders[0], // Vencedor QF 1
-                        team2Placeholder: nextRoundPlaceholders[3]  // Vencedor QF 4
-                    });
-                     nextMatchups.push({
-                        team1Placeholder: nextRoundPlaceholders[2], // Vencedor QF 3
-                        team2Placeholder: nextRoundPlaceholders[1]  // Vencedor QF 2
-                    });
-                } else {
-                    for(let i=0; i < nextRoundPlaceholders.length / 2; i++) {
-                        nextMatchups.push({
-                            team1Placeholder: nextRoundPlaceholders[i],
-                            team2Placeholder: nextRoundPlaceholders[nextRoundPlaceholders.length - 1 - i],
-                        });
-                    }
-                }
-                currentMatchups = nextMatchups;
-                teamsInRound /= 2;
-                roundOrder--;
-                roundCounter++;
-            }
-            
-            if (includeThirdPlace && bracket['Semifinal']) {
-                const semiFinalLosers = bracket['Semifinal'].map(m => `Perdedor ${m.id}`);
-                
-                bracket['Disputa de 3º Lugar'] = [
-                    { id: `${categoryPrefix}-Disputa3Lugar-Jogo1`, name: 'Disputa de 3º Lugar', team1Placeholder: semiFinalLosers[0], team2Placeholder: semiFinalLosers[1], time: '', court: '', roundOrder: 0, phaseStartTime: values.finalStartTime || '' }
-                ];
-            }
+    const pairings = values.pairings?.trim()
+        ? parseGroupPairings(values.pairings, numberOfGroups!, teamsPerGroupToAdvance!)
+        : defaultGroupPairings(numberOfGroups!, teamsPerGroupToAdvance!);
+    const placeholder = (slot: GroupSlot) => groupPositionPlaceholder(categoryPrefix, slot.group, slot.position);
+    const firstRoundMatchups = pairings.map(([a, b]): KnockoutMatchup => ({
+        team1Placeholder: placeholder(a),
+        team2Placeholder: b && placeholder(b),
+    }));
+    return buildKnockoutRounds(values, categoryPrefix, firstRoundMatchups);
+}
+
+// Taça Prata: a knockout of the teams that did not advance from their group, seeded by position (every
+// 3rd place, then every 4th...) and padded with byes like the main knockout, keeping teams of the same
+// group apart in the first round. Null with fewer than 2 of them.
+function buildConsolationBracket(values: TournamentFormValues, categoryName: string): PlayoffBracket | null {
+    const categoryPrefix = categoryName.replace(/\s/g, '');
+    const numberOfGroups = values.numberOfGroups ?? 0;
+    const advancing = values.teamsPerGroupToAdvance ?? 0;
+    const totalTeams = values.teams.split("\n").map(t => t.trim()).filter(Boolean).length;
+    if (numberOfGroups < 1) return null;
+
+    // Groups are dealt one team at a time, so the first `totalTeams % numberOfGroups` get one team more
+    const groupSize = (groupIndex: number) => Math.floor(totalTeams / numberOfGroups) + (groupIndex < totalTeams % numberOfGroups ? 1 : 0);
+    const seeds: { groupIndex: number; placeholder: string }[] = [];
+    for (let position = advancing + 1; position <= groupSize(0); position++) {
+        for (let groupIndex = 0; groupIndex < numberOfGroups; groupIndex++) {
+            if (position <= groupSize(groupIndex)) seeds.push({ groupIndex, placeholder: groupPositionPlaceholder(categoryPrefix, groupIndex, position) });
+        }
+    }
+    if (seeds.length < 2) return null;
+
+    const placeholders = separateGroups(seeds, seed => seed.groupIndex).map(seed => seed.placeholder);
+    const bracketSize = nextPowerOfTwo(placeholders.length);
+    const seededMatchups = Array.from({ length: bracketSize / 2 }, (_, i): KnockoutMatchup => ({
+        team1Placeholder: placeholders[i],
+        team2Placeholder: placeholders[bracketSize - 1 - i],
+    }));
+    return buildKnockoutRounds(values, categoryPrefix, seededMatchups, CONSOLATION_STAGE);
+}
+
+export async function initializePlayoffs(values: TournamentFormValues, categoryName: string): Promise<PlayoffBracketSet | null> {
+        const categoryPrefix = categoryName.replace(/\s/g, '');
 
+        if (values.tournamentType === 'doubleElimination') {
+          return initializeDoubleEliminationBracket(values, categoryName);
+        }
+        if (values.tournamentType === 'singleElimination') {
+            // Standard seeded bracket: seeds in list order (or drawn), padded to the next power of 2. Seed i
+            // plays seed size + 1 - i, so the top seeds get the byes and seeds 1 and 2 only meet in the final.
+            const teams = drawOrder(values.teams.split("\n").map(t => t.trim()).filter(Boolean).map(parseTeamLine), values.groupFormationStrategy, values.drawSeed);
+            if (teams.length < 2) return null;
+
+            const bracketSize = nextPowerOfTwo(teams.length);
+            const seededMatchups = Array.from({ length: bracketSize / 2 }, (_, i): KnockoutMatchup => ({
+                team1Placeholder: teamLabel(teams[i]),
+                team2Placeholder: bracketSize - 1 - i < teams.length ? teamLabel(teams[bracketSize - 1 - i]) : undefined,
+            }));
+            const bracket = buildKnockoutRounds(values, categoryPrefix, seededMatchups);
+
+            // Teams known from the start are set right away: the first round and the seeds after a bye
+            const teamsByLabel = new Map(teams.map(team => [teamLabel(team), team]));
+            Object.values(bracket).flat().forEach(match => {
+                const team1 = match.team1Placeholder && teamsByLabel.get(match.team1Placeholder);
+                const team2 = match.team2Placeholder && teamsByLabel.get(match.team2Placeholder);
+                if (team1) match.team1 = { ...team1 };
+                if (team2) match.team2 = { ...team2 };
+            });
             return bracket;
+
+        } else if (values.tournamentType === 'groups') {
+            const knockout = buildGroupsKnockout(values, categoryName);
+            const consolation = values.consolationBracket ? buildConsolationBracket(values, categoryName) : null;
+            if (!knockout && !consolation) return null;
+            const brackets: GroupBrackets = {};
+            if (knockout) brackets.playoffs = knockout;
+            if (consolation) brackets.consolation = consolation;
+            return brackets;
+        } else if (values.tournamentType === 'swiss') {
+            // Knockout of the Swiss cut: 1st x last, 2nd x second to last...
+            const cut = values.swissCut ?? 0;
+            if (cut < 2 || (cut & (cut - 1)) !== 0) {
+                return null;
+            }
+            const firstRoundMatchups = Array.from({ length: cut / 2 }, (_, i) => ({
+                team1Placeholder: swissQualifierPlaceholder(categoryName, i + 1),
+                team2Placeholder: swissQualifierPlaceholder(categoryName, cut - i),
+            }));
+            return buildKnockoutRounds(values, categoryPrefix, firstRoundMatchups);
         }
         return null;
     };
+
+// Swiss system: every round (only the first one paired), the standings in draw order and the knockout
+// of the cut, if there is one
+export async function initializeSwiss(values: TournamentFormValues, categoryName: string): Promise<Pick<CategoryData, 'playoffs' | 'swissStandings'>> {
+    const teams = drawOrder(values.teams.split("\n").map(t => t.trim()).filter(Boolean).map(parseTeamLine), values.groupFormationStrategy, values.drawSeed);
+
+    const knockout = await initializePlayoffs(values, categoryName);
+    const playoffs: SwissBrackets = { swiss: createSwissRounds(teams, values.swissRounds!, categoryName) };
+    if (knockout) playoffs.playoffs = knockout as PlayoffBracket;
+    return { playoffs, swissStandings: initialSwissStandings(teams) };
+}
+
+// Rei da Praia: every round, with the partners drawn from the list order (or a shuffled one)
+export async function initializeKingOfTheBeach(values: TournamentFormValues, categoryName: string): Promise<PlayoffBracket> {
+    const players = drawOrder(parsePlayerLines(values.teams), values.groupFormationStrategy, values.drawSeed);
+    const rounds = values.kingOfTheBeachRounds ?? maxKingOfTheBeachRounds(players.length);
+    return createKingOfTheBeachRounds(players, rounds, categoryName);
+}
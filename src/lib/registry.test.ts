@@ -0,0 +1,81 @@
+// src/lib/registry.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { emptyRegistry, forEachTeam, parseTeamLine, renameTeam, syncRegistry, teamLabel } from './registry';
+import type { CategoryData, Team, TournamentsState } from './types';
+
+const team = (line: string): Team => parseTeamLine(line);
+
+// A groups category (group teams, matches and standings) and a knockout whose first round spells out the teams
+function eventState(): TournamentsState {
+  const groups = {
+    formValues: { tournamentType: 'groups', teams: 'Ana e Bia\nCai e Duda' },
+    tournamentData: {
+      groups: [{
+        name: 'Grupo A',
+        teams: [team('Ana e Bia'), team('Cai e Duda')],
+        matches: [{ team1: team('Ana e Bia'), team2: team('Cai e Duda') }],
+        standings: [{ team: team('Ana e Bia'), played: 0, wins: 0, setsWon: 0, setDifference: 0, points: 0 }],
+      }],
+    },
+    playoffs: null,
+  };
+  const knockout = {
+    formValues: { tournamentType: 'singleElimination', teams: 'Ana e Bia\nEva e Fê' },
+    tournamentData: null,
+    playoffs: {
+      Final: [{ id: 'Mata-Final-Jogo1', name: 'Final 1', team1Placeholder: 'Ana e Bia', team2Placeholder: 'Eva e Fê', team1: team('Ana e Bia'), team2: team('Eva e Fê') }],
+    },
+  };
+  const state = { _globalSettings: {}, _registry: emptyRegistry(), Grupos: groups, Mata: knockout } as unknown as TournamentsState;
+  syncRegistry(state);
+  return state;
+}
+
+const category = (state: TournamentsState, name: string) => state[name] as CategoryData;
+const idOf = (state: TournamentsState, line: string) => category(state, 'Mata').teamIds![category(state, 'Mata').formValues.teams.split('\n').indexOf(line)];
+
+const embeddedLabels = (state: TournamentsState) => ['Grupos', 'Mata'].flatMap(name => {
+  const labels: string[] = [];
+  forEachTeam(category(state, name), t => labels.push(teamLabel(t)));
+  return labels;
+});
+
+test('renaming a player updates every embedded copy and the placeholders', () => {
+  const state = eventState();
+  renameTeam(state._registry, idOf(state, 'Ana e Bia'), 'Ana Paula', 'Bia');
+  syncRegistry(state);
+
+  const labels = embeddedLabels(state);
+  assert.ok(!labels.includes('Ana e Bia'));
+  assert.equal(labels.filter(label => label === 'Ana Paula e Bia').length, 4);
+  assert.equal(category(state, 'Grupos').formValues.teams, 'Ana Paula e Bia\nCai e Duda');
+  assert.equal(category(state, 'Mata').formValues.teams, 'Ana Paula e Bia\nEva e Fê');
+  const final = (category(state, 'Mata').playoffs as Record<string, { team1Placeholder?: string }[]>).Final[0];
+  assert.equal(final.team1Placeholder, 'Ana Paula e Bia');
+});
+
+test("renaming into an existing player's name merges them", () => {
+  const state = eventState();
+  const players = Object.keys(state._registry.players).length;
+  renameTeam(state._registry, idOf(state, 'Eva e Fê'), 'Cai', 'Fê');
+  syncRegistry(state);
+
+  const cai = Object.values(state._registry.players).filter(player => player.name === 'Cai');
+  assert.equal(cai.length, 1);
+  const renamed = state._registry.teams[idOf(state, 'Cai e Fê')];
+  assert.equal(renamed.player1Id, cai[0].id);
+  // Eva is gone: nobody plays under that name anymore
+  assert.equal(Object.keys(state._registry.players).length, players - 1);
+  assert.ok(!Object.values(state._registry.players).some(player => player.name === 'Eva'));
+});
+
+test('registry entries that no category uses are pruned', () => {
+  const state = eventState();
+  assert.deepEqual(Object.values(state._registry.players).map(player => player.name).sort(), ['Ana', 'Bia', 'Cai', 'Duda', 'Eva', 'Fê']);
+
+  delete state.Mata;
+  syncRegistry(state);
+  assert.deepEqual(Object.values(state._registry.players).map(player => player.name).sort(), ['Ana', 'Bia', 'Cai', 'Duda']);
+  assert.equal(Object.keys(state._registry.teams).length, 2);
+});
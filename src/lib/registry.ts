@@ -0,0 +1,230 @@
+// src/lib/registry.ts
+import { playoffMatches } from './brackets';
+import { isCategoryKey, type CategoryData, type Player, type RegisteredTeam, type Registry, type Team, type TournamentsState } from './types';
+
+// Every player and team of an event lives once in the registry, under a stable id. Categories embed
+// teams as { id, player1Id, player2Id, player1, player2 }, where the names are display copies that
+// syncRegistry() rewrites from the registry before every write. Renaming a player is therefore a single
+// registry change that reaches groups, standings, brackets and the teams list at once.
+
+export const emptyRegistry = (): Registry => ({ players: {}, teams: {} });
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ');
+export const nameKey = (name: string) => normalizeName(name).toLocaleLowerCase('pt-BR');
+
+const slug = (name: string) =>
+  nameKey(name).normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'x';
+
+function uniqueId(base: string, taken: Record<string, unknown>): string {
+  let id = base;
+  for (let n = 2; taken[id]; n++) id = `${base}-${n}`;
+  return id;
+}
+
+// "João e Maria" -> { player1: "João", player2: "Maria" }
+export function parseTeamLine(line: string): Team {
+  const [player1 = '', player2 = ''] = line.split(/\s+e\s+/i).map(normalizeName);
+  return { player1, player2 };
+}
+
+export const teamLabel = (team: Pick<Team, 'player1' | 'player2'>) => `${team.player1} e ${team.player2}`;
+
+// Identity of an embedded team: its id, or its (order-insensitive) names for data not yet linked to the registry
+export function teamKey(team?: Partial<Team>): string {
+  if (!team) return '';
+  if (team.id) return team.id;
+  if (!team.player1 || !team.player2) return '';
+  return [nameKey(team.player1), nameKey(team.player2)].sort().join(' e ');
+}
+
+export function sameTeam(a?: Partial<Team>, b?: Partial<Team>): boolean {
+  const key = teamKey(a);
+  return key !== '' && key === teamKey(b);
+}
+
+// Player ids of one side of a match: from its team, or from a placeholder that spells out a team
+// ("João e Maria", as in the first bracket rounds). Names not in the registry stand for themselves.
+export function sidePlayerIds(registry: Registry | undefined, team?: Partial<Team>, placeholder?: string): string[] {
+  if (team?.player1Id && team.player2Id) return [team.player1Id, team.player2Id];
+  let names: string[] = [];
+  if (team?.player1 && team.player2) {
+    names = [team.player1, team.player2];
+  } else if (placeholder && /\s+e\s+/i.test(placeholder)) {
+    const parsed = parseTeamLine(placeholder);
+    names = [parsed.player1, parsed.player2];
+  }
+  return names.filter(Boolean).map(name => (registry && findPlayer(registry, name)?.id) || nameKey(name));
+}
+
+export function findPlayer(registry: Registry, name: string): Player | undefined {
+  const key = nameKey(name);
+  return Object.values(registry.players).find(p => nameKey(p.name) === key);
+}
+
+export function registerPlayer(registry: Registry, name: string): Player {
+  const existing = findPlayer(registry, name);
+  if (existing) return existing;
+  const player = { id: uniqueId(`p-${slug(name)}`, registry.players), name: normalizeName(name) };
+  registry.players[player.id] = player;
+  return player;
+}
+
+export function findTeam(registry: Registry, player1Id: string, player2Id: string): RegisteredTeam | undefined {
+  return Object.values(registry.teams).find(t =>
+    (t.player1Id === player1Id && t.player2Id === player2Id) || (t.player1Id === player2Id && t.player2Id === player1Id));
+}
+
+export function findTeamByNames(registry: Registry, player1: string, player2: string): RegisteredTeam | undefined {
+  const p1 = findPlayer(registry, player1);
+  const p2 = findPlayer(registry, player2);
+  return p1 && p2 ? findTeam(registry, p1.id, p2.id) : undefined;
+}
+
+export function registerTeam(registry: Registry, player1: string, player2: string): RegisteredTeam {
+  const p1 = registerPlayer(registry, player1);
+  const p2 = registerPlayer(registry, player2);
+  const existing = findTeam(registry, p1.id, p2.id);
+  if (existing) return existing;
+  const team = { id: uniqueId(`t-${p1.id.slice(2)}-${p2.id.slice(2)}`, registry.teams), player1Id: p1.id, player2Id: p2.id };
+  registry.teams[team.id] = team;
+  return team;
+}
+
+// The embedded copy of a registered team, with the current names
+export function embedTeam(registry: Registry, teamId: string): Team | undefined {
+  const team = registry.teams[teamId];
+  if (!team) return undefined;
+  return {
+    id: team.id,
+    player1Id: team.player1Id,
+    player2Id: team.player2Id,
+    player1: registry.players[team.player1Id]?.name ?? '',
+    player2: registry.players[team.player2Id]?.name ?? '',
+  };
+}
+
+// Every embedded team of a category: group teams, group matches, standings and bracket matches
+export function forEachTeam(category: CategoryData, fn: (team: Team) => void) {
+  category.swissStandings?.forEach(s => s.team && fn(s.team));
+  for (const group of category.tournamentData?.groups ?? []) {
+    group.teams.forEach(fn);
+    group.standings.forEach(s => s.team && fn(s.team));
+    group.matches.forEach(m => {
+      if (m.team1) fn(m.team1);
+      if (m.team2) fn(m.team2);
+    });
+  }
+  for (const match of playoffMatches(category)) {
+    if (match.team1) fn(match.team1);
+    if (match.team2) fn(match.team2);
+  }
+}
+
+// Rei da Praia categories list players instead of teams
+const isIndividual = (category: CategoryData) => category.formValues.tournamentType === 'kingOfTheBeach';
+
+const teamLines = (category: CategoryData) => (category.formValues.teams ?? '').split('\n').map(t => t.trim()).filter(Boolean);
+
+// Gives registry ids to everything that has none yet: the teams list of the form and the embedded teams
+// (categories from before the registry, freshly generated ones, or teams resolved into a bracket by a client).
+function linkCategory(registry: Registry, category: CategoryData) {
+  const lines = teamLines(category);
+  if (isIndividual(category)) {
+    // The list holds players; the rotating pairs are registered from the matches below
+    category.teamIds = [];
+    if (!category.playerIds || category.playerIds.length !== lines.length || category.playerIds.some(id => !registry.players[id])) {
+      category.playerIds = lines.map(line => registerPlayer(registry, line).id);
+    }
+  } else if (!category.teamIds || category.teamIds.length !== lines.length || category.teamIds.some(id => !registry.teams[id])) {
+    category.teamIds = lines.map(line => {
+      const { player1, player2 } = parseTeamLine(line);
+      return registerTeam(registry, player1, player2).id;
+    });
+  }
+  forEachTeam(category, team => {
+    if (team.id && registry.teams[team.id]) return;
+    if (!team.player1 || !team.player2) return;
+    const registered = registerTeam(registry, team.player1, team.player2);
+    Object.assign(team, { id: registered.id, player1Id: registered.player1Id, player2Id: registered.player2Id });
+  });
+}
+
+// Rewrites the names of a category from the registry, collecting the labels that changed (old -> new)
+function refreshCategory(registry: Registry, category: CategoryData, renamed: Map<string, string>) {
+  const lines = teamLines(category);
+  const labels = isIndividual(category)
+    ? (category.playerIds ?? []).map(id => registry.players[id]?.name ?? '')
+    : (category.teamIds ?? []).map(id => teamLabel(embedTeam(registry, id)!));
+  lines.forEach((line, i) => {
+    if (labels[i] !== undefined && line !== labels[i]) renamed.set(line, labels[i]);
+  });
+  if (labels.some((label, i) => label !== lines[i])) category.formValues.teams = labels.join('\n');
+
+  forEachTeam(category, team => {
+    const current = team.id ? embedTeam(registry, team.id) : undefined;
+    if (!current) return;
+    const before = teamLabel(team);
+    if (before !== teamLabel(current)) renamed.set(before, teamLabel(current));
+    Object.assign(team, current);
+  });
+}
+
+// Links and refreshes every category, then drops registry entries no category refers to anymore.
+// Placeholders that still spell out a team (first bracket rounds, byes) follow its new name.
+export function syncRegistry(state: TournamentsState) {
+  const registry = (state._registry ??= emptyRegistry());
+  const categories = Object.keys(state).filter(isCategoryKey).map(name => state[name] as CategoryData);
+  const renamed = new Map<string, string>();
+
+  for (const category of categories) linkCategory(registry, category);
+  for (const category of categories) refreshCategory(registry, category, renamed);
+  if (renamed.size > 0) {
+    for (const match of categories.flatMap(c => playoffMatches(c))) {
+      if (match.team1Placeholder && renamed.has(match.team1Placeholder)) match.team1Placeholder = renamed.get(match.team1Placeholder);
+      if (match.team2Placeholder && renamed.has(match.team2Placeholder)) match.team2Placeholder = renamed.get(match.team2Placeholder);
+    }
+  }
+
+  const usedTeams = new Set<string>();
+  for (const category of categories) {
+    category.teamIds?.forEach(id => usedTeams.add(id));
+    forEachTeam(category, team => team.id && usedTeams.add(team.id));
+  }
+  const usedPlayers = new Set<string>(categories.flatMap(category => category.playerIds ?? []));
+  for (const team of Object.values(registry.teams)) {
+    if (!usedTeams.has(team.id)) {
+      delete registry.teams[team.id];
+      continue;
+    }
+    usedPlayers.add(team.player1Id);
+    usedPlayers.add(team.player2Id);
+  }
+  for (const id of Object.keys(registry.players)) {
+    if (!usedPlayers.has(id)) delete registry.players[id];
+  }
+}
+
+// Renames the players of a registered team. A new name that already belongs to another registered
+// player means that player (the same person in another team or category); otherwise the player is
+// renamed everywhere. Throws on invalid input.
+export function renameTeam(registry: Registry, teamId: string, player1: string, player2: string) {
+  const team = registry.teams[teamId];
+  if (!team) throw new Error("Dupla não encontrada.");
+  const names = [normalizeName(player1), normalizeName(player2)];
+  if (names.some(name => !name)) throw new Error("Informe o nome dos dois jogadores.");
+  if (nameKey(names[0]) === nameKey(names[1])) throw new Error("Os dois jogadores da dupla não podem ser a mesma pessoa.");
+
+  const current = [registry.players[team.player1Id], registry.players[team.player2Id]];
+  const ids = names.map((name, i) =>
+    current[i] && nameKey(current[i].name) === nameKey(name) ? current[i].id : findPlayer(registry, name)?.id);
+  names.forEach((name, i) => {
+    if (ids[i] === undefined) {
+      // Nobody with this name yet: rename the player, unless the other slot now points to them
+      ids[i] = current[i] && !ids.includes(current[i].id) ? current[i].id : registerPlayer(registry, name).id;
+    }
+    registry.players[ids[i]!].name = name;
+  });
+  if (ids[0] === ids[1]) throw new Error("Os dois jogadores da dupla não podem ser a mesma pessoa.");
+  team.player1Id = ids[0]!;
+  team.player2Id = ids[1]!;
+}
@@ -0,0 +1,105 @@
+// src/lib/scheduler.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initializePlayoffs } from './regeneration';
+import { scheduleMatches, type MatchRow } from './scheduler';
+import type { GroupBrackets } from './brackets';
+import type { PlayoffBracket, TournamentFormValues } from './types';
+
+const PARAMETERS = {
+  estimatedMatchDuration: '20',
+  endTime: '23:59',
+  court_0_name: 'Quadra 1',
+  court_0_slot_0: '00:00-23:59',
+  'Eliminatória__startTime': '00:00',
+  'Eliminatória__playoffPriority': '999',
+  'Rei da Praia__startTime': '00:00',
+  'Rei da Praia__playoffPriority': '1',
+};
+
+async function knockoutRows(category: string, numberOfTeams: number): Promise<MatchRow[]> {
+  const teams = Array.from({ length: numberOfTeams }, (_, i) => `A${i + 1} e B${i + 1}`).join('\n');
+  const values = { category, tournamentType: 'singleElimination', teams, groupFormationStrategy: 'order', includeThirdPlace: true } as TournamentFormValues;
+  const bracket = (await initializePlayoffs(values, category))!;
+  return Object.values(bracket).flat().map(match => {
+    const sides = [match.team1Placeholder ?? '', match.team2Placeholder ?? ''];
+    return {
+      matchId: match.id,
+      category,
+      stage: match.name ?? '',
+      team1: sides[0],
+      team2: sides[1],
+      players: sides.filter(side => !/^(Vencedor|Perdedor) /.test(side)).flatMap(side => side.split(' e ')),
+      dependencies: sides.map(side => side.match(/^(?:Vencedor|Perdedor) (.+)$/)?.[1]).filter((id): id is string => !!id),
+    };
+  });
+}
+
+const kingOfTheBeachRows = (category: string): MatchRow[] =>
+  Array.from({ length: 4 }, (_, i) => ({
+    matchId: `${category}-Rodada1-Jogo${i + 1}`,
+    category,
+    stage: `Rodada 1 - Jogo ${i + 1}`,
+    team1: `R${i}a e R${i}b`,
+    team2: `R${i}c e R${i}d`,
+    players: [`R${i}a`, `R${i}b`, `R${i}c`, `R${i}d`],
+    dependencies: [],
+  }));
+
+test('the "Rodada N" rounds of a 32-team knockout keep playoff priority over round-robin rounds', async () => {
+  const knockout = await knockoutRows('Eliminatória', 32);
+  const firstRound = knockout.filter(row => row.stage.startsWith('Rodada 1 '));
+  assert.equal(firstRound.length, 16);
+
+  const { scheduled } = scheduleMatches([...knockout, ...kingOfTheBeachRows('Rei da Praia')], PARAMETERS);
+  const timeOf = new Map(scheduled.map(match => [match.id, match.time!]));
+  const lastFirstRound = firstRound.map(row => timeOf.get(row.matchId)!).sort().at(-1)!;
+  const firstKingOfTheBeach = scheduled.filter(match => match.category === 'Rei da Praia').map(match => match.time!).sort()[0];
+  assert.ok(lastFirstRound < firstKingOfTheBeach, `${lastFirstRound} should come before ${firstKingOfTheBeach}`);
+});
+
+test('the Taça Prata of a category is scheduled after its main knockout', async () => {
+  const category = 'Grupos';
+  const teams = Array.from({ length: 8 }, (_, i) => `A${i + 1} e B${i + 1}`);
+  const values = { category, tournamentType: 'groups', teams: teams.join('\n'), groupFormationStrategy: 'order', numberOfGroups: 2, teamsPerGroupToAdvance: 2, consolationBracket: true } as TournamentFormValues;
+  const brackets = (await initializePlayoffs(values, category)) as GroupBrackets;
+
+  // Two groups of four, every pair once
+  const groupRows: MatchRow[] = ['A', 'B'].flatMap((group, g) => {
+    const groupTeams = teams.slice(g * 4, g * 4 + 4);
+    return groupTeams.flatMap((team1, i) => groupTeams.slice(i + 1).map((team2): MatchRow => ({
+      matchId: `${category}-Grupo${group}-${team1}-${team2}`,
+      category,
+      stage: `Grupo ${group}`,
+      team1,
+      team2,
+      players: [...team1.split(' e '), ...team2.split(' e ')],
+      dependencies: [],
+    })));
+  });
+  // Group positions ("1º do Grupos-GroupA") wait for every group match
+  const bracketRows = (bracket: PlayoffBracket): MatchRow[] => Object.values(bracket).flat().map(match => {
+    const sides = [match.team1Placeholder ?? '', match.team2Placeholder ?? ''];
+    return {
+      matchId: match.id,
+      category,
+      stage: match.name ?? '',
+      team1: sides[0],
+      team2: sides[1],
+      players: [],
+      dependencies: sides.flatMap(side => side.match(/^(?:Vencedor|Perdedor) (.+)$/)?.[1] ?? groupRows.map(row => row.matchId)),
+    };
+  });
+  const knockout = bracketRows(brackets.playoffs!);
+  const consolation = bracketRows(brackets.consolation!);
+  assert.ok(consolation.every(row => row.stage.startsWith('Taça Prata')));
+
+  const { scheduled, unscheduled } = scheduleMatches([...consolation, ...knockout, ...groupRows], { ...PARAMETERS, [`${category}__startTime`]: '00:00' });
+  assert.equal(unscheduled.length, 0);
+  const timeOf = new Map(scheduled.map(match => [match.id, match.time!]));
+  const lastGroup = groupRows.map(row => timeOf.get(row.matchId)!).sort().at(-1)!;
+  const knockoutTimes = knockout.map(row => timeOf.get(row.matchId)!).sort();
+  const firstConsolation = consolation.map(row => timeOf.get(row.matchId)!).sort()[0];
+  assert.ok(lastGroup < knockoutTimes[0], `${lastGroup} should come before ${knockoutTimes[0]}`);
+  assert.ok(knockoutTimes.at(-1)! < firstConsolation, `${knockoutTimes.at(-1)} should come before ${firstConsolation}`);
+});
@@ -7,7 +7,9 @@ export interface MatchRow {
   stage: string;
   team1: string;
   team2: string;
+  players: string[]; // player ids of both teams (see sidePlayerIds in src/lib/registry.ts)
   dependencies: string[];
+  round?: number; // group and league matches: the rodada, played in order within the category
 }
 
 export interface SchedulingLog {
@@ -49,6 +51,7 @@ class Match {
   team2: string;
   players: string[];
   dependencies: string[];
+  round?: number;
   time?: string;
   court?: string;
   phaseStartTime?: Date;
@@ -59,8 +62,9 @@ class Match {
     this.stage = row.stage;
     this.team1 = row.team1;
     this.team2 = row.team2;
-    this.players = this.extractPlayers(this.team1).concat(this.extractPlayers(this.team2));
+    this.players = [...new Set(row.players)];
     this.dependencies = row.dependencies;
+    this.round = row.round;
     
     // Find the correct phase start time by checking if the stage name starts with the key.
     // This handles "Semifinal 1" and "Semifinal 2" matching a "Semifinal" key.
@@ -77,23 +81,24 @@ class Match {
       }
     }
   }
-
-  private extractPlayers(team: string): string[] {
-    if (!team || !team.includes(' e ')) return [];
-    return team.split(/\s+e\s+/).map(p => p.trim()).filter(Boolean);
-  }
 }
 
+const isConsolationStage = (stage: string) => !!stage && stage.toLowerCase().includes("prata");
+
 function getStagePriority(stage: string): number {
     if (!stage) return 50; // Default priority for undefined stages
     const s = stage.toLowerCase();
+    // Taça Prata (consolation) rounds come after the groups, below every round of the main knockout.
+    // Within a category, where stages sort the other way, isConsolationStage keeps them last.
+    if (isConsolationStage(stage)) return 10;
     if (s.includes("final") && !s.includes("disputa")) return 100;
-    if (s.includes("disputa de 3") || s.includes("disputa3")) return 99;
+    if (s.includes("disputa de 3º") || s.includes("disputa3lugar")) return 99;
     if (s.includes("semifinal")) return 98;
     if (s.includes("quartas")) return 97;
     if (s.includes("oitavas")) return 96;
-    // Lower priority for group stage
-    if (s.includes("group") || s.includes("grupo")) return 1;
+    // Lower priority for group stage, Swiss rounds ("Rodada Suíça 2 - Jogo 1") and Rei da Praia rounds
+    // ("Rodada 2 - Jogo 1"). The early rounds of a large knockout ("Rodada 1 3") stay at the default.
+    if (s.includes("group") || s.includes("grupo") || /^rodada (suíça )?\d+ - jogo \d+$/.test(s)) return 1;
     // Default for other playoff rounds
     return 50;
 }
@@ -242,8 +247,16 @@ export function scheduleMatches(matchesInput: MatchRow[], parameters: Record<str
       if (a.category !== b.category){
         if (stagePrioA !== stagePrioB) return stagePrioB - stagePrioA;}
         else
-        {if (stagePrioA !== stagePrioB) return stagePrioA - stagePrioB;}
+        {
+          // Na mesma categoria, a Taça Prata só depois da chave principal
+          const consolationA = isConsolationStage(a.stage);
+          const consolationB = isConsolationStage(b.stage);
+          if (consolationA !== consolationB) return consolationA ? 1 : -1;
+          if (stagePrioA !== stagePrioB) return stagePrioA - stagePrioB;}
     
+      // Rodadas dos grupos em ordem: a rodada k de uma categoria antes da k+1
+      if (a.category === b.category && a.round !== undefined && b.round !== undefined && a.round !== b.round) return a.round - b.round;
+
       // Prioridade #2: Prioridade da Categoria (menor é melhor)
       const catPrioA = categoryPlayoffPriority[a.category] ?? 999;
       const catPrioB = categoryPlayoffPriority[b.category] ?? 999;
@@ -0,0 +1,73 @@
+// src/lib/scorekeepers.ts
+import { getStorage } from './storage';
+import type { EventKeys } from './db';
+import { hashSecret, verifySecret } from './session';
+import type { ScorekeeperFormValues } from './types';
+
+// Mesários do evento: cada um entra com um código próprio e só lança placares nas quadras listadas.
+// Os códigos ficam apenas como hash; a lista não entra no estado, nos snapshots nem nas exportações.
+export type Scorekeeper = {
+  id: string;
+  name: string;
+  courts: string[]; // nomes das quadras, como em Match.court
+  codeHash: string;
+  createdAt: string; // ISO 8601
+};
+
+// O que as telas recebem: sem o hash do código
+export type ScorekeeperInfo = Omit<Scorekeeper, 'codeHash'>;
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+export const toScorekeeperInfo = ({ codeHash: _codeHash, ...info }: Scorekeeper): ScorekeeperInfo => info;
+
+export async function listScorekeepers(keys: EventKeys): Promise<Scorekeeper[]> {
+  return (await getStorage().get<Scorekeeper[]>(keys.scorekeepers)) ?? [];
+}
+
+export async function getScorekeeper(keys: EventKeys, id: string): Promise<Scorekeeper | null> {
+  return (await listScorekeepers(keys)).find(s => s.id === id) ?? null;
+}
+
+// Altera a lista com controle de concorrência
+async function updateScorekeepers(keys: EventKeys, update: (list: Scorekeeper[]) => Scorekeeper[]): Promise<void> {
+  const storage = getStorage();
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const { value, revision } = await storage.getVersioned<Scorekeeper[]>(keys.scorekeepers);
+    const after = update([...(value ?? [])]);
+    if (await storage.commit([{ key: keys.scorekeepers, value: after, expectedRevision: revision }])) return;
+  }
+  throw new Error('Não foi possível atualizar os mesários: a lista foi alterada durante a gravação.');
+}
+
+// O mesário dono do código, se houver
+export async function findScorekeeperByCode(keys: EventKeys, code: string): Promise<Scorekeeper | null> {
+  for (const scorekeeper of await listScorekeepers(keys)) {
+    if (await verifySecret(code.trim(), scorekeeper.codeHash)) return scorekeeper;
+  }
+  return null;
+}
+
+export async function addScorekeeper(keys: EventKeys, values: ScorekeeperFormValues): Promise<Scorekeeper> {
+  if (await findScorekeeperByCode(keys, values.code)) {
+    throw new Error('Este código já é usado por outro mesário.');
+  }
+  const scorekeeper: Scorekeeper = {
+    id: crypto.randomUUID(),
+    name: values.name.trim(),
+    courts: [...new Set(values.courts)],
+    codeHash: await hashSecret(values.code.trim()),
+    createdAt: new Date().toISOString(),
+  };
+  await updateScorekeepers(keys, list => [...list, scorekeeper]);
+  return scorekeeper;
+}
+
+export async function removeScorekeeper(keys: EventKeys, id: string): Promise<boolean> {
+  let removed = false;
+  await updateScorekeepers(keys, list => {
+    removed = list.some(s => s.id === id);
+    return list.filter(s => s.id !== id);
+  });
+  return removed;
+}
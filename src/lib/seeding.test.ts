@@ -0,0 +1,25 @@
+// src/lib/seeding.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { drawGroups } from './seeding';
+import type { Team } from './types';
+
+const pot = (name: string, size: number): Team[] =>
+  Array.from({ length: size }, (_, i) => ({ player1: `${name}${i + 1}a`, player2: `${name}${i + 1}b` }));
+
+test('pots hand one team to every group', () => {
+  const pots = [pot('P', 4), pot('Q', 4), pot('R', 3)];
+  const groups = drawGroups(pots, 4, 'pots', 42);
+  groups.forEach(group => {
+    for (const name of ['P', 'Q', 'R']) {
+      assert.ok(group.filter(team => team.player1.startsWith(name)).length <= 1, `two teams of pot ${name} in one group`);
+    }
+  });
+  assert.deepEqual(groups.map(group => group.length), [3, 3, 3, 2]);
+});
+
+test('pots that are not one team per group are rejected', () => {
+  assert.throws(() => drawGroups([pot('P', 5), pot('Q', 3)], 4, 'pots', 42), /pote 1 tem 5 duplas/);
+  assert.throws(() => drawGroups([pot('P', 3), pot('Q', 5)], 4, 'pots', 42), /pote 1 tem 3 duplas/);
+  assert.throws(() => drawGroups([pot('P', 4), pot('Q', 5)], 4, 'pots', 42), /pote 2 tem 5 duplas/);
+});
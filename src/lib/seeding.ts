@@ -0,0 +1,220 @@
+// src/lib/seeding.ts
+import { nameKey, teamLabel } from './registry';
+import type { Team, TournamentFormValues } from './types';
+
+// Draws of a category. With the 'order' strategy the list order is the seeding (first line = seed 1);
+// with 'random' the list is shuffled by a generator started from `drawSeed`, which is recorded in the
+// category's form values. Every draw of a category starts from that same seed, so regenerating it with the
+// same values (and the same seed) gives the same groups and brackets; clearing the seed draws again.
+// With 'pots' (groups only) the list is split into pots at its blank lines, and each pot is shuffled and
+// dealt one team per group; in other formats it draws like 'random'.
+
+type Strategy = TournamentFormValues['groupFormationStrategy'];
+
+export const newDrawSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+// mulberry32: a small, fast generator of numbers in [0, 1); the same seed always gives the same sequence
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The items in seed order: as listed for 'order', shuffled (Fisher-Yates) with the seed for 'random'.
+// Returns a new array.
+export function drawOrder<T>(items: T[], strategy: Strategy, seed: number | undefined): T[] {
+  if (strategy === 'order') return [...items];
+  return shuffle(items, seededRandom(seed ?? newDrawSeed()));
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const drawn = [...items];
+  for (let i = drawn.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [drawn[i], drawn[j]] = [drawn[j], drawn[i]];
+  }
+  return drawn;
+}
+
+// Group draws give up after this many steps when the separations can't all be kept
+const MAX_GROUP_DRAW_STEPS = 100_000;
+
+// The pots of a list: blocks of lines separated by blank lines (a single pot without them)
+export function parsePots(text: string): string[][] {
+  return text.split(/\n\s*\n/).map(block => block.split('\n').map(line => line.trim()).filter(Boolean)).filter(pot => pot.length > 0);
+}
+
+// Which teams must not share a group: teams with a player in common, and the teams named on the same line
+// of `separations` ("Fulano e Beltrano; Ciclano", one line per club, say), each entry being a team as in
+// the list or a player, standing for every team of that player
+function separationMatrix(teams: Team[], separations: string | undefined): boolean[][] {
+  const players = teams.map(team => [nameKey(team.player1), nameKey(team.player2)]);
+  const apart = teams.map((_, i) => teams.map((_, j) => i !== j && players[i].some(p => players[j].includes(p))));
+
+  for (const line of (separations ?? '').split('\n').filter(line => line.trim())) {
+    const named = line.split(';').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const key = nameKey(entry);
+      const matching = teams.flatMap((team, i) => (nameKey(teamLabel(team)) === key || players[i].includes(key) ? [i] : []));
+      if (matching.length === 0) throw new Error(`Separação: "${entry}" não corresponde a nenhuma dupla ou jogador da lista.`);
+      return matching;
+    });
+    named.forEach((a, x) => named.forEach((b, y) => {
+      if (x !== y) a.forEach(i => b.forEach(j => { if (i !== j) apart[i][j] = apart[j][i] = true; }));
+    }));
+  }
+  return apart;
+}
+
+// Teams of every group, in draw order. Groups are filled in turns: serpentine for 'order' and 'random'
+// (A, B, C, C, B, A...), so the seeds are spread evenly, and one team per group from each pot for 'pots'.
+// The first `teams % numberOfGroups` groups get one team more. A team that would share a group with a team
+// it must be kept apart from goes to the next group in its turn, backtracking when the teams left can't be
+// placed; an error is thrown if the separations can't all be kept. With pots, every pot but the last must
+// have exactly one team per group (the last one may have fewer), or the turns wouldn't line up with the pots.
+export function drawGroups(pots: Team[][], numberOfGroups: number, strategy: Strategy, seed: number | undefined, separations?: string): Team[][] {
+  if (strategy === 'pots') {
+    const wrong = pots.findIndex((pot, i) => (i === pots.length - 1 ? pot.length > numberOfGroups : pot.length !== numberOfGroups));
+    if (wrong >= 0) {
+      throw new Error(`O pote ${wrong + 1} tem ${pots[wrong].length} duplas, mas cada pote precisa ter uma dupla por grupo (${numberOfGroups}); só o último pode ter menos.`);
+    }
+  }
+  const random = seededRandom(seed ?? newDrawSeed());
+  const teams = strategy === 'pots' ? pots.flatMap(pot => shuffle(pot, random))
+    : strategy === 'random' ? shuffle(pots.flat(), random)
+    : pots.flat();
+  const apart = separationMatrix(teams, separations);
+  const capacity = (group: number) => Math.floor(teams.length / numberOfGroups) + (group < teams.length % numberOfGroups ? 1 : 0);
+
+  // The group of the i-th team in its turn, then the others in the direction of the turn
+  const preferences = (i: number) => {
+    const turn = Math.floor(i / numberOfGroups);
+    const reversed = strategy !== 'pots' && turn % 2 === 1;
+    const order = Array.from({ length: numberOfGroups }, (_, g) => (reversed ? numberOfGroups - 1 - g : g));
+    const first = i % numberOfGroups;
+    return [...order.slice(first), ...order.slice(0, first)];
+  };
+
+  const groups: number[][] = Array.from({ length: numberOfGroups }, () => []);
+  let steps = MAX_GROUP_DRAW_STEPS;
+  const place = (i: number): boolean => {
+    if (i === teams.length) return true;
+    for (const group of preferences(i)) {
+      if (--steps < 0) return false;
+      if (groups[group].length >= capacity(group) || groups[group].some(j => apart[i][j])) continue;
+      groups[group].push(i);
+      if (place(i + 1)) return true;
+      groups[group].pop();
+    }
+    return false;
+  };
+  if (!place(0)) throw new Error("Não foi possível sortear os grupos mantendo separadas as duplas indicadas. Revise as separações ou o número de grupos.");
+  return groups.map(group => group.map(i => teams[i]));
+}
+
+// First-round pairs of an elimination bracket: 1st x last, 2nd x second to last...
+export function firstRoundPairs<T>(seeds: T[]): [T, T][] {
+  return Array.from({ length: Math.floor(seeds.length / 2) }, (_, i) => [seeds[i], seeds[seeds.length - 1 - i]]);
+}
+
+// A qualifier of the group stage: its group (0 = A) and its position in it (1 = winner)
+export type GroupSlot = { group: number; position: number };
+
+// First-round matchup of a knockout; without a second slot, the first one has a bye
+export type GroupPairing = [GroupSlot, GroupSlot | undefined];
+
+// "2C" for the runner-up of group C
+export const groupSlotCode = (slot: GroupSlot) => `${slot.position}${String.fromCharCode(65 + slot.group)}`;
+
+// Pairing searches give up after this many steps and keep the best layout found so far
+const MAX_LAYOUT_STEPS = 100_000;
+
+// Round (1 = first) in which seeds a and b (0-based) can meet in a seeded bracket of `size`, where seed i
+// plays seed size - 1 - i and the winners of matches i and n - 1 - i meet in the next round
+function meetingRound(a: number, b: number, size: number): number {
+  let round = 1;
+  for (let n = size; n > 2; n /= 2, round++) {
+    a = Math.min(a, n - 1 - a);
+    b = Math.min(b, n - 1 - b);
+    if (a === b) return round;
+  }
+  return round;
+}
+
+// Default knockout of the group qualifiers, as seeded pairs (seed 1 x last...). Group winners take the top
+// seeds in group order, then each position takes the next seeds, laid out so that teams of the same group
+// meet as late as possible: runners-up face other groups' winners, in the other half of their group winner.
+// Qualifiers that don't fill a power of 2 leave byes to the top seeds.
+export function defaultGroupPairings(numberOfGroups: number, perGroup: number): GroupPairing[] {
+  const qualifiers = numberOfGroups * perGroup;
+  let size = 1;
+  while (size < qualifiers) size *= 2;
+  const rounds = Math.log2(size);
+  const seeds: (GroupSlot | undefined)[] = new Array(size).fill(undefined);
+  // An early meeting costs far more than any number of later ones
+  const cost = (seed: number, group: number) => seeds.reduce((sum, slot, other) =>
+    (slot && slot.group === group ? sum + 4 ** (rounds - meetingRound(seed, other, size)) : sum), 0);
+
+  for (let position = 1; position <= perGroup; position++) {
+    const tier = Array.from({ length: numberOfGroups }, (_, i) => (position - 1) * numberOfGroups + i);
+    let best: { cost: number; layout: number[] } = { cost: Infinity, layout: tier };
+    let steps = MAX_LAYOUT_STEPS;
+    const layout: number[] = [];
+    const assign = (group: number, total: number) => {
+      if (total >= best.cost || --steps < 0) return;
+      if (group === numberOfGroups) {
+        best = { cost: total, layout: [...layout] };
+        return;
+      }
+      for (const seed of tier) {
+        if (layout.includes(seed)) continue;
+        layout.push(seed);
+        seeds[seed] = { group, position };
+        assign(group + 1, total + cost(seed, group));
+        seeds[seed] = undefined;
+        layout.pop();
+      }
+    };
+    assign(0, 0);
+    best.layout.forEach((seed, group) => { seeds[seed] = { group, position }; });
+  }
+
+  return Array.from({ length: size / 2 }, (_, i): GroupPairing => [seeds[i]!, seeds[size - 1 - i]]);
+}
+
+// One matchup per line, "1A x 2C", or just "1A" for a bye
+export const formatGroupPairings = (pairings: GroupPairing[]) =>
+  pairings.map(([a, b]) => (b ? `${groupSlotCode(a)} x ${groupSlotCode(b)}` : groupSlotCode(a))).join('\n');
+
+// The admin's pairing matrix (see formatGroupPairings). Every qualifier must appear exactly once, in as many
+// lines as the first round of the knockout has matchups (byes included).
+export function parseGroupPairings(text: string, numberOfGroups: number, perGroup: number): GroupPairing[] {
+  const qualifiers = numberOfGroups * perGroup;
+  let size = 1;
+  while (size < qualifiers) size *= 2;
+  const seen = new Set<string>();
+  const parseSlot = (code: string): GroupSlot => {
+    const match = code.trim().toUpperCase().match(/^(\d+)\s*º?\s*([A-Z])$/);
+    const slot = match && { position: Number(match[1]), group: match[2].charCodeAt(0) - 65 };
+    if (!slot || slot.position < 1 || slot.position > perGroup || slot.group >= numberOfGroups) {
+      throw new Error(`Cruzamentos: "${code.trim()}" não é um classificado (ex.: 1A para o 1º do grupo A).`);
+    }
+    if (seen.has(groupSlotCode(slot))) throw new Error(`Cruzamentos: ${groupSlotCode(slot)} aparece mais de uma vez.`);
+    seen.add(groupSlotCode(slot));
+    return slot;
+  };
+
+  const pairings = text.split('\n').filter(line => line.trim()).map((line): GroupPairing => {
+    const [a, b, ...rest] = line.split(/\s+x\s+/i);
+    if (rest.length > 0) throw new Error(`Cruzamentos: a linha "${line.trim()}" tem mais de dois classificados.`);
+    return [parseSlot(a), b === undefined ? undefined : parseSlot(b)];
+  });
+  if (pairings.length !== size / 2 || seen.size !== qualifiers) {
+    throw new Error(`Cruzamentos: são ${size / 2} jogos na primeira rodada, com os ${qualifiers} classificados uma vez cada.`);
+  }
+  return pairings;
+}
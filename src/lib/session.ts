@@ -0,0 +1,119 @@
+// src/lib/session.ts
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { cookies } from 'next/headers';
+import { getStorage } from './storage';
+
+// Sessão de login: um cookie HTTP-only `<dados>.<assinatura>`, assinado com HMAC-SHA256.
+// Os dados (quem entrou e até quando) ficam legíveis, mas não podem ser alterados sem a chave.
+// A chave é SESSION_SECRET ou, na falta dela, derivada de ADMIN_PASSWORD (trocar a senha encerra as sessões);
+// sem nenhuma das duas, uma chave aleatória é gerada e guardada no armazenamento.
+export const SESSION_COOKIE = 'ftv_session';
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export const UNAUTHORIZED_ERROR = 'Sua sessão expirou ou você não está conectado. Entre novamente.';
+
+const SESSION_KEY_STORAGE_KEY = 'ftv:data:session-key';
+
+// Administradores podem tudo; mesários só lançam placares dos jogos das suas quadras, em um evento
+export type SessionRole = 'admin' | 'scorekeeper';
+
+export type Session = {
+  sub: string; // quem entrou: o usuário, 'admin' (ADMIN_PASSWORD) ou o mesário
+  role: SessionRole;
+  userId?: string; // administrador: a conta (src/lib/users.ts), conferida a cada ação
+  eventId?: string; // mesário: o evento
+  scorekeeperId?: string; // mesário: o cadastro (src/lib/scorekeepers.ts), conferido a cada ação
+  exp: number; // expiração, em ms desde a época
+};
+
+async function sessionKey(): Promise<Buffer> {
+  if (process.env.SESSION_SECRET) return Buffer.from(process.env.SESSION_SECRET);
+  if (process.env.ADMIN_PASSWORD) return createHash('sha256').update(`ftv-session:${process.env.ADMIN_PASSWORD}`).digest();
+  const storage = getStorage();
+  const { value, revision } = await storage.getVersioned<{ key: string }>(SESSION_KEY_STORAGE_KEY);
+  if (value) return Buffer.from(value.key, 'base64url');
+  const generated = { key: randomBytes(32).toString('base64url') };
+  if (await storage.commit([{ key: SESSION_KEY_STORAGE_KEY, value: generated, expectedRevision: revision }])) {
+    return Buffer.from(generated.key, 'base64url');
+  }
+  // Outra requisição gerou a chave ao mesmo tempo
+  return Buffer.from((await storage.get<{ key: string }>(SESSION_KEY_STORAGE_KEY))!.key, 'base64url');
+}
+
+const sign = (key: Buffer, payload: string) => createHmac('sha256', key).update(payload).digest('base64url');
+
+// Compara sem vazar, pelo tempo de resposta, quantos caracteres coincidem
+export function safeEqual(a: string, b: string): boolean {
+  const hash = (s: string) => createHash('sha256').update(s).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+export async function encodeSession(session: Session): Promise<string> {
+  const key = await sessionKey();
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(key, payload)}`;
+}
+
+// Sessão do token, ou null se ele for inválido, adulterado ou estiver expirado
+export async function decodeSession(token: string | undefined): Promise<Session | null> {
+  if (!token) return null;
+  const key = await sessionKey();
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(key, payload))) return null;
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Session;
+    if (typeof session.sub !== 'string' || typeof session.exp !== 'number' || session.exp <= Date.now()) return null;
+    if (session.role !== 'admin' && session.role !== 'scorekeeper') return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Códigos e senhas guardados no armazenamento ficam só como hash scrypt, no formato `scrypt$<sal>$<hash>`
+const scryptAsync = promisify(scrypt) as (secret: string, salt: string, length: number) => Promise<Buffer>;
+
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16).toString('base64url');
+  return `scrypt$${salt}$${(await scryptAsync(secret, salt, 32)).toString('base64url')}`;
+}
+
+export async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(secret, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// A senha de ADMIN_PASSWORD, que vale como a conta 'admin' além das contas nomeadas; sem ela definida, só as contas entram
+export function checkAdminPassword(password: string): boolean {
+  const expected = process.env.ADMIN_PASSWORD;
+  return !!expected && safeEqual(password, expected);
+}
+
+// As funções abaixo usam o cookie da requisição atual (server actions)
+export async function getSession(): Promise<Session | null> {
+  try {
+    return await decodeSession((await cookies()).get(SESSION_COOKIE)?.value);
+  } catch {
+    return null; // fora de uma requisição (scripts)
+  }
+}
+
+export async function startSession(fields: Omit<Session, 'exp'>): Promise<Session> {
+  const session: Session = { ...fields, exp: Date.now() + SESSION_TTL_MS };
+  (await cookies()).set(SESSION_COOKIE, await encodeSession(session), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(session.exp),
+  });
+  return session;
+}
+
+export async function endSession() {
+  (await cookies()).delete(SESSION_COOKIE);
+}
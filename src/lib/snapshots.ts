@@ -0,0 +1,102 @@
+// src/lib/snapshots.ts
+import { getStorage } from './storage';
+import { isCategoryKey, type TournamentsState } from './types';
+import { upgradeStoredCategory } from './migrations';
+import { syncRegistry } from './registry';
+import type { EventKeys } from './db';
+
+// Cópias completas do evento. O índice (keys.snapshots) guarda só os metadados; cada cópia fica em sua própria chave.
+
+// Snapshots automáticos mais antigos que isso são descartados (os manuais nunca)
+export const MAX_AUTOMATIC_SNAPSHOTS = 20;
+const MAX_WRITE_ATTEMPTS = 5;
+
+export type SnapshotMeta = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  actor: string;
+  automatic: boolean; // tirado antes de uma ação destrutiva
+  categories: string[];
+};
+
+// Altera o índice com controle de concorrência; `extraWrites` recebe o índice antigo e o novo e
+// devolve as demais gravações (cópias criadas ou apagadas) que precisam acontecer junto com ele.
+async function updateIndex(
+  keys: EventKeys,
+  update: (index: SnapshotMeta[]) => SnapshotMeta[],
+  extraWrites: (before: SnapshotMeta[], after: SnapshotMeta[]) => { key: string; value: unknown | null }[],
+): Promise<void> {
+  const storage = getStorage();
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const { value, revision } = await storage.getVersioned<SnapshotMeta[]>(keys.snapshots);
+    const before = value ?? [];
+    const after = update([...before]);
+    const writes = extraWrites(before, after);
+    const revisions = await storage.getManyVersioned(writes.map(w => w.key));
+    const committed = await storage.commit([
+      { key: keys.snapshots, value: after, expectedRevision: revision },
+      ...writes.map((w, i) => ({ ...w, expectedRevision: revisions[i].revision })),
+    ]);
+    if (committed) return;
+  }
+  throw new Error('Não foi possível atualizar a lista de snapshots: ela foi alterada durante a gravação.');
+}
+
+export async function listSnapshots(keys: EventKeys): Promise<SnapshotMeta[]> {
+  const index = await getStorage().get<SnapshotMeta[]>(keys.snapshots);
+  return (index ?? []).slice().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createSnapshot(
+  keys: EventKeys,
+  state: TournamentsState,
+  options: { name: string; actor: string; automatic?: boolean },
+): Promise<SnapshotMeta> {
+  const meta: SnapshotMeta = {
+    id: crypto.randomUUID(),
+    name: options.name,
+    createdAt: new Date().toISOString(),
+    actor: options.actor,
+    automatic: !!options.automatic,
+    categories: Object.keys(state).filter(isCategoryKey),
+  };
+
+  await updateIndex(
+    keys,
+    index => {
+      const next = [...index, meta];
+      const automatic = next.filter(s => s.automatic).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const expired = new Set(automatic.slice(0, Math.max(0, automatic.length - MAX_AUTOMATIC_SNAPSHOTS)).map(s => s.id));
+      return next.filter(s => !expired.has(s.id));
+    },
+    (before, after) => {
+      const kept = new Set(after.map(s => s.id));
+      return [
+        { key: keys.snapshot(meta.id), value: state },
+        ...before.filter(s => !kept.has(s.id)).map(s => ({ key: keys.snapshot(s.id), value: null })),
+      ];
+    },
+  );
+  return meta;
+}
+
+// Snapshots antigos podem estar em uma versão anterior do formato; as categorias saem migradas
+// e, se forem de antes do cadastro de duplas, com as duplas já cadastradas
+export async function readSnapshotState(keys: EventKeys, id: string): Promise<TournamentsState | null> {
+  const state = await getStorage().get<TournamentsState>(keys.snapshot(id));
+  if (!state) return null;
+  for (const name in state) {
+    if (isCategoryKey(name)) state[name] = upgradeStoredCategory(name, state[name]);
+  }
+  if (!state._registry) syncRegistry(state);
+  return state;
+}
+
+export async function deleteSnapshot(keys: EventKeys, id: string): Promise<void> {
+  await updateIndex(
+    keys,
+    index => index.filter(s => s.id !== id),
+    () => [{ key: keys.snapshot(id), value: null }],
+  );
+}
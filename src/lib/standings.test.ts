@@ -0,0 +1,56 @@
+// src/lib/standings.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { playoffMatches, type GroupBrackets } from './brackets';
+import { initializePlayoffs } from './regeneration';
+import { teamKey } from './registry';
+import { knockoutPlacements, updatePlayoffs } from './standings';
+import type { CategoryData, KnockoutPlacement, PlayoffBracket, TournamentFormValues } from './types';
+
+const teamLines = (count: number) => Array.from({ length: count }, (_, i) => `A${i + 1} e B${i + 1}`).join('\n');
+
+// Plays every match as soon as both teams are known, team1 winning, until the brackets are decided
+function playOut(category: CategoryData): CategoryData {
+  for (;;) {
+    const ready = playoffMatches(category).filter(match => match.team1 && match.team2 && typeof match.score1 !== 'number');
+    if (ready.length === 0) return category;
+    ready.forEach(match => Object.assign(match, { score1: 2, score2: 0 }));
+    category = updatePlayoffs(category);
+  }
+}
+
+const places = (rows: KnockoutPlacement[]) => rows.map(row => [row.firstPlace, row.lastPlace]);
+
+test('a 12-team knockout with placement matches ranks every team, 1st to 12th', async () => {
+  const formValues = { category: 'Mata', tournamentType: 'singleElimination', teams: teamLines(12), groupFormationStrategy: 'order', placementMatches: true } as TournamentFormValues;
+  const category = playOut({ formValues, tournamentData: null, playoffs: await initializePlayoffs(formValues, 'Mata') } as CategoryData);
+
+  const placements = knockoutPlacements(category.playoffs as PlayoffBracket);
+  assert.deepEqual(places(placements), Array.from({ length: 12 }, (_, i) => [i + 1, i + 1]));
+  assert.equal(new Set(placements.map(row => teamKey(row.team))).size, 12);
+});
+
+test('the Taça Prata places start after the main knockout', async () => {
+  const formValues = {
+    category: 'Grupos', tournamentType: 'groups', teams: teamLines(8), groupFormationStrategy: 'order',
+    numberOfGroups: 2, teamsPerGroupToAdvance: 2, consolationBracket: true, placementMatches: true,
+  } as TournamentFormValues;
+  const playoffs = (await initializePlayoffs(formValues, 'Grupos')) as GroupBrackets;
+  // Stand-ins for the group results: the first round's placeholders get teams directly
+  let next = 0;
+  for (const bracket of [playoffs.playoffs!, playoffs.consolation!]) {
+    for (const match of Object.values(bracket)[0]) {
+      match.team1 = { player1: `A${++next}`, player2: `B${next}` };
+      match.team2 = { player1: `A${++next}`, player2: `B${next}` };
+    }
+  }
+  const category = playOut({ formValues, tournamentData: null, playoffs } as CategoryData);
+
+  const brackets = category.playoffs as GroupBrackets;
+  const qualifiers = formValues.numberOfGroups! * formValues.teamsPerGroupToAdvance!;
+  const main = knockoutPlacements(brackets.playoffs);
+  const consolation = knockoutPlacements(brackets.consolation, qualifiers);
+  assert.deepEqual(places(main), [[1, 1], [2, 2], [3, 3], [4, 4]]);
+  assert.deepEqual(places(consolation), [[5, 5], [6, 6], [7, 7], [8, 8]]);
+  assert.equal(new Set([...main, ...consolation].map(row => teamKey(row.team))).size, 8);
+});
@@ -0,0 +1,284 @@
+// src/lib/standings.ts
+import { playoffBrackets, playoffMatches } from './brackets';
+import { sameTeam, teamKey } from './registry';
+import { updateSwiss } from './swiss';
+import type { CategoryData, GroupWithScores, KnockoutPlacement, MatchWithScore, PlayoffBracket, PlayoffMatch, Team, TeamStanding, TournamentData } from './types';
+
+// Score bookkeeping shared by the category manager (admin) and the server (scorekeepers):
+// standings and bracket progression are always derived from the scores the same way.
+
+// Groups whose qualifiers don't fill a power-of-2 bracket are seeded across groups, and the best seeds get
+// byes. Their knockout waits for every group, under placeholders like "1º do Categoria-Geral".
+export const GROUPS_OVERALL = 'Geral';
+
+export const overallQualifierPlaceholder = (categoryName: string, position: number) =>
+  `${position}º do ${categoryName.replace(/\s/g, '')}-${GROUPS_OVERALL}`;
+
+export const nextPowerOfTwo = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(n, 1)));
+
+const groupFinished = (group: GroupWithScores) => group.matches.every(m => typeof m.score1 === 'number' && typeof m.score2 === 'number');
+
+// Keeps teams of the same group apart in the first round of a seeded bracket (seed i plays seed
+// bracketSize + 1 - i, byes for the missing ones) by swapping lower seeds between matches. Changes `seeds`
+// in place and returns it.
+export function separateGroups<T>(seeds: T[], groupOf: (seed: T) => number): T[] {
+  const bracketSize = nextPowerOfTwo(seeds.length);
+  const opponent = (seed: number) => bracketSize - 1 - seed; // 0-based
+  const played = Array.from({ length: bracketSize / 2 }, (_, i) => i).filter(i => opponent(i) < seeds.length);
+  for (const i of played) {
+    if (groupOf(seeds[i]) !== groupOf(seeds[opponent(i)])) continue;
+    const j = played.find(j => j !== i &&
+      groupOf(seeds[i]) !== groupOf(seeds[opponent(j)]) && groupOf(seeds[j]) !== groupOf(seeds[opponent(i)]));
+    if (j !== undefined) [seeds[opponent(i)], seeds[opponent(j)]] = [seeds[opponent(j)], seeds[opponent(i)]];
+  }
+  return seeds;
+}
+
+// The qualifiers of every group in seed order: group winners first, then runners-up and so on; within a
+// position, by win rate, then set difference and sets won per match, since groups may differ in size.
+// Teams of the same group are then kept apart in the first round.
+export function seedGroupQualifiers(groups: GroupWithScores[], perGroup: number): Team[] {
+  const perMatch = (value: number, played: number) => (played > 0 ? value / played : 0);
+  const rows = groups.flatMap((group, groupIndex) =>
+    group.standings.slice(0, perGroup).map((standing, position) => ({ standing, position, groupIndex })));
+  rows.sort((a, b) =>
+    a.position - b.position ||
+    perMatch(b.standing.wins, b.standing.played) - perMatch(a.standing.wins, a.standing.played) ||
+    perMatch(b.standing.setDifference, b.standing.played) - perMatch(a.standing.setDifference, a.standing.played) ||
+    perMatch(b.standing.setsWon, b.standing.played) - perMatch(a.standing.setsWon, a.standing.played) ||
+    a.groupIndex - b.groupIndex);
+  return separateGroups(rows, row => row.groupIndex).map(row => row.standing.team);
+}
+
+// Fills bracket slots whose source is decided: group qualifiers once every match of the group has a score
+// (or of every group, for the seeds across groups), the next Swiss round and the Swiss cut, and winners/losers of finished bracket matches. Slots that
+// already hold a team are left alone.
+export function updatePlayoffs(categoryData: CategoryData): CategoryData {
+  const { playoffs, formValues, tournamentData } = categoryData;
+  if (!playoffs) return categoryData;
+
+  const newPlayoffs = JSON.parse(JSON.stringify(playoffs));
+  const winners: { [matchId: string]: Team } = {};
+  const losers: { [matchId: string]: Team } = {};
+  const groupQualifiers: { [placeholder: string]: Team } = {};
+  let swissStandings = categoryData.swissStandings;
+
+  // 0. Swiss system: standings, pairing of the next round and qualifiers of the cut
+  if (formValues.tournamentType === 'swiss') {
+    const swiss = updateSwiss({ formValues, playoffs: newPlayoffs, swissStandings });
+    swissStandings = swiss.standings;
+    Object.assign(groupQualifiers, swiss.qualifiers);
+  }
+
+  // 1. Populate group qualifiers if groups are finished
+  if (tournamentData?.groups) {
+    tournamentData.groups.forEach(group => {
+      if (groupFinished(group)) {
+        // Every position: the ones below the qualifiers feed the Taça Prata
+        group.standings.forEach((standing, index) => {
+          const categoryPrefix = formValues.category.replace(/\s/g, '');
+          const groupNameId = group.name.replace(/\s/g, '');
+          const placeholder = `${index + 1}º do ${categoryPrefix}-${groupNameId}`;
+          groupQualifiers[placeholder] = standing.team;
+        });
+      }
+    });
+    if (formValues.tournamentType === 'groups' && tournamentData.groups.every(groupFinished)) {
+      seedGroupQualifiers(tournamentData.groups, formValues.teamsPerGroupToAdvance ?? 0).forEach((team, i) => {
+        groupQualifiers[overallQualifierPlaceholder(formValues.category, i + 1)] = team;
+      });
+    }
+  }
+  
+  // 2. Populate winners and losers from playoff matches
+  const processBracketForWinners = (bracket?: PlayoffBracket) => {
+    if (!bracket) return;
+    Object.values(bracket).flat().forEach(match => {
+      if (match.team1 && match.team2 && typeof match.score1 === 'number' && typeof match.score2 === 'number') {
+        if (match.score1 > match.score2) {
+          winners[match.id] = match.team1;
+          losers[match.id] = match.team2;
+        } else if (match.score2 > match.score1) {
+          winners[match.id] = match.team2;
+          losers[match.id] = match.team1;
+        }
+      }
+    });
+  };
+
+  const brackets = playoffBrackets({ formValues, playoffs: newPlayoffs });
+  brackets.forEach(processBracketForWinners);
+
+  // 3. Resolve placeholders iteratively
+  const resolvePlaceholdersInBracket = (bracket?: PlayoffBracket) => {
+    if (!bracket) return;
+    Object.values(bracket).flat().forEach(match => {
+      if (!match.team1 && match.team1Placeholder) {
+        if (groupQualifiers[match.team1Placeholder]) {
+          match.team1 = groupQualifiers[match.team1Placeholder];
+        } else if (match.team1Placeholder.startsWith('Vencedor')) {
+          const depId = match.team1Placeholder.replace('Vencedor ', '').trim();
+          if (winners[depId]) match.team1 = winners[depId];
+        } else if (match.team1Placeholder.startsWith('Perdedor')) {
+          const depId = match.team1Placeholder.replace('Perdedor ', '').trim();
+          if (losers[depId]) match.team1 = losers[depId];
+        }
+      }
+      if (!match.team2 && match.team2Placeholder) {
+        if (groupQualifiers[match.team2Placeholder]) {
+          match.team2 = groupQualifiers[match.team2Placeholder];
+        } else if (match.team2Placeholder.startsWith('Vencedor')) {
+          const depId = match.team2Placeholder.replace('Vencedor ', '').trim();
+          if (winners[depId]) match.team2 = winners[depId];
+        } else if (match.team2Placeholder.startsWith('Perdedor')) {
+          const depId = match.team2Placeholder.replace('Perdedor ', '').trim();
+          if (losers[depId]) match.team2 = losers[depId];
+        }
+      }
+    });
+  };
+
+  for (let i = 0; i < 5; i++) { // Iterate multiple times to resolve chained dependencies
+    brackets.forEach(resolvePlaceholdersInBracket);
+  }
+
+  return { ...categoryData, playoffs: newPlayoffs, ...(swissStandings && { swissStandings }) };
+}
+
+
+// Recomputes every group table from the match scores: wins first, then set difference, then sets won.
+export function calculateStandings(currentTournamentData: TournamentData): TournamentData {
+  const newGroups = currentTournamentData.groups.map(group => {
+      const standings: Record<string, TeamStanding> = {};
+
+      group.teams.forEach(team => {
+          standings[teamKey(team)] = { team, played: 0, wins: 0, setsWon: 0, setDifference: 0 };
+      });
+
+      group.matches.forEach(match => {
+          const { team1, team2, score1, score2 } = match;
+          if (score1 === undefined || score2 === undefined) return;
+
+          const team1Key = teamKey(team1);
+          const team2Key = teamKey(team2);
+
+          if (standings[team1Key]) standings[team1Key].played++;
+          if (standings[team2Key]) standings[team2Key].played++;
+
+          if (score1 > score2) {
+              if (standings[team1Key]) standings[team1Key].wins++;
+          } else if (score2 > score1) {
+              if (standings[team2Key]) standings[team2Key].wins++;
+          }
+
+          if (standings[team1Key]) standings[team1Key].setsWon += score1;
+          if (standings[team2Key]) standings[team2Key].setsWon += score2;
+      });
+      
+      const sortedStandings = Object.values(standings).map(s => {
+          let setsLost = 0;
+          group.matches.forEach(m => {
+              if(m.score1 === undefined || m.score2 === undefined) return;
+              if (sameTeam(m.team1, s.team)) {
+                  setsLost += m.score2;
+              }
+              if (sameTeam(m.team2, s.team)) {
+                  setsLost += m.score1;
+              }
+          });
+          return {
+            ...s,
+            setDifference: s.setsWon - setsLost
+          }
+      }).sort((a, b) => {
+        if (b.wins !== a.wins) return b.wins - a.wins;
+        if (b.setDifference !== a.setDifference) return b.setDifference - a.setDifference;
+        return b.setsWon - a.setsWon;
+      });
+
+      return { ...group, standings: sortedStandings };
+  });
+
+  return { groups: newGroups };
+}
+
+// Champion, runner-up and third place of a knockout bracket, as far as decided
+export function bracketPodium(bracket: PlayoffBracket | undefined): Team[] {
+  const outcome = (match?: PlayoffMatch) => {
+    if (!match?.team1 || !match.team2 || typeof match.score1 !== 'number' || typeof match.score2 !== 'number' || match.score1 === match.score2) return [];
+    return match.score1 > match.score2 ? [match.team1, match.team2] : [match.team2, match.team1];
+  };
+  const [champion, runnerUp] = outcome(bracket?.['Final']?.[0]);
+  if (!champion) return [];
+  const [third] = outcome(bracket?.['Disputa de 3º Lugar']?.[0]);
+  return third ? [champion, runnerUp, third] : [champion, runnerUp];
+}
+
+// Final places of a knockout, as far as decided, best first. A match's winnerPlace and loserPlace give
+// exact places; a team knocked out in a main round without a placement match to play shares the places
+// below the teams left in the next round (e.g. 5º-8º for the quarterfinal losers). `offset` shifts every
+// place, e.g. by the number of qualifiers to rank the Taça Prata after the main knockout.
+export function knockoutPlacements(bracket: PlayoffBracket | undefined, offset = 0): KnockoutPlacement[] {
+  if (!bracket) return [];
+  const matches = Object.values(bracket).flat();
+  const placeholders = new Set(matches.flatMap(m => [m.team1Placeholder, m.team2Placeholder]));
+  const rows: KnockoutPlacement[] = [];
+  const place = (team: Team, firstPlace: number, lastPlace = firstPlace) =>
+    rows.push({ firstPlace: firstPlace + offset, lastPlace: lastPlace + offset, team });
+
+  for (const [roundName, round] of Object.entries(bracket)) {
+    for (const match of round) {
+      if (!match.team1 || !match.team2 || typeof match.score1 !== 'number' || typeof match.score2 !== 'number' || match.score1 === match.score2) continue;
+      const [winner, loser] = match.score1 > match.score2 ? [match.team1, match.team2] : [match.team2, match.team1];
+      // Brackets generated before the places were recorded: the final and the "Disputa de Nº Lugar" matches
+      const namedPlace = roundName === 'Final' ? 1 : Number(roundName.match(/^Disputa de (\d+)º Lugar$/)?.[1]) || undefined;
+      const winnerPlace = match.winnerPlace ?? namedPlace;
+      const loserPlace = match.loserPlace ?? (namedPlace && namedPlace + 1);
+      if (winnerPlace) place(winner, winnerPlace);
+      if (loserPlace) place(loser, loserPlace);
+      else if (match.roundOrder > 0 && !placeholders.has(`Perdedor ${match.id}`)) {
+        // roundOrder is log2 of the teams in the round, so half of them are left for the next one
+        const remaining = 2 ** (match.roundOrder - 1);
+        place(loser, remaining + 1, remaining + bracket[roundName].length);
+      }
+    }
+  }
+  return rows.sort((a, b) => a.firstPlace - b.firstPlace || teamKey(a.team).localeCompare(teamKey(b.team), 'pt-BR'));
+}
+
+// League: the final table decides the podium (champion, runner-up, third), once every match has a score
+export function leaguePodium(category: Pick<CategoryData, 'tournamentData'>): Team[] {
+  const table = category.tournamentData?.groups[0];
+  if (!table || !table.matches.every(m => typeof m.score1 === 'number' && typeof m.score2 === 'number')) return [];
+  return table.standings.slice(0, 3).map(s => s.team);
+}
+
+// Matches of a group or league by round, in order. Categories generated before rounds were recorded
+// come back as a single list without a round.
+export function matchesByRound(matches: MatchWithScore[]): { round?: number; matches: MatchWithScore[] }[] {
+  if (!matches.every(match => match.round)) return [{ matches }];
+  const rounds = [...new Set(matches.map(match => match.round!))].sort((a, b) => a - b);
+  return rounds.map(round => ({ round, matches: matches.filter(match => match.round === round) }));
+}
+
+// A group or bracket match of the category, by id
+export function findMatch(category: CategoryData, matchId: string): { match: MatchWithScore | PlayoffMatch; inGroup: boolean } | undefined {
+  const groupMatch = category.tournamentData?.groups.flatMap(g => g.matches).find(m => m.id === matchId);
+  if (groupMatch) return { match: groupMatch, inGroup: true };
+  const playoffMatch = playoffMatches(category).find(m => m.id === matchId);
+  return playoffMatch && { match: playoffMatch, inGroup: false };
+}
+
+// Sets the score of a match and updates the standings and brackets that depend on it.
+// Returns false if the category has no match with that id.
+export function recordScore(category: CategoryData, matchId: string, score1: number | undefined, score2: number | undefined): boolean {
+  const found = findMatch(category, matchId);
+  if (!found) return false;
+  found.match.score1 = score1;
+  found.match.score2 = score2;
+  if (found.inGroup && category.tournamentData) category.tournamentData = calculateStandings(category.tournamentData);
+  const updated = updatePlayoffs(category);
+  category.playoffs = updated.playoffs;
+  if (updated.swissStandings) category.swissStandings = updated.swissStandings;
+  return true;
+}
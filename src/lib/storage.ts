@@ -0,0 +1,262 @@
+// src/lib/storage.ts
+import { kv } from '@vercel/kv';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Interface comum a todos os backends de armazenamento (chave → valor JSON)
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+  get<T = unknown>(key: string): Promise<T | null>;
+  set<T = unknown>(key: string, value: T): Promise<void>;
+  // Apaga o valor; a revisão continua contando, para que quem leu antes ainda receba um conflito
+  del(key: string): Promise<void>;
+  // Controle otimista de concorrência: cada chave tem um número de revisão
+  getVersioned<T = unknown>(key: string): Promise<Versioned<T>>;
+  getManyVersioned<T = unknown>(keys: string[]): Promise<Versioned<T>[]>;
+  // Aplica todas as gravações de uma vez, somente se nenhuma das chaves mudou desde a leitura.
+  // Retorna false (e não grava nada) em caso de conflito.
+  commit(writes: StorageWrite[]): Promise<boolean>;
+  // Listas em que só se acrescenta no fim (log de eventos). `header` vai antes de `items` somente se a
+  // lista ainda estiver vazia, conferido e gravado na mesma operação.
+  append(key: string, items: unknown[], header?: unknown[]): Promise<void>;
+  list<T = unknown>(key: string): Promise<T[]>;
+}
+
+export type StorageDriver = 'kv' | 'file';
+
+export type Versioned<T> = {
+  value: T | null;
+  revision: number;
+};
+
+export type StorageWrite = {
+  key: string;
+  value: unknown | null; // null apaga a chave (a revisão continua contando)
+  expectedRevision: number;
+};
+
+const revisionKey = (key: string) => `${key}:rev`;
+
+// Confere todas as revisões e só então grava os valores + novas revisões, de forma atômica no Redis.
+// KEYS = [chave1, rev1, chave2, rev2, ...]; ARGV = [revisãoEsperada1, json1, ...] ('' apaga a chave)
+const COMMIT_SCRIPT = `
+for i = 1, #KEYS, 2 do
+  local current = tonumber(redis.call('GET', KEYS[i + 1]) or '0')
+  if current ~= tonumber(ARGV[i]) then return 0 end
+end
+for i = 1, #KEYS, 2 do
+  if ARGV[i + 1] == '' then
+    redis.call('DEL', KEYS[i])
+  else
+    redis.call('SET', KEYS[i], ARGV[i + 1])
+  end
+  redis.call('INCR', KEYS[i + 1])
+end
+return 1
+`;
+
+// Acrescenta ao fim da lista, com o cabeçalho antes se ela estiver vazia, de forma atômica no Redis.
+// KEYS = [lista]; ARGV = [tamanho do cabeçalho, ...cabeçalho, ...itens] (em JSON)
+const APPEND_SCRIPT = `
+local header = tonumber(ARGV[1])
+if redis.call('LLEN', KEYS[1]) == 0 then
+  for i = 2, header + 1 do redis.call('RPUSH', KEYS[1], ARGV[i]) end
+end
+for i = header + 2, #ARGV do redis.call('RPUSH', KEYS[1], ARGV[i]) end
+return 1
+`;
+
+const parseStored = <T>(raw: unknown): T | null => {
+  if (raw == null) return null;
+  // Se veio string (foi salvo como JSON string), parseia
+  return (typeof raw === 'string' ? JSON.parse(raw) : raw) as T;
+};
+
+// Vercel KV (Upstash Redis)
+export function createKvAdapter(): StorageAdapter {
+  // Valores e revisões de várias chaves em uma única ida ao Redis
+  const getManyVersioned = async <T>(keys: string[]): Promise<Versioned<T>[]> => {
+    if (keys.length === 0) return [];
+    const raw = await kv.mget<unknown[]>(...keys.flatMap(key => [key, revisionKey(key)]));
+    return keys.map((_, i) => ({
+      value: parseStored<T>(raw[i * 2]),
+      revision: Number(raw[i * 2 + 1] ?? 0),
+    }));
+  };
+
+  return {
+    driver: 'kv',
+    async get<T>(key: string) {
+      return parseStored<T>(await kv.get(key));
+    },
+    async set<T>(key: string, value: T) {
+      // Garante que salvamos como objeto (não string)
+      await kv.multi()
+        .set(key, typeof value === 'string' ? JSON.parse(value) : value)
+        .incr(revisionKey(key))
+        .exec();
+    },
+    async del(key: string) {
+      await kv.multi().del(key).incr(revisionKey(key)).exec();
+    },
+    async getVersioned<T>(key: string) {
+      const [versioned] = await getManyVersioned<T>([key]);
+      return versioned;
+    },
+    getManyVersioned,
+    async commit(writes: StorageWrite[]) {
+      if (writes.length === 0) return true;
+      const result = await kv.eval<string[], number>(
+        COMMIT_SCRIPT,
+        writes.flatMap(w => [w.key, revisionKey(w.key)]),
+        writes.flatMap(w => [
+          String(w.expectedRevision),
+          w.value == null ? '' : typeof w.value === 'string' ? w.value : JSON.stringify(w.value),
+        ]),
+      );
+      return result === 1;
+    },
+    async append(key: string, items: unknown[], header: unknown[] = []) {
+      if (items.length === 0) return;
+      if (header.length === 0) {
+        await kv.rpush(key, ...items);
+        return;
+      }
+      await kv.eval<string[], number>(APPEND_SCRIPT, [key], [String(header.length), ...[...header, ...items].map(item => JSON.stringify(item))]);
+    },
+    async list<T>(key: string) {
+      const raw = await kv.lrange<unknown>(key, 0, -1);
+      return raw.map(item => parseStored<T>(item) as T);
+    },
+  };
+}
+
+// Converte uma chave no caminho do arquivo: "ftv:db" → "db.json", "ftv:data:category:X" → "data/category/X.json"
+function keyToFileName(key: string): string {
+  const parts = key.replace(/^ftv:/, '').split(':').map(encodeURIComponent);
+  return `${path.join(...parts)}.json`;
+}
+
+// Arquivo (ou diretório) que ainda não existe
+const isMissing = (e: unknown) => (e as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+// Arquivos JSON locais: o legado "ftv:db" é o próprio db.json do repositório e os dados
+// separados ficam em data/. Útil para rodar o evento offline ou em desenvolvimento sem
+// uma instância do KV. A revisão de cada chave fica em um arquivo ao lado ("db.rev.json").
+export function createFileAdapter(dir: string): StorageAdapter {
+  const filePath = (key: string) => path.join(dir, keyToFileName(key));
+  const revisionPath = (key: string) => filePath(key).replace(/\.json$/, '.rev.json');
+  // Fila única: leituras e gravações deste processo nunca se intercalam, nem entre chaves diferentes
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <R>(fn: () => Promise<R>): Promise<R> => {
+    const next = queue.catch(() => undefined).then(fn);
+    queue = next;
+    return next;
+  };
+
+  const readFile = async <T>(file: string): Promise<T | null> => {
+    try {
+      const raw = await fs.readFile(file, 'utf-8');
+      return raw.trim() ? (JSON.parse(raw) as T) : null;
+    } catch (e) {
+      if (isMissing(e)) return null;
+      throw e;
+    }
+  };
+
+  const read = <T>(key: string) => readFile<T>(filePath(key));
+  const readRevision = async (key: string) => Number((await readFile<number>(revisionPath(key))) ?? 0);
+
+  const writeFile = async <T>(target: string, value: T) => {
+    const data = typeof value === 'string' ? JSON.parse(value) : value;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Escreve em um arquivo temporário e renomeia, para nunca deixar um JSON pela metade
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmp, target);
+  };
+
+  // Listas ficam em JSON Lines ("log.jsonl"): acrescentar é só anexar linhas ao arquivo
+  const listPath = (key: string) => filePath(key).replace(/\.json$/, '.jsonl');
+  const readList = async <T>(key: string): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(listPath(key), 'utf-8');
+      return raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as T);
+    } catch (e) {
+      if (isMissing(e)) return [];
+      throw e;
+    }
+  };
+
+  const getManyVersioned = <T>(keys: string[]): Promise<Versioned<T>[]> => exclusive(() => Promise.all(
+    keys.map(async key => ({ value: await read<T>(key), revision: await readRevision(key) })),
+  ));
+
+  return {
+    driver: 'file',
+    get: key => exclusive(() => read(key)),
+    set: (key, value) => exclusive(async () => {
+      await writeFile(filePath(key), value);
+      await writeFile(revisionPath(key), (await readRevision(key)) + 1);
+    }),
+    async del(key: string) {
+      await exclusive(async () => {
+        await fs.rm(filePath(key), { force: true });
+        await writeFile(revisionPath(key), (await readRevision(key)) + 1);
+      });
+    },
+    async getVersioned<T>(key: string) {
+      const [versioned] = await getManyVersioned<T>([key]);
+      return versioned;
+    },
+    getManyVersioned,
+    commit(writes: StorageWrite[]) {
+      return exclusive(async () => {
+        for (const w of writes) {
+          if ((await readRevision(w.key)) !== w.expectedRevision) return false;
+        }
+        for (const w of writes) {
+          if (w.value == null) {
+            await fs.rm(filePath(w.key), { force: true });
+          } else {
+            await writeFile(filePath(w.key), w.value);
+          }
+          await writeFile(revisionPath(w.key), w.expectedRevision + 1);
+        }
+        return true;
+      });
+    },
+    append(key: string, items: unknown[], header: unknown[] = []) {
+      return exclusive(async () => {
+        if (items.length === 0) return;
+        const lines = header.length > 0 && (await readList(key)).length === 0 ? [...header, ...items] : items;
+        await fs.mkdir(path.dirname(listPath(key)), { recursive: true });
+        await fs.appendFile(listPath(key), lines.map(item => `${JSON.stringify(item)}\n`).join(''), 'utf-8');
+      });
+    },
+    list: key => exclusive(() => readList(key)),
+  };
+}
+
+// STORAGE_DRIVER=kv|file escolhe o backend. Sem configuração, usa o KV quando
+// as credenciais existem e cai para o arquivo local caso contrário.
+export function resolveStorageDriver(): StorageDriver {
+  const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured === 'kv' || configured === 'file') return configured;
+  if (configured) {
+    console.warn(`STORAGE_DRIVER inválido: "${configured}". Usando o padrão.`);
+  }
+  return process.env.KV_REST_API_URL ? 'kv' : 'file';
+}
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = resolveStorageDriver() === 'kv'
+      ? createKvAdapter()
+      : createFileAdapter(process.env.STORAGE_FILE_DIR || process.cwd());
+  }
+  return storage;
+}
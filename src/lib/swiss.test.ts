@@ -0,0 +1,71 @@
+// src/lib/swiss.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SwissBrackets } from './brackets';
+import { teamKey } from './registry';
+import { initializeSwiss } from './regeneration';
+import { updatePlayoffs } from './standings';
+import { calculateSwissStandings, createSwissRounds, initialSwissStandings, swissBye, swissRoundName, swissRounds } from './swiss';
+import type { CategoryData, PlayoffMatch, Team, TournamentFormValues } from './types';
+
+const teamLines = (count: number) => Array.from({ length: count }, (_, i) => `A${i + 1} e B${i + 1}`).join('\n');
+
+async function swissCategory(numberOfTeams: number, swissRounds: number, swissCut?: number): Promise<CategoryData> {
+  const formValues = { category: 'Suíço', tournamentType: 'swiss', teams: teamLines(numberOfTeams), groupFormationStrategy: 'order', swissRounds, swissCut } as TournamentFormValues;
+  return { formValues, tournamentData: null, ...(await initializeSwiss(formValues, 'Suíço')) } as CategoryData;
+}
+
+// Plays every Swiss round, the better seed winning 2 x 1, pairing each next round through updatePlayoffs
+function playSwiss(category: CategoryData): CategoryData {
+  const seedOf = (team?: Team) => category.swissStandings!.find(s => teamKey(s.team) === teamKey(team))!.seed;
+  for (let round = 1; round <= category.formValues.swissRounds!; round++) {
+    for (const match of (category.playoffs as SwissBrackets).swiss![swissRoundName(round)]) {
+      const firstWins = seedOf(match.team1) < seedOf(match.team2);
+      Object.assign(match, { score1: firstWins ? 2 : 1, score2: firstWins ? 1 : 2 });
+    }
+    category = updatePlayoffs(category);
+  }
+  return category;
+}
+
+const pairKey = (match: PlayoffMatch) => [teamKey(match.team1), teamKey(match.team2)].sort().join(' x ');
+
+test('no two teams meet twice across the rounds', async () => {
+  const category = playSwiss(await swissCategory(8, 5));
+  const matches = swissRounds((category.playoffs as SwissBrackets).swiss).flat();
+  assert.equal(matches.length, 20);
+  assert.ok(matches.every(match => match.team1 && match.team2));
+  assert.equal(new Set(matches.map(pairKey)).size, matches.length);
+});
+
+test('with an odd number of teams each team gets at most one bye', async () => {
+  const category = playSwiss(await swissCategory(7, 5));
+  const byes = swissRounds((category.playoffs as SwissBrackets).swiss).map(round => teamKey(swissBye(category.swissStandings!, round)));
+  assert.equal(byes.length, 5);
+  assert.equal(new Set(byes).size, 5);
+  assert.ok(category.swissStandings!.every(standing => standing.byes <= 1));
+});
+
+test('teams with the same wins are ranked by Buchholz before set difference', () => {
+  const [a, b, c, d] = ['A', 'B', 'C', 'D'].map(name => ({ player1: name, player2: `${name}2` }));
+  const bracket = createSwissRounds([a, b, d, c], 2, 'Suíço');
+  // Round 1: A 2 x 0 D, B 2 x 1 C. Round 2: A 2 x 0 B, C 2 x 0 D
+  Object.assign(bracket[swissRoundName(1)][0], { score1: 2, score2: 0 });
+  Object.assign(bracket[swissRoundName(1)][1], { score1: 2, score2: 1 });
+  bracket[swissRoundName(2)][0] = { ...bracket[swissRoundName(2)][0], team1: a, team2: b, score1: 2, score2: 0 };
+  bracket[swissRoundName(2)][1] = { ...bracket[swissRoundName(2)][1], team1: c, team2: d, score1: 2, score2: 0 };
+
+  const standings = calculateSwissStandings(initialSwissStandings([a, b, c, d]), bracket);
+  // B and C both have one win; C has the better set difference (+1 against -1), but B's opponents won 3 and C's 1
+  assert.deepEqual(standings.map(s => s.team.player1), ['A', 'B', 'C', 'D']);
+  assert.deepEqual(standings.map(s => s.buchholz), [1, 3, 1, 3]);
+  assert.deepEqual(standings.map(s => s.setDifference), [4, -1, 1, -4]);
+});
+
+test('the cut seeds the semifinals 1 x 4 and 2 x 3 from the final standings', async () => {
+  const category = playSwiss(await swissCategory(8, 3, 4));
+  const [first, second, third, fourth] = category.swissStandings!.map(s => teamKey(s.team));
+  const semifinals = (category.playoffs as SwissBrackets).playoffs!.Semifinal;
+  assert.deepEqual(semifinals.map(match => [teamKey(match.team1), teamKey(match.team2)]), [[first, fourth], [second, third]]);
+  assert.deepEqual(semifinals.map(match => match.team1Placeholder), ['1º do Suíço-Suico', '2º do Suíço-Suico']);
+});
@@ -0,0 +1,183 @@
+// src/lib/swiss.ts
+import type { SwissBrackets } from './brackets';
+import { teamKey, teamLabel } from './registry';
+import type { CategoryData, PlayoffBracket, PlayoffMatch, SwissStanding, Team } from './types';
+
+// Swiss system. Every team plays `swissRounds` rounds, and each round pairs teams with the same record
+// (neighbours in the standings, Monrad style) without rematches. Only the first round is drawn when the
+// category is generated: the later ones are created empty, depending on the previous round, so the
+// scheduler can place them, and are paired once the previous round is finished. With an odd number of
+// teams, the lowest-ranked team that has not rested yet gets a bye, worth a win.
+// Ranking: wins, Buchholz (sum of the opponents' wins), set difference, sets won, then the draw.
+// The first `swissCut` teams of the final standings go on to a knockout built by initializePlayoffs.
+
+export const SWISS_STAGE = 'Suico'; // in match ids and in the placeholders of the cut ("1º do Categoria-Suico")
+
+export const swissRoundName = (round: number) => `Rodada Suíça ${round}`;
+
+export const swissQualifierPlaceholder = (categoryName: string, position: number) =>
+  `${position}º do ${categoryName.replace(/\s/g, '')}-${SWISS_STAGE}`;
+
+// Pairing searches give up after this many steps and accept rematches instead
+const MAX_PAIRING_STEPS = 100_000;
+
+type Tally = SwissStanding & { setsLost: number; opponents: string[] };
+
+const isFinished = (match: PlayoffMatch) =>
+  !!match.team1 && !!match.team2 && typeof match.score1 === 'number' && typeof match.score2 === 'number';
+
+const isPaired = (round: PlayoffMatch[]) => round.every(match => match.team1 && match.team2);
+
+// Rounds in play order
+export function swissRounds(bracket: PlayoffBracket | undefined): PlayoffMatch[][] {
+  const rounds: PlayoffMatch[][] = [];
+  for (let round = 1; bracket?.[swissRoundName(round)]; round++) rounds.push(bracket[swissRoundName(round)]);
+  return rounds;
+}
+
+// The team of a paired round that has no match in it
+export function swissBye(standings: SwissStanding[], round: PlayoffMatch[]): Team | undefined {
+  if (!isPaired(round)) return undefined;
+  const playing = new Set(round.flatMap(match => [teamKey(match.team1), teamKey(match.team2)]));
+  return standings.find(s => !playing.has(teamKey(s.team)))?.team;
+}
+
+// Draw order -> empty standings
+export function initialSwissStandings(teams: Team[]): SwissStanding[] {
+  return teams.map((team, i) => ({ team, seed: i + 1, played: 0, wins: 0, setsWon: 0, setDifference: 0, buchholz: 0, byes: 0 }));
+}
+
+// All rounds of a category, in draw order. The first round pairs the top half of the draw against the
+// bottom half (1 x N/2+1, 2 x N/2+2...); with an odd number of teams, the last one rests.
+export function createSwissRounds(teams: Team[], rounds: number, categoryName: string): PlayoffBracket {
+  const categoryPrefix = categoryName.replace(/\s/g, '');
+  const playing = teams.length % 2 === 0 ? teams : teams.slice(0, -1);
+  const half = playing.length / 2;
+  const bracket: PlayoffBracket = {};
+  let previousIds: string[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const matches: PlayoffMatch[] = Array.from({ length: half }, (_, i) => {
+      const match: PlayoffMatch = {
+        id: `${categoryPrefix}-${SWISS_STAGE}-R${round}-Jogo${i + 1}`,
+        name: `${swissRoundName(round)} - Jogo ${i + 1}`,
+        time: '',
+        court: '',
+        roundOrder: rounds - round + 1,
+      };
+      if (round === 1) {
+        const [team1, team2] = [playing[i], playing[i + half]];
+        return { ...match, team1, team2, team1Placeholder: teamLabel(team1), team2Placeholder: teamLabel(team2) };
+      }
+      const pending = `Definida após a ${swissRoundName(round - 1)}`;
+      return { ...match, team1Placeholder: pending, team2Placeholder: pending, dependencies: previousIds };
+    });
+    bracket[swissRoundName(round)] = matches;
+    previousIds = matches.map(m => m.id);
+  }
+  return bracket;
+}
+
+function tally(previous: SwissStanding[], bracket: PlayoffBracket | undefined): Tally[] {
+  const rows = new Map<string, Tally>(previous.map(s => [
+    teamKey(s.team),
+    { team: s.team, seed: s.seed, played: 0, wins: 0, setsWon: 0, setsLost: 0, setDifference: 0, buchholz: 0, byes: 0, opponents: [] },
+  ]));
+
+  for (const round of swissRounds(bracket)) {
+    if (!isPaired(round)) break;
+    const playing = new Set<string>();
+    for (const match of round) {
+      const [key1, key2] = [teamKey(match.team1), teamKey(match.team2)];
+      const [row1, row2] = [rows.get(key1), rows.get(key2)];
+      playing.add(key1);
+      playing.add(key2);
+      row1?.opponents.push(key2);
+      row2?.opponents.push(key1);
+      if (!isFinished(match) || !row1 || !row2) continue;
+      const [score1, score2] = [match.score1!, match.score2!];
+      row1.played++;
+      row2.played++;
+      if (score1 > score2) row1.wins++;
+      if (score2 > score1) row2.wins++;
+      row1.setsWon += score1;
+      row1.setsLost += score2;
+      row2.setsWon += score2;
+      row2.setsLost += score1;
+    }
+    for (const [key, row] of rows) {
+      if (playing.has(key)) continue;
+      row.byes++;
+      row.played++;
+      row.wins++;
+    }
+  }
+
+  const tallies = [...rows.values()];
+  for (const row of tallies) {
+    row.setDifference = row.setsWon - row.setsLost;
+    row.buchholz = row.opponents.reduce((sum, key) => sum + (rows.get(key)?.wins ?? 0), 0);
+  }
+  return tallies.sort((a, b) =>
+    b.wins - a.wins ||
+    b.buchholz - a.buchholz ||
+    b.setDifference - a.setDifference ||
+    b.setsWon - a.setsWon ||
+    a.seed - b.seed);
+}
+
+// Recomputes the standings from the scores of the Swiss rounds, best first
+export function calculateSwissStandings(previous: SwissStanding[], bracket: PlayoffBracket | undefined): SwissStanding[] {
+  return tally(previous, bracket).map(({ setsLost: _setsLost, opponents: _opponents, ...standing }) => standing);
+}
+
+// Pairs the ranked teams top-down, each with the best-ranked team it has not played yet, backtracking
+// when the teams left over could only be paired with rematches
+function pairWithoutRematches(ranked: Tally[], budget: { steps: number }): [Tally, Tally][] | null {
+  if (ranked.length === 0) return [];
+  const [first, ...rest] = ranked;
+  for (let i = 0; i < rest.length; i++) {
+    if (--budget.steps < 0) return null;
+    if (first.opponents.includes(teamKey(rest[i].team))) continue;
+    const others = pairWithoutRematches([...rest.slice(0, i), ...rest.slice(i + 1)], budget);
+    if (others) return [[first, rest[i]], ...others];
+  }
+  return null;
+}
+
+// Pairing of the next round from the rounds played so far
+export function pairSwissRound(previous: SwissStanding[], bracket: PlayoffBracket | undefined): { pairs: [Team, Team][]; bye?: Team } {
+  const ranked = tally(previous, bracket);
+  let bye: Tally | undefined;
+  if (ranked.length % 2 === 1) {
+    bye = [...ranked].reverse().find(row => row.byes === 0) ?? ranked[ranked.length - 1];
+    ranked.splice(ranked.indexOf(bye), 1);
+  }
+  const pairs = pairWithoutRematches(ranked, { steps: MAX_PAIRING_STEPS })
+    ?? Array.from({ length: ranked.length / 2 }, (_, i): [Tally, Tally] => [ranked[2 * i], ranked[2 * i + 1]]);
+  return { pairs: pairs.map(([a, b]) => [a.team, b.team]), bye: bye?.team };
+}
+
+// Brings a Swiss category up to date after a score changes: recomputes the standings and, once a round is
+// finished, pairs the next one. Changes `category.playoffs` in place. Returns the new standings and, when
+// every round is finished, the teams of the cut by placeholder.
+export function updateSwiss(category: Pick<CategoryData, 'formValues' | 'playoffs' | 'swissStandings'>): { standings: SwissStanding[]; qualifiers: Record<string, Team> } {
+  const bracket = (category.playoffs as SwissBrackets | null)?.swiss;
+  const previous = category.swissStandings ?? [];
+  const rounds = swissRounds(bracket);
+
+  const next = rounds.findIndex(round => round.every(match => !match.team1 && !match.team2));
+  if (next > 0 && rounds[next - 1].every(isFinished)) {
+    const { pairs } = pairSwissRound(previous, bracket);
+    pairs.forEach(([team1, team2], i) => Object.assign(rounds[next][i], { team1: { ...team1 }, team2: { ...team2 } }));
+  }
+
+  const standings = calculateSwissStandings(previous, bracket);
+  const qualifiers: Record<string, Team> = {};
+  if (rounds.length > 0 && rounds.every(round => round.every(isFinished))) {
+    standings.slice(0, category.formValues.swissCut ?? 0).forEach((standing, i) => {
+      qualifiers[swissQualifierPlaceholder(category.formValues.category, i + 1)] = standing.team;
+    });
+  }
+  return { standings, qualifiers };
+}
@@ -1,22 +1,44 @@
 
 
-import type {
-  GenerateTournamentGroupsInput as AIGenerateTournamentGroupsInput,
-} from "@/ai/flows/generate-tournament-groups"
 import { z } from "zod"
 
 // This is now an algorithmic output, not from AI.
 export type GenerateTournamentGroupsOutput = z.infer<typeof AlgorithmicGenerateTournamentGroupsOutputSchema>;
 
-// We only need a subset of the AI input type for the action
-export type GenerateTournamentGroupsInput = AIGenerateTournamentGroupsInput;
+// Input of the group and bracket generation (see generateGroups)
+export type GenerateTournamentGroupsInput = {
+  numberOfTeams: number;
+  numberOfGroups?: number;
+  groupFormationStrategy: 'order' | 'random' | 'pots';
+  drawSeed?: number; // see src/lib/seeding.ts
+  teams: { player1: string; player2: string }[];
+  pots?: { player1: string; player2: string }[][]; // groups with the 'pots' strategy; `teams` split at blank lines
+  separations?: string; // groups: teams or players that must not share a group, see drawGroups
+  legs?: number; // groups: how many times every pair of a group plays
+  category: string;
+  tournamentType: TournamentType;
+};
 
+// A team as embedded in a category. `player1`/`player2` are display copies of the registry names;
+// the ids (see src/lib/registry.ts) are what identify the team and its players.
 export const teamSchema = z.object({
+  id: z.string().optional(),
+  player1Id: z.string().optional(),
+  player2Id: z.string().optional(),
   player1: z.string(),
   player2: z.string(),
 });
 export type Team = z.infer<typeof teamSchema>;
 
+// Player and team registry of an event, keyed by id
+export const registrySchema = z.object({
+  players: z.record(z.object({ id: z.string(), name: z.string() })),
+  teams: z.record(z.object({ id: z.string(), player1Id: z.string(), player2Id: z.string() })),
+});
+export type Registry = z.infer<typeof registrySchema>;
+export type Player = Registry['players'][string];
+export type RegisteredTeam = Registry['teams'][string];
+
 export const timeSlotSchema = z.object({
     startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM)."),
     endTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM)."),
@@ -52,10 +74,71 @@ export const globalSettingsSchema = z.object({
 });
 export type GlobalSettings = z.infer<typeof globalSettingsSchema>;
 
-export const formSchema = z
+// An event (edition) of the championship. Courts and categories belong to the event's own data;
+// these are the details shown in the event picker and on its home page.
+export const eventFormSchema = z.object({
+  name: z.string().trim().min(1, "O nome do evento é obrigatório."),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida.").or(z.literal('')),
+  venue: z.string().trim(),
+  logo: z.string().trim(), // URL or path under /public
+});
+export type EventFormValues = z.infer<typeof eventFormSchema>;
+
+// A scorekeeper (mesário) enters scores for the matches of the given courts only. The access code is
+// stored hashed; courts are referenced by name, as in `Match.court`.
+export const scorekeeperFormSchema = z.object({
+  name: z.string().trim().min(1, "O nome do mesário é obrigatório."),
+  code: z.string().trim().min(4, "O código deve ter pelo menos 4 caracteres."),
+  courts: z.array(z.string()).min(1, "Selecione pelo menos uma quadra."),
+});
+export type ScorekeeperFormValues = z.infer<typeof scorekeeperFormSchema>;
+
+// Admin accounts (src/lib/users.ts). A global admin manages everything; any other account only manages
+// the listed categories (results, teams, regeneration and the schedule of their matches).
+export const categoryPermissionSchema = z.object({
+  eventId: z.string().min(1),
+  category: z.string().min(1),
+});
+export type CategoryPermission = z.infer<typeof categoryPermissionSchema>;
+
+// Passwords anyone would try first (the old default was "1234") are refused
+const COMMON_PASSWORDS = ['12345678', '123456789', '1234567890', '87654321', 'password', 'senha123', 'admin123', 'administrador', 'futevolei', 'qwertyui'];
+
+export const adminPasswordSchema = z.string()
+  .min(8, "A senha deve ter pelo menos 8 caracteres.")
+  .refine(password => !COMMON_PASSWORDS.includes(password.toLowerCase()) && new Set(password).size > 2, "Esta senha é fácil demais de adivinhar. Escolha outra.");
+
+const adminUserFieldsSchema = z.object({
+  username: z.string().trim().regex(/^[a-zA-Z0-9._-]{3,32}$/, "Use de 3 a 32 letras, números, ponto, hífen ou sublinhado."),
+  name: z.string().trim().min(1, "O nome é obrigatório."),
+  global: z.boolean(),
+  categories: z.array(categoryPermissionSchema),
+});
+const hasPermission = (values: { global: boolean; categories: CategoryPermission[] }) => values.global || values.categories.length > 0;
+const permissionMessage = { message: "Marque administrador geral ou escolha pelo menos uma categoria.", path: ["categories"] };
+
+export const adminUserFormSchema = adminUserFieldsSchema.refine(hasPermission, permissionMessage);
+export type AdminUserFormValues = z.infer<typeof adminUserFormSchema>;
+
+export const newAdminUserFormSchema = adminUserFieldsSchema.extend({ password: adminPasswordSchema }).refine(hasPermission, permissionMessage);
+export type NewAdminUserFormValues = z.infer<typeof newAdminUserFormSchema>;
+
+// First-run setup: the first account is always a global admin. When ADMIN_PASSWORD is set, it is asked
+// for too, so only whoever controls the deployment can claim a fresh installation.
+export const setupFormSchema = z.object({
+  username: adminUserFieldsSchema.shape.username,
+  name: adminUserFieldsSchema.shape.name,
+  password: adminPasswordSchema,
+  setupToken: z.string().optional(),
+});
+export type SetupFormValues = z.infer<typeof setupFormSchema>;
+
+// The form fields without the cross-field rules. Stored categories are validated against this,
+// so data generated under older (or looser) rules still loads.
+export const formObjectSchema = z
   .object({
     category: z.string().min(1, "A categoria é obrigatória."),
-    tournamentType: z.enum(['groups', 'singleElimination', 'doubleElimination']),
+    tournamentType: z.enum(['groups', 'singleElimination', 'doubleElimination', 'swiss', 'league', 'kingOfTheBeach']),
     numberOfTeams: z.coerce
       .number({ invalid_type_error: "Deve ser um número." })
       .int("Deve ser um número inteiro.")
@@ -68,18 +151,50 @@ export const formSchema = z
       .number({ invalid_type_error: "Deve ser um número." })
       .int("Deve ser um número inteiro.")
       .min(1, "Deve classificar pelo menos uma dupla.").optional(),
-    teams: z.string().min(1, "A lista de duplas é obrigatória."),
-    groupFormationStrategy: z.enum(["order", "random"], {
+    // Swiss system: rounds to play, and how many of the final standings go on to a knockout (0 = none)
+    swissRounds: z.coerce
+      .number({ invalid_type_error: "Deve ser um número." })
+      .int("Deve ser um número inteiro.")
+      .min(1, "Deve haver pelo menos uma rodada.").optional(),
+    swissCut: z.coerce
+      .number({ invalid_type_error: "Deve ser um número." })
+      .int("Deve ser um número inteiro.")
+      .min(0, "Não pode ser negativo.").optional(),
+    // League and groups: how many times every pair of teams plays (1 = turno, 2 = turno e returno...)
+    legs: z.coerce
+      .number({ invalid_type_error: "Deve ser um número." })
+      .int("Deve ser um número inteiro.")
+      .min(1, "Deve haver pelo menos um turno.")
+      .max(4, "No máximo 4 turnos.").optional(),
+    // Rei da Praia: rounds to play, each with new partners (at most players - 1, or players if odd; empty = all)
+    kingOfTheBeachRounds: z.coerce
+      .number({ invalid_type_error: "Deve ser um número." })
+      .int("Deve ser um número inteiro.")
+      .min(1, "Deve haver pelo menos uma rodada.").optional(),
+    teams: z.string().min(1, "A lista de duplas é obrigatória."), // Rei da Praia: one player per line
+    groupFormationStrategy: z.enum(["order", "random", "pots"], {
       required_error: "A estratégia de formação é obrigatória.",
     }),
+    // Seed of the 'random' and 'pots' draws (see src/lib/seeding.ts); recorded on generation, empty = new draw
+    drawSeed: z.coerce.number().int().nonnegative().optional(),
     includeThirdPlace: z.boolean().default(true),
+    // Groups: first-round matchups of the knockout, one per line ("1A x 2C", "1A" for a bye); empty = automatic
+    pairings: z.string().optional(),
+    // Groups: one line per set of teams (or players) that must not share a group, entries separated by ";"
+    separations: z.string().optional(),
+    // Knockouts: classification matches for every place, not just the third
+    placementMatches: z.boolean().optional(),
+    // Groups: knockout for the teams that don't qualify (Taça Prata)
+    consolationBracket: z.boolean().optional(),
     updatedAt: z.string().optional(),
     startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM).").optional().or(z.literal('')),
     playoffPriority: z.coerce.number().int().optional(),
     quarterFinalsStartTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM).").optional().or(z.literal('')),
     semiFinalsStartTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM).").optional().or(z.literal('')),
     finalStartTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Formato de hora inválido (HH:MM).").optional().or(z.literal('')),
-  })
+  });
+
+export const formSchema = formObjectSchema
   .refine(
     (data) => {
       const teamsArray = data.teams
@@ -89,12 +204,13 @@ export const formSchema = z
       return teamsArray.length === data.numberOfTeams;
     },
     {
-      message: "O número de duplas na lista não corresponde ao número total de duplas informado.",
+      message: "O número de duplas (ou jogadores, no Rei da Praia) na lista não corresponde ao total informado.",
       path: ["teams"],
     }
   )
    .refine(
     (data) => {
+        if (data.tournamentType === 'kingOfTheBeach') return true;
         const teamsArray = data.teams
             .split("\n")
             .map((t) => t.trim())
@@ -110,15 +226,42 @@ export const formSchema = z
     (data) => {
       if (data.tournamentType !== 'groups') return true;
       if (!data.numberOfGroups || !data.teamsPerGroupToAdvance) return false;
-      const qualifiers = data.numberOfGroups * data.teamsPerGroupToAdvance;
-      // Check if qualifiers is a power of 2 (and > 1)
-      return qualifiers > 1 && (qualifiers & (qualifiers - 1)) === 0;
+      // Any count works: when it is not a power of 2, the best qualifiers get byes
+      return data.numberOfGroups * data.teamsPerGroupToAdvance > 1;
     },
     {
-      message: "O número total de classificados (Grupos x Classificados) deve ser uma potência de 2 (2, 4, 8, 16...).",
+      message: "O número total de classificados (Grupos x Classificados) deve ser pelo menos 2.",
       path: ["teamsPerGroupToAdvance"],
     }
   )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'groups' || data.groupFormationStrategy !== 'pots' || !data.numberOfGroups) return true;
+      // One team per group from each pot: blocks of lines separated by blank lines (see drawGroups)
+      const potSizes = data.teams
+        .split(/\n\s*\n/)
+        .map((block) => block.split("\n").filter((line) => line.trim()).length)
+        .filter((size) => size > 0);
+      return potSizes.every((size, i) => (i === potSizes.length - 1 ? size <= data.numberOfGroups! : size === data.numberOfGroups));
+    },
+    {
+      message: "Cada pote deve ter uma dupla por grupo; só o último pode ter menos.",
+      path: ["teams"],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'groups' || !data.pairings?.trim()) return true;
+      // One line per first-round matchup of the knockout, byes included (the rest is checked on generation)
+      const qualifiers = (data.numberOfGroups ?? 0) * (data.teamsPerGroupToAdvance ?? 0);
+      const lines = data.pairings.split("\n").filter((line) => line.trim()).length;
+      return 2 ** Math.ceil(Math.log2(Math.max(qualifiers, 1))) === lines * 2;
+    },
+    {
+      message: "Os cruzamentos não correspondem ao número de classificados. Restaure o padrão ou use o automático.",
+      path: ["pairings"],
+    }
+  )
  .refine(
     (data) => {
         if (data.tournamentType !== 'groups') return true;
@@ -140,11 +283,11 @@ export const formSchema = z
   .refine(
     (data) => {
         if (data.tournamentType !== 'singleElimination') return true;
-        const numTeams = data.numberOfTeams;
-        return numTeams > 1 && (numTeams & (numTeams - 1)) === 0;
+        // Any count works: the top seeds get byes
+        return data.numberOfTeams >= 2;
     },
     {
-        message: "Para mata-mata simples, o número de duplas deve ser uma potência de 2 (4, 8, 16...).",
+        message: "Mata-mata simples requer no mínimo 2 duplas.",
         path: ["numberOfTeams"],
     }
    )
@@ -158,9 +301,59 @@ export const formSchema = z
       message: "Dupla eliminação requer no mínimo 2 duplas.",
       path: ["numberOfTeams"],
     }
+  )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'swiss') return true;
+      return !!data.swissRounds && data.swissRounds < data.numberOfTeams;
+    },
+    {
+      message: "O número de rodadas deve ser menor que o número de duplas (ninguém joga duas vezes contra a mesma dupla).",
+      path: ["swissRounds"],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'swiss' || !data.swissCut) return true;
+      return data.swissCut > 1 && (data.swissCut & (data.swissCut - 1)) === 0 && data.swissCut <= data.numberOfTeams;
+    },
+    {
+      message: "Os classificados para o mata-mata devem ser uma potência de 2 (2, 4, 8...), no máximo o número de duplas, ou 0 para não ter mata-mata.",
+      path: ["swissCut"],
+    }
+  )
+  .refine(
+    (data) => data.tournamentType !== 'league' || data.numberOfTeams >= 2,
+    {
+      message: "A liga precisa de pelo menos 2 duplas.",
+      path: ["numberOfTeams"],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'kingOfTheBeach') return true;
+      const players = data.teams.split("\n").map((p) => p.trim().toLowerCase()).filter(Boolean);
+      return players.length >= 4 && new Set(players).size === players.length && players.every((p) => !/\s+e\s+/i.test(p));
+    },
+    {
+      message: "O Rei da Praia precisa de pelo menos 4 jogadores, um por linha, sem repetir nomes.",
+      path: ["teams"],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.tournamentType !== 'kingOfTheBeach') return true;
+      const maxRounds = data.numberOfTeams % 2 === 0 ? data.numberOfTeams - 1 : data.numberOfTeams;
+      return !data.kingOfTheBeachRounds || data.kingOfTheBeachRounds <= maxRounds;
+    },
+    {
+      message: "O número de rodadas não pode passar do número de jogadores menos 1 (ou do número de jogadores, se for ímpar), para ninguém repetir parceiro.",
+      path: ["kingOfTheBeachRounds"],
+    }
   );
 
 export type TournamentFormValues = z.infer<typeof formSchema>;
+export type TournamentType = TournamentFormValues['tournamentType'];
 
 // Zod schema for the output of the algorithmic group generation.
 export const AlgorithmicGenerateTournamentGroupsOutputSchema = z.object({
@@ -170,7 +363,8 @@ export const AlgorithmicGenerateTournamentGroupsOutputSchema = z.object({
       teams: z.array(z.object({ player1: z.string(), player2: z.string() })),
       matches: z.array(z.object({ 
         team1: z.object({ player1: z.string(), player2: z.string() }),
-        team2: z.object({ player1: z.string(), player2: z.string() })
+        team2: z.object({ player1: z.string(), player2: z.string() }),
+        round: z.number().int().positive().optional(),
       })),
     })
   ),
@@ -192,6 +386,7 @@ type AIOutputGroup = {
 export type MatchWithScore = AIOutputGroup['matches'][0] & {
   id?: string;
   name?: string;
+  round?: number; // group and league matches: the rodada (1 = first), see roundRobinMatches
   team1Placeholder?: string;
   team2Placeholder?: string;
   score1?: number;
@@ -217,6 +412,30 @@ export type TeamStanding = {
   setDifference: number;
 };
 
+// A row of the Swiss standings (see src/lib/swiss.ts). Byes count as played and won.
+export type SwissStanding = TeamStanding & {
+  seed: number; // position in the draw (1 = first); the last tie-breaker
+  buchholz: number; // sum of the wins of every opponent faced
+  byes: number;
+};
+
+// A row of the individual leaderboard of the Rei da Praia (see src/lib/king-of-the-beach.ts)
+export type PlayerStanding = {
+  player: string;
+  played: number;
+  wins: number;
+  pointsWon: number;
+  pointDifference: number;
+};
+
+// A row of the final placement table of a knockout (see knockoutPlacements in src/lib/standings.ts):
+// a single place, or a range shared by the teams knocked out in the same round without placement matches
+export type KnockoutPlacement = {
+  firstPlace: number;
+  lastPlace: number;
+  team: Team;
+};
+
 export type PlayoffMatch = {
   id: string;
   name: string;
@@ -229,8 +448,11 @@ export type PlayoffMatch = {
   time?: string;
   court?: string;
   roundOrder: number; // Used for sorting rounds
-  dependencies?: string[];
+  dependencies?: string[]; // matches that must be played first, besides the ones named in the placeholders
   phaseStartTime?: string;
+  // Final places decided by this match, if any (e.g. 5 and 6 in "Disputa de 5º Lugar")
+  winnerPlace?: number;
+  loserPlace?: number;
 };
 
 export type PlayoffBracket = {
@@ -240,6 +462,8 @@ export type PlayoffBracket = {
 export type PlayoffBracketSet = {
     upper?: PlayoffBracket;
     lower?: PlayoffBracket;
+    swiss?: PlayoffBracket;
+    consolation?: PlayoffBracket;
     playoffs?: PlayoffBracket;
     [key: string]: PlayoffBracket | undefined;
 } | PlayoffBracket;
@@ -247,16 +471,92 @@ export type PlayoffBracketSet = {
 
 export type CategoryData = {
   tournamentData: TournamentData | null;
+  // Double elimination stores { upper, lower, playoffs }, the Swiss system { swiss, playoffs } and groups
+  // { playoffs, consolation };
+  // every other format stores a single bracket. Use playoffBrackets() from "@/lib/brackets" instead
+  // of inspecting the shape.
   playoffs: PlayoffBracketSet | null;
+  swissStandings?: SwissStanding[]; // Swiss system only: every team, best first
   formValues: TournamentFormValues;
+  teamIds?: string[]; // registry ids of the formValues.teams lines, in order
+  playerIds?: string[]; // Rei da Praia: registry ids of the formValues.teams lines (one player each), in order
   totalMatches?: number;
+  revision?: number; // incremented on every write; stale copies are rejected with a conflict
+  schemaVersion?: number; // see src/lib/migrations.ts
 }
 
+// Schemas for validating stored categories after migration. They only check the shape;
+// the TypeScript types above remain the source of truth for the app.
+const storedTeamSchema = teamSchema.partial();
+
+export const matchWithScoreSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  team1: storedTeamSchema.optional(),
+  team2: storedTeamSchema.optional(),
+  team1Placeholder: z.string().optional(),
+  team2Placeholder: z.string().optional(),
+  score1: z.number().nullish(),
+  score2: z.number().nullish(),
+  time: z.string().optional(),
+  court: z.string().optional(),
+  round: z.number().int().positive().optional(),
+});
+
+export const playoffMatchSchema = matchWithScoreSchema.extend({
+  id: z.string(),
+  name: z.string(),
+  roundOrder: z.number(),
+  dependencies: z.array(z.string()).optional(),
+  phaseStartTime: z.string().optional(),
+  winnerPlace: z.number().int().positive().optional(),
+  loserPlace: z.number().int().positive().optional(),
+});
+
+export const playoffBracketSchema = z.record(z.array(playoffMatchSchema));
+
+const teamStandingSchema = z.object({
+  team: storedTeamSchema,
+  played: z.number(),
+  wins: z.number(),
+  setsWon: z.number(),
+  setDifference: z.number(),
+});
+
+export const groupWithScoresSchema = z.object({
+  name: z.string(),
+  teams: z.array(storedTeamSchema),
+  matches: z.array(matchWithScoreSchema),
+  standings: z.array(teamStandingSchema),
+});
+
+export const categoryDataSchema = z.object({
+  tournamentData: z.object({ groups: z.array(groupWithScoresSchema) }).nullable(),
+  playoffs: z.union([
+    z.object({ upper: playoffBracketSchema.optional(), lower: playoffBracketSchema.optional(), playoffs: playoffBracketSchema.optional() }).strict(),
+    z.object({ swiss: playoffBracketSchema, playoffs: playoffBracketSchema.optional() }).strict(),
+    z.object({ playoffs: playoffBracketSchema.optional(), consolation: playoffBracketSchema.optional() }).strict(),
+    playoffBracketSchema,
+  ]).nullable(),
+  formValues: formObjectSchema,
+  swissStandings: z.array(teamStandingSchema.extend({ seed: z.number(), buchholz: z.number(), byes: z.number() })).optional(),
+  teamIds: z.array(z.string()).optional(),
+  playerIds: z.array(z.string()).optional(),
+  totalMatches: z.number().optional(),
+  revision: z.number().optional(),
+  schemaVersion: z.number(),
+});
+
 export type TournamentsState = {
   _globalSettings: GlobalSettings;
-  [categoryName: string]: CategoryData | GlobalSettings;
+  _registry: Registry;
+  [categoryName: string]: CategoryData | GlobalSettings | Registry;
 }
 
+// Keys of TournamentsState that are not categories
+export const STATE_META_KEYS = ['_globalSettings', '_registry'];
+export const isCategoryKey = (key: string) => !STATE_META_KEYS.includes(key);
+
 export type ConsolidatedMatch = {
     id: string | undefined;
     category: string;
@@ -269,6 +569,9 @@ export type ConsolidatedMatch = {
     court?: string;
 };
 
+// A match on the scorekeeper page; bracket matches can only be scored once both teams are known
+export type ScorableMatch = ConsolidatedMatch & { teamsKnown: boolean };
+
 export type UpdateMatchInput = {
     matchId: string;
     categoryName: string;
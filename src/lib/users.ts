@@ -0,0 +1,177 @@
+// src/lib/users.ts
+import type { NextRequest } from 'next/server';
+import { getStorage } from './storage';
+import { checkAdminPassword, decodeSession, hashSecret, safeEqual, SESSION_COOKIE, SESSION_TTL_MS, verifySecret, type Session } from './session';
+import { adminPasswordSchema, type AdminUserFormValues, type CategoryPermission, type NewAdminUserFormValues } from './types';
+
+// Contas de administrador da instalação, com senha (hash scrypt) e permissões: administrador geral, ou
+// administrador de categorias específicas de um evento. Sem nenhuma conta, a instalação está na configuração
+// inicial e nenhuma página de administração funciona até a primeira conta ser criada. Depois disso, a conta
+// 'admin' de ADMIN_PASSWORD vale como administrador geral para recuperar o acesso, se a senha for forte.
+export const USERS_KEY = 'ftv:data:users';
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+export type AdminUser = {
+  id: string;
+  username: string; // usado no login e registrado no log como autor das alterações
+  name: string;
+  passwordHash: string;
+  global: boolean; // administrador geral: tudo, em todos os eventos
+  categories: CategoryPermission[]; // sem `global`: só estas categorias
+  disabled: boolean;
+  createdAt: string; // ISO 8601
+  passwordChangedAt: string; // sessões abertas antes disso deixam de valer
+};
+
+// O que as telas recebem: sem o hash da senha
+export type AdminUserInfo = Omit<AdminUser, 'passwordHash'>;
+
+// O que um administrador conectado pode fazer
+export type AdminAccess = {
+  actor: string;
+  userId?: string;
+  global: boolean;
+  categories: CategoryPermission[];
+};
+
+export const ENV_ADMIN_USERNAME = 'admin';
+
+export const toAdminUserInfo = ({ passwordHash: _passwordHash, ...info }: AdminUser): AdminUserInfo => info;
+
+const usernameKey = (username: string) => username.trim().toLowerCase();
+
+export async function listUsers(): Promise<AdminUser[]> {
+  return (await getStorage().get<AdminUser[]>(USERS_KEY)) ?? [];
+}
+
+// Altera a lista com controle de concorrência; `update` pode lançar um erro para recusar a alteração
+async function updateUsers(update: (users: AdminUser[]) => AdminUser[]): Promise<AdminUser[]> {
+  const storage = getStorage();
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const { value, revision } = await storage.getVersioned<AdminUser[]>(USERS_KEY);
+    const after = update(structuredClone(value ?? []));
+    if (await storage.commit([{ key: USERS_KEY, value: after, expectedRevision: revision }])) return after;
+  }
+  throw new Error('Não foi possível atualizar os usuários: a lista foi alterada durante a gravação.');
+}
+
+function permissionsOf(values: Pick<AdminUserFormValues, 'global' | 'categories'>) {
+  return { global: values.global, categories: values.global ? [] : values.categories };
+}
+
+export async function isSetupRequired(): Promise<boolean> {
+  return (await listUsers()).length === 0;
+}
+
+// `firstRun`: só cria a conta se ainda não houver nenhuma (configuração inicial)
+export async function createUser(values: NewAdminUserFormValues, { firstRun = false } = {}): Promise<AdminUser> {
+  const now = new Date().toISOString();
+  const user: AdminUser = {
+    id: crypto.randomUUID(),
+    username: values.username.trim(),
+    name: values.name.trim(),
+    passwordHash: await hashSecret(values.password),
+    ...permissionsOf(values),
+    disabled: false,
+    createdAt: now,
+    passwordChangedAt: now,
+  };
+  await updateUsers(users => {
+    if (firstRun && users.length > 0) throw new Error('A configuração inicial já foi feita. Entre com a sua conta.');
+    const key = usernameKey(user.username);
+    if (key === ENV_ADMIN_USERNAME || users.some(u => usernameKey(u.username) === key)) {
+      throw new Error(`O usuário "${user.username}" já existe.`);
+    }
+    return [...users, user];
+  });
+  return user;
+}
+
+function findUser(users: AdminUser[], id: string): AdminUser {
+  const user = users.find(u => u.id === id);
+  if (!user) throw new Error('Usuário não encontrado.');
+  return user;
+}
+
+// As funções abaixo devolvem a conta já alterada
+export async function updateUser(id: string, values: Pick<AdminUserFormValues, 'name' | 'global' | 'categories'>): Promise<AdminUser> {
+  const users = await updateUsers(users => {
+    Object.assign(findUser(users, id), { name: values.name.trim(), ...permissionsOf(values) });
+    return users;
+  });
+  return findUser(users, id);
+}
+
+export async function setUserDisabled(id: string, disabled: boolean): Promise<AdminUser> {
+  const users = await updateUsers(users => {
+    findUser(users, id).disabled = disabled;
+    return users;
+  });
+  return findUser(users, id);
+}
+
+// Troca a senha e encerra as sessões abertas da conta
+export async function resetUserPassword(id: string, password: string): Promise<AdminUser> {
+  const passwordHash = await hashSecret(password);
+  const users = await updateUsers(users => {
+    Object.assign(findUser(users, id), { passwordHash, passwordChangedAt: new Date().toISOString() });
+    return users;
+  });
+  return findUser(users, id);
+}
+
+// As permissões acompanham a categoria quando ela é renomeada
+export async function renameCategoryPermissions(eventId: string, oldName: string, newName: string): Promise<void> {
+  const users = await listUsers();
+  const matches = (p: CategoryPermission) => p.eventId === eventId && p.category === oldName;
+  if (!users.some(u => u.categories.some(matches))) return;
+  await updateUsers(current => {
+    for (const user of current) {
+      user.categories = user.categories.map(p => (matches(p) ? { eventId, category: newName } : p));
+    }
+    return current;
+  });
+}
+
+// A conta com este usuário e senha, se estiver ativa
+export async function authenticateUser(username: string, password: string): Promise<AdminUser | null> {
+  const user = (await listUsers()).find(u => usernameKey(u.username) === usernameKey(username));
+  if (!user || user.disabled) return null;
+  return (await verifySecret(password, user.passwordHash)) ? user : null;
+}
+
+// ADMIN_PASSWORD fraca (como o antigo "1234") não abre sessão nenhuma
+const envAdminEnabled = () => !!process.env.ADMIN_PASSWORD && adminPasswordSchema.safeParse(process.env.ADMIN_PASSWORD).success;
+
+export function isEnvAdminLogin(username: string, password: string): boolean {
+  return envAdminEnabled() && usernameKey(username) === ENV_ADMIN_USERNAME && checkAdminPassword(password);
+}
+
+// Permissões atuais de uma sessão de administrador, ou null se a conta foi desativada, removida ou teve
+// a senha trocada depois que a sessão começou, ou se a configuração inicial ainda não foi feita
+export async function resolveAdmin(session: Session | null): Promise<AdminAccess | null> {
+  if (session?.role !== 'admin') return null;
+  const users = await listUsers();
+  if (users.length === 0) return null;
+  if (!session.userId) {
+    return envAdminEnabled() ? { actor: session.sub, global: true, categories: [] } : null;
+  }
+  const user = users.find(u => u.id === session.userId);
+  if (!user || user.disabled) return null;
+  if (Date.parse(user.passwordChangedAt) > session.exp - SESSION_TTL_MS) return null;
+  return { actor: user.username, userId: user.id, global: user.global, categories: user.categories };
+}
+
+export function canManageCategory(access: AdminAccess, eventId: string, category: string): boolean {
+  return access.global || access.categories.some(p => p.eventId === eventId && p.category === category);
+}
+
+// Rotas de API: uma sessão de administrador geral ou, para scripts, o header x-admin-token com ADMIN_PASSWORD
+// (forte); o token não passa pela configuração inicial, que é feita pela tela de login
+export async function isAdminRequest(req: NextRequest): Promise<boolean> {
+  const token = req.headers.get('x-admin-token');
+  if (token && envAdminEnabled() && !(await isSetupRequired()) && safeEqual(token, process.env.ADMIN_PASSWORD!)) return true;
+  const access = await resolveAdmin(await decodeSession(req.cookies.get(SESSION_COOKIE)?.value));
+  return access?.global === true;
+}
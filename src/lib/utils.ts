@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Message of a caught error, or the fallback when it has none
+export function errorMessage(e: unknown, fallback: string) {
+  return e instanceof Error && e.message ? e.message : fallback
+}